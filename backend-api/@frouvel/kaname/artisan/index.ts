@@ -13,7 +13,6 @@
  */
 
 import app from '$/bootstrap/app';
-import type { ConsoleKernel } from '$/@frouvel/kaname/foundation';
 
 /*
 |--------------------------------------------------------------------------
@@ -29,12 +28,16 @@ import type { ConsoleKernel } from '$/@frouvel/kaname/foundation';
 async function main() {
   try {
     // Get the console kernel from the application container
-    const kernel = app.make<ConsoleKernel>('ConsoleKernel');
+    const kernel = app.make('ConsoleKernel');
 
     // Run the console application with command line arguments
     await kernel.run(process.argv);
+
+    // Release resources (e.g. database connections) so the process can exit
+    await kernel.terminate();
   } catch (error) {
     console.error('Failed to run console application:', error);
+    await app.terminate();
     process.exit(1);
   }
 }
@@ -0,0 +1,196 @@
+/**
+ * Access Gate
+ *
+ * Decides what users may do. Abilities are callbacks defined on the gate,
+ * or methods of the policy class of a model checked as `<model>.<method>`.
+ * `before` callbacks decide ahead of both, e.g. to let admins do anything.
+ * Inspired by Laravel's Gate.
+ *
+ * Abilities are checked for the user authenticated by the `auth`
+ * middleware unless given one with forUser(). Guests and undefined
+ * abilities are denied.
+ *
+ * @example
+ * app
+ *   .make('gate')
+ *   .before((user) => (user.scope.includes('admin') ? true : undefined))
+ *   .define('reports.view', (user) => user.scope.includes('analyst'))
+ *   .policy('user', UserPolicy);
+ *
+ * await Gate.authorize('user.update', { id: params.id });
+ */
+
+import type { Application } from '../foundation/Application';
+import { ForbiddenError } from '../error/CommonErrors';
+import { Auth } from './Auth';
+import type {
+  AbilityCallback,
+  AuthUser,
+  BeforeCallback,
+  PolicyClass,
+} from './types';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    gate: AccessGate;
+  }
+}
+
+/**
+ * The checks of the gate for a given user
+ */
+export interface UserGate {
+  allows(ability: string, ...args: unknown[]): Promise<boolean>;
+  denies(ability: string, ...args: unknown[]): Promise<boolean>;
+  authorize(ability: string, ...args: unknown[]): Promise<void>;
+}
+
+export class AccessGate {
+  static readonly inject = ['app'] as const;
+
+  private readonly _abilities: Map<string, AbilityCallback> = new Map();
+  private readonly _policies: Map<string, PolicyClass> = new Map();
+  private readonly _resolvedPolicies: Map<string, object> = new Map();
+  private readonly _before: BeforeCallback[] = [];
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Define an ability
+   */
+  define(ability: string, callback: AbilityCallback): this {
+    this._abilities.set(ability, callback);
+    return this;
+  }
+
+  /**
+   * Register the policy of a model, whose methods are the `<model>.*`
+   * abilities
+   *
+   * Policies are constructed by the container on first use.
+   */
+  policy(model: string, policy: PolicyClass): this {
+    this._policies.set(model, policy);
+    this._resolvedPolicies.delete(model);
+    return this;
+  }
+
+  /**
+   * Register a callback deciding ahead of every ability
+   */
+  before(callback: BeforeCallback): this {
+    this._before.push(callback);
+    return this;
+  }
+
+  /**
+   * Determine if an ability is defined, by the gate or a policy
+   */
+  has(ability: string): boolean {
+    return this.resolve(ability) !== undefined;
+  }
+
+  /**
+   * Determine if the authenticated user may perform an ability
+   */
+  allows(ability: string, ...args: unknown[]): Promise<boolean> {
+    return this.forUser(Auth.user()).allows(ability, ...args);
+  }
+
+  /**
+   * Determine if the authenticated user may not perform an ability
+   */
+  denies(ability: string, ...args: unknown[]): Promise<boolean> {
+    return this.forUser(Auth.user()).denies(ability, ...args);
+  }
+
+  /**
+   * Throw a FORBIDDEN error unless the authenticated user may perform an
+   * ability
+   */
+  authorize(ability: string, ...args: unknown[]): Promise<void> {
+    return this.forUser(Auth.user()).authorize(ability, ...args);
+  }
+
+  /**
+   * Get the checks of the gate for another user
+   */
+  forUser(user: AuthUser | null): UserGate {
+    return {
+      allows: (ability, ...args) => this.check(user, ability, args),
+      denies: async (ability, ...args) =>
+        !(await this.check(user, ability, args)),
+      authorize: async (ability, ...args) => {
+        if (!(await this.check(user, ability, args))) {
+          throw ForbiddenError.create('This action is unauthorized', {
+            ability,
+          });
+        }
+      },
+    };
+  }
+
+  private async check(
+    user: AuthUser | null,
+    ability: string,
+    args: unknown[],
+  ): Promise<boolean> {
+    if (!user) {
+      return false;
+    }
+
+    for (const before of this._before) {
+      const result = await before(user, ability, ...args);
+      if (typeof result === 'boolean') {
+        return result;
+      }
+    }
+
+    const callback = this.resolve(ability);
+    return callback ? (await callback(user, ...args)) === true : false;
+  }
+
+  /**
+   * Get the callback of an ability: a defined one, or the method of a
+   * policy preceded by the `before` of the policy
+   */
+  private resolve(ability: string): AbilityCallback | undefined {
+    const defined = this._abilities.get(ability);
+    if (defined) {
+      return defined;
+    }
+
+    const separator = ability.lastIndexOf('.');
+    const model = ability.slice(0, separator);
+    const method = ability.slice(separator + 1);
+    if (separator === -1 || method === 'before' || !this._policies.has(model)) {
+      return undefined;
+    }
+
+    const policy = this.policyOf(model) as Record<string, unknown>;
+    const check = policy[method];
+    const before = policy.before;
+    if (typeof check !== 'function') {
+      return undefined;
+    }
+
+    return async (user, ...args) => {
+      if (typeof before === 'function') {
+        const result = await before.call(policy, user, ability, ...args);
+        if (typeof result === 'boolean') {
+          return result;
+        }
+      }
+      return check.call(policy, user, ...args);
+    };
+  }
+
+  private policyOf(model: string): object {
+    let policy = this._resolvedPolicies.get(model);
+    if (!policy) {
+      policy = this._app.make(this._policies.get(model) as PolicyClass);
+      this._resolvedPolicies.set(model, policy);
+    }
+    return policy;
+  }
+}
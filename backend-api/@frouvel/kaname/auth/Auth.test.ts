@@ -0,0 +1,199 @@
+/**
+ * Auth Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import jwt from '@fastify/jwt';
+import { Application } from '../foundation/Application';
+import { AuthServiceProvider } from '../foundation/providers/AuthServiceProvider';
+import { MiddlewarePipeline } from '../http/middleware/MiddlewarePipeline';
+import { middleware } from '../http/middleware/routeMiddleware';
+import { Context } from '../context/Context';
+import { Auth } from './Auth';
+import type { JwtGuard } from './JwtGuard';
+
+describe('Auth', () => {
+  let app: Application;
+  let fastify: FastifyInstance;
+
+  const get = (url: string, token?: string) =>
+    fastify.inject({
+      method: 'GET',
+      url,
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+
+  const sign = (guard: string, user: { id: string; scope?: string[] }) =>
+    (app.make('auth').guard(guard) as JwtGuard).sign(user);
+
+  beforeEach(async () => {
+    app = new Application('/tmp');
+    app.instance('config', {
+      jwt: {
+        expiresIn: 3600,
+        issuer: 'kaname',
+        audience: 'kaname-api',
+        scope: { admin: ['admin'], user: { default: ['user'] } },
+      },
+      auth: {
+        defaults: { guard: 'user' },
+        guards: {
+          user: { driver: 'jwt', scope: 'user.default' },
+          admin: { driver: 'jwt', scope: 'admin', expiresIn: 86400 },
+          missing: { driver: 'jwt', scope: 'editor' },
+        },
+      },
+    });
+    app.register(AuthServiceProvider);
+    app.singleton('middleware', MiddlewarePipeline);
+
+    fastify = Fastify();
+    await fastify.register(jwt, { secret: 'test_secret' });
+    app.setFastifyInstance(fastify);
+
+    fastify.addHook('onRequest', (request, _reply, done) => {
+      request.container = app.createScope();
+      Context.run({ requestId: request.id }, done);
+    });
+
+    const me = async () => ({
+      id: Auth.id(),
+      check: Auth.check(),
+      via: Auth.via(),
+      scope: Auth.user()?.scope,
+    });
+    fastify.get('/me', { onRequest: middleware('auth') }, me);
+    fastify.get('/admin', { onRequest: middleware('auth:admin') }, me);
+    fastify.get('/any', { onRequest: middleware('auth:user,admin') }, me);
+    fastify.get('/public', me);
+    fastify.get('/context', { onRequest: middleware('auth') }, async () =>
+      Context.all(),
+    );
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it('should authenticate with the default guard', async () => {
+    const response = await get('/me', sign('user', { id: '42' }));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      id: '42',
+      check: true,
+      via: 'user',
+      scope: ['user'],
+    });
+  });
+
+  it('should keep the user out of the logged context', async () => {
+    const response = await get('/context', sign('user', { id: '42' }));
+
+    expect(response.statusCode).toBe(200);
+    expect(Object.keys(response.json())).toEqual(['requestId']);
+  });
+
+  it('should not be authenticated outside of the auth middleware', async () => {
+    const response = await get('/public', sign('user', { id: '42' }));
+
+    expect(response.json()).toEqual({ id: null, check: false, via: null });
+    expect(Auth.user()).toBeNull();
+  });
+
+  it('should ask for a token when none is sent', async () => {
+    const response = await get('/me');
+
+    expect(response.statusCode).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(response.json()).toMatchObject({
+      code: 'UNAUTHORIZED',
+      instance: '/me',
+    });
+  });
+
+  it('should reject tokens of another issuer or audience', async () => {
+    const foreign = fastify.jwt.sign(
+      { scope: ['user'] },
+      { sub: '42', iss: 'someone-else', aud: 'kaname-api' },
+    );
+
+    const response = await get('/me', foreign);
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('INVALID_TOKEN');
+    expect(response.headers['www-authenticate']).toContain(
+      'error="invalid_token"',
+    );
+  });
+
+  it('should reject tampered tokens', async () => {
+    const [header, , signature] = sign('user', { id: '42' }).split('.');
+    const payload = Buffer.from(
+      JSON.stringify({ sub: '1', scope: ['admin'] }),
+    ).toString('base64url');
+
+    const response = await get('/admin', `${header}.${payload}.${signature}`);
+
+    expect(response.json().code).toBe('INVALID_TOKEN');
+  });
+
+  it('should reject tokens older than the configured expiry', async () => {
+    const stale = fastify.jwt.sign(
+      { scope: ['user'] },
+      {
+        sub: '42',
+        iss: 'kaname',
+        aud: 'kaname-api',
+        expiresIn: 86400,
+        clockTimestamp: Date.now() - 7200 * 1000,
+      },
+    );
+
+    const response = await get('/me', stale);
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('TOKEN_EXPIRED');
+  });
+
+  it('should require the scope of the guard', async () => {
+    const response = await get('/admin', sign('user', { id: '42' }));
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({
+      code: 'INSUFFICIENT_PERMISSIONS',
+      requiredScopes: ['admin'],
+    });
+    expect(response.headers['www-authenticate']).toContain(
+      'error="insufficient_scope"',
+    );
+  });
+
+  it('should accept any of the given guards', async () => {
+    const response = await get('/any', sign('admin', { id: '1' }));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ id: '1', via: 'admin' });
+  });
+
+  it('should let guards override the expiry of config/jwt.ts', () => {
+    const guard = (name: string) => app.make('auth').guard(name) as JwtGuard;
+
+    expect(guard('user').expiresIn()).toBe(3600);
+    expect(guard('admin').expiresIn()).toBe(86400);
+  });
+
+  it('should fail for guards and scopes missing from the config', () => {
+    const auth = app.make('auth');
+
+    expect(() => auth.guard('nope')).toThrow(
+      'Auth guard [nope] is not defined in config/auth.ts.',
+    );
+    expect(() => auth.guard('missing')).toThrow(
+      'Scope [editor] of guard [missing] is not defined in config/jwt.ts.',
+    );
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Auth Facade
+ *
+ * The user authenticated by the `auth` middleware, from controllers and
+ * services handling the request. Inspired by Laravel's Auth facade.
+ *
+ * @example
+ * // api/me/controller.ts, behind middleware('auth:user')
+ * get: () => ApiResponse.success({ id: Auth.id(), email: Auth.user()?.email })
+ *
+ * Auth.check(); // false outside of authenticated requests
+ */
+
+import { Application } from '../foundation/Application';
+import { Context } from '../context/Context';
+import { AUTH_CONTEXT_KEY, type AuthState } from './AuthManager';
+import type { AuthUser, Guard } from './types';
+
+const state = (): AuthState | undefined =>
+  Context.getHidden<AuthState>(AUTH_CONTEXT_KEY);
+
+export const Auth = {
+  /**
+   * Get the authenticated user
+   */
+  user: (): AuthUser | null => state()?.user ?? null,
+
+  /**
+   * Get the id of the authenticated user
+   */
+  id: (): string | null => state()?.user.id ?? null,
+
+  /**
+   * Determine if the request is authenticated
+   */
+  check: (): boolean => state() !== undefined,
+
+  /**
+   * Determine if the request is not authenticated
+   */
+  guest: (): boolean => state() === undefined,
+
+  /**
+   * Get the name of the guard that authenticated the request
+   */
+  via: (): string | null => state()?.guard ?? null,
+
+  /**
+   * Get a guard of config/auth.ts, e.g. to issue tokens
+   */
+  guard: (name?: string): Guard =>
+    Application.getInstance().make('auth').guard(name),
+};
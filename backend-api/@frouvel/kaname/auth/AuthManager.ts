@@ -0,0 +1,214 @@
+/**
+ * Auth Manager
+ *
+ * Creates the guards of config/auth.ts and authenticates requests with
+ * them. Inspired by Laravel's Illuminate\Auth\AuthManager.
+ *
+ * The authenticated user is kept on the request (`request.user`) and in
+ * the request context, where the Auth facade reads it.
+ *
+ * Token guards issue an access token with a refresh token, exchanged for
+ * new tokens once the access token expired (see RefreshTokenRepository).
+ *
+ * @example
+ * // On login
+ * const tokens = await app.make('auth').issueTokens('admin', admin);
+ *
+ * // A custom driver, used by guards with `driver: 'apiKey'`
+ * app.make('auth').extend('apiKey', (app, name) => new ApiKeyGuard(name));
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { Application } from '../foundation/Application';
+import { Context } from '../context/Context';
+import { createJwtGuard, JwtGuard } from './JwtGuard';
+import type {
+  AuthTokens,
+  AuthUser,
+  Guard,
+  GuardConfig,
+  GuardFactory,
+} from './types';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    auth: AuthManager;
+  }
+}
+
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    user: AuthUser;
+  }
+}
+
+/**
+ * The parts of config/auth.ts read by the manager
+ */
+interface AuthConfig {
+  defaults?: { guard?: string };
+  guards?: Record<string, GuardConfig>;
+}
+
+/**
+ * What the request context keeps about the authenticated user, as a
+ * hidden value so the user stays out of the logs
+ */
+export interface AuthState {
+  guard: string;
+  user: AuthUser;
+}
+
+export const AUTH_CONTEXT_KEY = 'auth';
+
+const DEFAULT_GUARD = 'user';
+
+export class AuthManager {
+  static readonly inject = ['app'] as const;
+
+  private readonly _guards: Map<string, Guard> = new Map();
+  private readonly _drivers: Map<string, GuardFactory> = new Map([
+    ['jwt', createJwtGuard],
+  ]);
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Get a guard, the default one of config/auth.ts when no name is given
+   */
+  guard(name: string = this.defaultGuard()): Guard {
+    let guard = this._guards.get(name);
+
+    if (!guard) {
+      const config = this.config().guards?.[name];
+      if (!config) {
+        throw new Error(
+          `Auth guard [${name}] is not defined in config/auth.ts.`,
+        );
+      }
+
+      const driver = this._drivers.get(config.driver);
+      if (!driver) {
+        throw new Error(
+          `Auth driver [${config.driver}] of guard [${name}] is not supported.`,
+        );
+      }
+
+      guard = driver(this._app, name, config);
+      this._guards.set(name, guard);
+    }
+
+    return guard;
+  }
+
+  /**
+   * Register a guard driver
+   */
+  extend(driver: string, factory: GuardFactory): this {
+    this._drivers.set(driver, factory);
+    this._guards.clear();
+    return this;
+  }
+
+  /**
+   * Get the name of the default guard
+   */
+  defaultGuard(): string {
+    return this.config().defaults?.guard ?? DEFAULT_GUARD;
+  }
+
+  /**
+   * Authenticate a request with the first of the guards accepting it
+   *
+   * Throws the error of the first guard when none accepts the request.
+   */
+  async authenticate(
+    request: FastifyRequest,
+    guards: string[] = [],
+  ): Promise<AuthUser> {
+    const names = guards.length > 0 ? guards : [this.defaultGuard()];
+    let failure: unknown;
+
+    for (const name of names) {
+      try {
+        const user = await this.guard(name).authenticate(request);
+        this.setUser(request, name, user);
+        return user;
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+
+    throw failure;
+  }
+
+  /**
+   * Issue an access token and a refresh token for a user of a guard
+   */
+  async issueTokens(
+    guard: string,
+    user: { id: string; email?: string; scope?: string[] },
+  ): Promise<AuthTokens> {
+    const refreshToken = await this._app
+      .make('refreshTokens')
+      .issue(guard, { ...user, scope: user.scope ?? this.scopes(guard) });
+
+    return this.tokens(guard, user, refreshToken);
+  }
+
+  /**
+   * Exchange a refresh token for new tokens
+   *
+   * The refresh token is rotated: it cannot be used again.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const { token, record } = await this._app
+      .make('refreshTokens')
+      .rotate(refreshToken);
+
+    return this.tokens(
+      record.guard,
+      {
+        id: record.userId,
+        email: record.email ?? undefined,
+        scope: record.scope,
+      },
+      token,
+    );
+  }
+
+  private tokens(
+    name: string,
+    user: { id: string; email?: string; scope?: string[] },
+    refreshToken: string,
+  ): AuthTokens {
+    const guard = this.guard(name);
+    if (!(guard instanceof JwtGuard)) {
+      throw new Error(`Auth guard [${name}] does not issue tokens.`);
+    }
+
+    return {
+      tokenType: 'Bearer',
+      accessToken: guard.sign(user),
+      expiresIn: guard.expiresIn(),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Get the scopes given to the tokens of a guard
+   */
+  private scopes(name: string): string[] {
+    const guard = this.guard(name);
+    return guard instanceof JwtGuard ? guard.scopes() : [];
+  }
+
+  private setUser(request: FastifyRequest, guard: string, user: AuthUser) {
+    request.user = user;
+    Context.addHidden(AUTH_CONTEXT_KEY, { guard, user } satisfies AuthState);
+  }
+
+  private config(): AuthConfig {
+    return this._app.has('config') ? (this._app.make('config').auth ?? {}) : {};
+  }
+}
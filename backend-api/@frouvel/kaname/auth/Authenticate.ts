@@ -0,0 +1,62 @@
+/**
+ * Authenticate Middleware
+ *
+ * Authenticates the request with the guards of config/auth.ts, registered
+ * as `auth`: `auth` uses the default guard, `auth:admin` the admin guard,
+ * `auth:user,admin` accepts either.
+ *
+ * Rejected requests get a 401 (UNAUTHORIZED, INVALID_TOKEN,
+ * TOKEN_EXPIRED) or 403 (INSUFFICIENT_PERMISSIONS) problem response with a
+ * `WWW-Authenticate` challenge.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type {
+  Middleware,
+  MiddlewareResponse,
+} from '../http/middleware/Middleware';
+import { AbstractFrourioFrameworkError } from '../error/FrourioFrameworkError';
+import type { AuthManager } from './AuthManager';
+
+/**
+ * `error` values of RFC 6750 for the problems of the guards
+ */
+const CHALLENGE_ERRORS: Record<string, string> = {
+  INVALID_TOKEN: 'invalid_token',
+  TOKEN_EXPIRED: 'invalid_token',
+  INSUFFICIENT_PERMISSIONS: 'insufficient_scope',
+};
+
+export class Authenticate implements Middleware {
+  static readonly inject = ['auth'] as const;
+
+  constructor(private readonly _auth: AuthManager) {}
+
+  async handle(
+    request: FastifyRequest,
+    _reply: FastifyReply,
+    ...guards: string[]
+  ): Promise<MiddlewareResponse | void> {
+    try {
+      await this._auth.authenticate(request, guards);
+    } catch (error) {
+      if (!(error instanceof AbstractFrourioFrameworkError)) {
+        throw error;
+      }
+
+      return {
+        status: error.httpStatusCode,
+        headers: { 'WWW-Authenticate': challenge(error) },
+        body: { ...error.toProblemDetails(), instance: request.url },
+      };
+    }
+  }
+}
+
+function challenge(error: AbstractFrourioFrameworkError): string {
+  const code = CHALLENGE_ERRORS[error.code];
+
+  return code
+    ? `Bearer error="${code}", error_description="${error.message}"`
+    : 'Bearer';
+}
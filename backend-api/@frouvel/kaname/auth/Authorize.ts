@@ -0,0 +1,49 @@
+/**
+ * Authorize Middleware
+ *
+ * Checks an ability of the gate for the authenticated user, registered as
+ * `can`: `can:user.update` checks the `update` method of the `user` policy
+ * with the route parameters (`{ id }` for `api/users/_id@string`). Place it
+ * after `auth`; guests are denied.
+ *
+ * Denied requests get a 403 FORBIDDEN problem response.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type {
+  Middleware,
+  MiddlewareResponse,
+} from '../http/middleware/Middleware';
+import { ForbiddenError } from '../error/CommonErrors';
+import type { AccessGate } from './AccessGate';
+
+export class Authorize implements Middleware {
+  static readonly inject = ['gate'] as const;
+
+  constructor(private readonly _gate: AccessGate) {}
+
+  async handle(
+    request: FastifyRequest,
+    _reply: FastifyReply,
+    ability?: string,
+  ): Promise<MiddlewareResponse | void> {
+    if (!ability) {
+      throw new Error(
+        'The can middleware requires an ability, e.g. can:user.update.',
+      );
+    }
+
+    try {
+      await this._gate.authorize(ability, request.params);
+    } catch (error) {
+      if (!(error instanceof ForbiddenError)) {
+        throw error;
+      }
+
+      return {
+        status: error.httpStatusCode,
+        body: { ...error.toProblemDetails(), instance: request.url },
+      };
+    }
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Gate Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import jwt from '@fastify/jwt';
+import { Application } from '../foundation/Application';
+import { AuthServiceProvider } from '../foundation/providers/AuthServiceProvider';
+import { MiddlewarePipeline } from '../http/middleware/MiddlewarePipeline';
+import { middleware } from '../http/middleware/routeMiddleware';
+import { Context } from '../context/Context';
+import { ForbiddenError } from '../error/CommonErrors';
+import type { AccessGate } from './AccessGate';
+import { Gate } from './Gate';
+import type { JwtGuard } from './JwtGuard';
+import type { AuthUser } from './types';
+
+const user = (id: string, scope: string[] = ['user']): AuthUser => ({
+  id,
+  scope,
+  claims: {},
+});
+
+class PostPolicy {
+  static readonly inject = ['config'] as const;
+
+  constructor(private readonly _config: { posts: { locked: string[] } }) {}
+
+  before(_actor: AuthUser, _ability: string, post: { id: string }) {
+    return this._config.posts.locked.includes(post.id) ? false : undefined;
+  }
+
+  update(actor: AuthUser, post: { id: string; authorId: string }) {
+    return actor.id === post.authorId;
+  }
+}
+
+describe('Gate', () => {
+  let app: Application;
+  let gate: AccessGate;
+
+  beforeEach(() => {
+    app = new Application('/tmp');
+    app.instance('config', { posts: { locked: ['9'] } });
+    app.register(AuthServiceProvider);
+    gate = app.make('gate');
+  });
+
+  it('should check defined abilities', async () => {
+    gate.define('reports.view', (actor) => actor.scope.includes('analyst'));
+
+    expect(
+      await gate.forUser(user('1', ['analyst'])).allows('reports.view'),
+    ).toBe(true);
+    expect(await gate.forUser(user('2')).denies('reports.view')).toBe(true);
+  });
+
+  it('should deny guests and undefined abilities', async () => {
+    gate.define('reports.view', () => true);
+
+    expect(await gate.forUser(null).allows('reports.view')).toBe(false);
+    expect(await gate.forUser(user('1')).allows('reports.export')).toBe(false);
+    expect(gate.has('reports.view')).toBe(true);
+    expect(gate.has('reports.export')).toBe(false);
+  });
+
+  it('should check the methods of policies', async () => {
+    gate.policy('post', PostPolicy);
+    const post = { id: '1', authorId: '42' };
+
+    expect(await gate.forUser(user('42')).allows('post.update', post)).toBe(
+      true,
+    );
+    expect(await gate.forUser(user('7')).allows('post.update', post)).toBe(
+      false,
+    );
+    expect(gate.has('post.update')).toBe(true);
+    expect(gate.has('post.delete')).toBe(false);
+    expect(gate.has('post.before')).toBe(false);
+  });
+
+  it('should let the before of a policy decide first', async () => {
+    gate.policy('post', PostPolicy);
+
+    expect(
+      await gate
+        .forUser(user('42'))
+        .allows('post.update', { id: '9', authorId: '42' }),
+    ).toBe(false);
+  });
+
+  it('should let before callbacks decide ahead of every ability', async () => {
+    const asked: string[] = [];
+    gate
+      .before((actor, ability) => {
+        asked.push(ability);
+        return actor.scope.includes('admin') ? true : undefined;
+      })
+      .policy('post', PostPolicy);
+
+    const post = { id: '9', authorId: '42' };
+
+    expect(
+      await gate.forUser(user('1', ['admin'])).allows('post.update', post),
+    ).toBe(true);
+    expect(await gate.forUser(user('1', ['admin'])).allows('anything')).toBe(
+      true,
+    );
+    expect(await gate.forUser(user('42')).allows('post.update', post)).toBe(
+      false,
+    );
+    expect(asked).toEqual(['post.update', 'anything', 'post.update']);
+  });
+
+  it('should throw a forbidden error when not authorized', async () => {
+    gate.policy('post', PostPolicy);
+    const post = { id: '1', authorId: '42' };
+
+    await expect(
+      gate.forUser(user('42')).authorize('post.update', post),
+    ).resolves.toBeUndefined();
+
+    const denied = gate.forUser(user('7')).authorize('post.update', post);
+    await expect(denied).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(denied).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'This action is unauthorized',
+      details: { ability: 'post.update' },
+    });
+  });
+
+  describe('routes', () => {
+    let fastify: FastifyInstance;
+
+    const send = (method: 'PATCH' | 'DELETE', url: string, token: string) =>
+      fastify.inject({
+        method,
+        url,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+    const sign = (id: string, scope: string[]) =>
+      (app.make('auth').guard('user') as JwtGuard).sign({ id, scope });
+
+    beforeEach(async () => {
+      app.instance('config', {
+        jwt: { scope: { user: ['user'] } },
+        auth: {
+          defaults: { guard: 'user' },
+          guards: { user: { driver: 'jwt' } },
+        },
+      });
+      app.singleton('middleware', MiddlewarePipeline);
+      gate
+        .before((actor) => (actor.scope.includes('admin') ? true : undefined))
+        .define(
+          'user.update',
+          (actor, params: { id: string }) => actor.id === params.id,
+        );
+
+      fastify = Fastify();
+      await fastify.register(jwt, { secret: 'test_secret' });
+      app.setFastifyInstance(fastify);
+
+      fastify.addHook('onRequest', (request, _reply, done) => {
+        request.container = app.createScope();
+        Context.run({ requestId: request.id }, done);
+      });
+
+      fastify.patch(
+        '/users/:id',
+        { onRequest: middleware('auth', 'can:user.update') },
+        async () => ({ updated: true }),
+      );
+      fastify.delete(
+        '/users/:id',
+        { onRequest: middleware('auth') },
+        async (request) => ({
+          allowed: await Gate.allows(
+            'user.update',
+            request.params as { id: string },
+          ),
+        }),
+      );
+      await fastify.ready();
+    });
+
+    afterEach(async () => {
+      await fastify.close();
+    });
+
+    it('should authorize routes with the can middleware', async () => {
+      const own = await send('PATCH', '/users/42', sign('42', ['user']));
+      const admin = await send('PATCH', '/users/42', sign('1', ['admin']));
+      const other = await send('PATCH', '/users/42', sign('7', ['user']));
+
+      expect(own.statusCode).toBe(200);
+      expect(admin.statusCode).toBe(200);
+      expect(other.statusCode).toBe(403);
+      expect(other.json()).toMatchObject({
+        code: 'FORBIDDEN',
+        ability: 'user.update',
+        instance: '/users/42',
+      });
+    });
+
+    it('should check abilities for the authenticated user', async () => {
+      const own = await send('DELETE', '/users/42', sign('42', ['user']));
+      const other = await send('DELETE', '/users/42', sign('7', ['user']));
+
+      expect(own.json()).toEqual({ allowed: true });
+      expect(other.json()).toEqual({ allowed: false });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Gate Facade
+ *
+ * Authorization checks of the `gate` of the running application, from
+ * controllers and services handling the request. Inspired by Laravel's
+ * Gate facade.
+ *
+ * @example
+ * // api/users/_id@string/controller.ts
+ * delete: async ({ params }) => {
+ *   await Gate.authorize('user.delete', { id: params.id });
+ *   ...
+ * }
+ *
+ * if (await Gate.denies('reports.view')) { ... }
+ */
+
+import { Application } from '../foundation/Application';
+import type { AccessGate, UserGate } from './AccessGate';
+import type {
+  AbilityCallback,
+  AuthUser,
+  BeforeCallback,
+  PolicyClass,
+} from './types';
+
+const gate = (): AccessGate => Application.getInstance().make('gate');
+
+export const Gate = {
+  /**
+   * Define an ability
+   */
+  define: (ability: string, callback: AbilityCallback): AccessGate =>
+    gate().define(ability, callback),
+
+  /**
+   * Register the policy of a model
+   */
+  policy: (model: string, policy: PolicyClass): AccessGate =>
+    gate().policy(model, policy),
+
+  /**
+   * Register a callback deciding ahead of every ability
+   */
+  before: (callback: BeforeCallback): AccessGate => gate().before(callback),
+
+  /**
+   * Determine if the authenticated user may perform an ability
+   */
+  allows: (ability: string, ...args: unknown[]): Promise<boolean> =>
+    gate().allows(ability, ...args),
+
+  /**
+   * Determine if the authenticated user may not perform an ability
+   */
+  denies: (ability: string, ...args: unknown[]): Promise<boolean> =>
+    gate().denies(ability, ...args),
+
+  /**
+   * Throw a FORBIDDEN error unless the authenticated user may perform an
+   * ability
+   */
+  authorize: (ability: string, ...args: unknown[]): Promise<void> =>
+    gate().authorize(ability, ...args),
+
+  /**
+   * Get the checks of the gate for another user
+   */
+  forUser: (user: AuthUser | null): UserGate => gate().forUser(user),
+};
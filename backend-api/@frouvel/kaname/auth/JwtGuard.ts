@@ -0,0 +1,208 @@
+/**
+ * JWT Guard
+ *
+ * Authenticates requests with the bearer token of the `Authorization`
+ * header. Tokens must be signed with the secret of the JWT plugin, issued
+ * by the issuer for the audience of config/jwt.ts, younger than its
+ * `expiresIn` and, when the guard has a scope, carry one of its scopes.
+ *
+ * @example
+ * const guard = app.make('auth').guard('admin') as JwtGuard;
+ * const token = guard.sign({ id: admin.id, email: admin.email });
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { Application } from '../foundation/Application';
+import {
+  InsufficientPermissionsError,
+  InvalidTokenError,
+  TokenExpiredError,
+  UnauthorizedError,
+} from '../error/CommonErrors';
+import { Log } from '../log/Log';
+import type { AuthUser, Guard, GuardConfig } from './types';
+
+export interface JwtGuardOptions {
+  issuer?: string;
+  audience?: string;
+  /**
+   * Seconds a token is valid for after being issued
+   */
+  expiresIn?: number;
+  /**
+   * Scopes the token must carry one of; any valid token passes when empty
+   */
+  scopes?: string[];
+}
+
+/**
+ * Claims of the tokens issued by the guard
+ */
+interface JwtPayload {
+  sub?: string;
+  id?: string;
+  email?: string;
+  scope?: string[] | string;
+  [claim: string]: unknown;
+}
+
+/**
+ * The parts of config/jwt.ts read by the guard
+ */
+interface JwtConfig {
+  issuer?: string;
+  audience?: string;
+  expiresIn?: number;
+  scope?: Record<string, unknown>;
+}
+
+export class JwtGuard implements Guard {
+  constructor(
+    private readonly _app: Application,
+    readonly name: string,
+    private readonly _options: JwtGuardOptions = {},
+  ) {}
+
+  async authenticate(request: FastifyRequest): Promise<AuthUser> {
+    const user = toUser(await this.verify(request));
+    const required = this._options.scopes ?? [];
+
+    if (
+      required.length > 0 &&
+      !required.some((scope) => user.scope.includes(scope))
+    ) {
+      throw new InsufficientPermissionsError({
+        message: `Required scope: ${required.join(', ')}`,
+        details: { requiredScopes: required },
+      });
+    }
+
+    return user;
+  }
+
+  /**
+   * Issue a token accepted by the guard
+   *
+   * The token carries the scopes of the guard unless given others.
+   */
+  sign(
+    user: { id: string; email?: string; scope?: string[] },
+    claims: Record<string, unknown> = {},
+  ): string {
+    const { issuer, audience, expiresIn, scopes } = this._options;
+
+    return this._app.make('fastify').jwt.sign(
+      { ...claims, email: user.email, scope: user.scope ?? scopes ?? [] },
+      {
+        sub: user.id,
+        ...(issuer && { iss: issuer }),
+        ...(audience && { aud: audience }),
+        ...(expiresIn && { expiresIn }),
+      },
+    );
+  }
+
+  /**
+   * Get the scopes the tokens of the guard carry
+   */
+  scopes(): string[] {
+    return this._options.scopes ?? [];
+  }
+
+  /**
+   * Seconds the tokens of the guard are valid for
+   */
+  expiresIn(): number | null {
+    return this._options.expiresIn ?? null;
+  }
+
+  private async verify(request: FastifyRequest): Promise<JwtPayload> {
+    const { issuer, audience, expiresIn } = this._options;
+
+    try {
+      return await request.jwtVerify<JwtPayload>({
+        ...(issuer && { allowedIss: issuer }),
+        ...(audience && { allowedAud: audience }),
+        ...(expiresIn && { maxAge: expiresIn }),
+      });
+    } catch (error) {
+      Log.debug('JWT verification failed', { guard: this.name, error });
+      throw tokenError(error);
+    }
+  }
+}
+
+/**
+ * Create a JWT guard of config/auth.ts, with the settings of config/jwt.ts
+ *
+ * The guard may shorten or extend the expiry of config/jwt.ts with its own
+ * `expiresIn`, e.g. the `tokenExpiration` of config/admin.ts.
+ */
+export function createJwtGuard(
+  app: Application,
+  name: string,
+  config: GuardConfig,
+): JwtGuard {
+  const jwt: JwtConfig = app.has('config')
+    ? (app.make('config').jwt ?? {})
+    : {};
+
+  return new JwtGuard(app, name, {
+    issuer: jwt.issuer,
+    audience: jwt.audience,
+    expiresIn: config.expiresIn ?? jwt.expiresIn,
+    scopes: config.scope ? scopesOf(jwt, name, config.scope) : [],
+  });
+}
+
+/**
+ * Get the scopes of config/jwt.ts at a key, e.g. `user.default`
+ */
+function scopesOf(jwt: JwtConfig, guard: string, key: string): string[] {
+  const scopes = key
+    .split('.')
+    .reduce<unknown>(
+      (value, segment) =>
+        (value as Record<string, unknown> | undefined)?.[segment],
+      jwt.scope,
+    );
+
+  if (!Array.isArray(scopes)) {
+    throw new Error(
+      `Scope [${key}] of guard [${guard}] is not defined in config/jwt.ts.`,
+    );
+  }
+
+  return scopes.map(String);
+}
+
+function toUser(payload: JwtPayload): AuthUser {
+  const id = payload.sub ?? payload.id;
+  if (id === undefined) {
+    throw InvalidTokenError.create('The access token has no subject');
+  }
+
+  return {
+    id: String(id),
+    email: payload.email,
+    scope:
+      typeof payload.scope === 'string'
+        ? payload.scope.split(' ')
+        : (payload.scope ?? []),
+    claims: payload,
+  };
+}
+
+/**
+ * Convert an error of the JWT plugin to the problem sent to the client
+ */
+function tokenError(error: unknown): Error {
+  switch ((error as { code?: string }).code) {
+    case 'FST_JWT_NO_AUTHORIZATION_IN_HEADER':
+      return UnauthorizedError.create('Missing access token');
+    case 'FST_JWT_AUTHORIZATION_TOKEN_EXPIRED':
+      return TokenExpiredError.create('The access token has expired');
+    default:
+      return InvalidTokenError.create('The access token is invalid');
+  }
+}
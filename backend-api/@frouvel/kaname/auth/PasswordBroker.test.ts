@@ -0,0 +1,165 @@
+/**
+ * Password Broker Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Application } from '../foundation/Application';
+import { AuthServiceProvider } from '../foundation/providers/AuthServiceProvider';
+import { MailServiceProvider } from '../foundation/providers/MailServiceProvider';
+import type { MemoryMailer } from '../mail/mailers/MemoryMailer';
+import type {
+  PasswordBroker,
+  PasswordResetTokenDelegate,
+  PasswordResetTokenRecord,
+} from './PasswordBroker';
+
+/**
+ * In-memory stand-in for the generated `prisma.passwordResetToken` delegate
+ */
+function fakePasswordResetTokenTable() {
+  const rows: Array<PasswordResetTokenRecord & { tokenHash: string }> = [];
+
+  const matches = (row: object, where: object) =>
+    Object.entries(where).every(([key, value]) =>
+      key === 'expiresAt'
+        ? (row as PasswordResetTokenRecord).expiresAt < value.lt
+        : row[key as keyof typeof row] === value,
+    );
+
+  const passwordResetToken: PasswordResetTokenDelegate = {
+    create: async ({ data }) => {
+      const row = { ...data, id: String(rows.length + 1), usedAt: null };
+      rows.push(row);
+      return row;
+    },
+    findUnique: async ({ where }) =>
+      rows.find((row) => row.tokenHash === where.tokenHash) ?? null,
+    updateMany: async ({ where, data }) => {
+      const matching = rows.filter((row) => matches(row, where));
+      matching.forEach((row) => (row.usedAt = data.usedAt));
+      return { count: matching.length };
+    },
+    deleteMany: async ({ where }) => {
+      const matching = rows.filter((row) => matches(row, where));
+      matching.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: matching.length };
+    },
+  };
+
+  return { rows, passwordResetToken };
+}
+
+describe('PasswordBroker', () => {
+  let app: Application;
+  let table: ReturnType<typeof fakePasswordResetTokenTable>;
+  let passwords: PasswordBroker;
+  let mails: MemoryMailer;
+
+  const tokenOf = (message: { text: string }) =>
+    /token=([\w-]+)/.exec(message.text)?.[1] ?? '';
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+
+    app = new Application('/tmp');
+    app.instance('config', {
+      auth: {
+        defaults: { guard: 'admin' },
+        guards: { admin: { driver: 'jwt' } },
+        passwords: {
+          admin: { expire: 3600, url: 'https://app.test/reset-password' },
+        },
+      },
+      mail: {
+        default: 'memory',
+        from: { address: 'noreply@example.com' },
+        mailers: { memory: { driver: 'memory' } },
+      },
+    });
+    table = fakePasswordResetTokenTable();
+    app.instance('prisma', { passwordResetToken: table.passwordResetToken });
+    app.register(AuthServiceProvider);
+    app.register(MailServiceProvider);
+
+    passwords = app.make('passwords');
+    mails = app.make('mail').fake();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should mail a reset link and store its token hashed', async () => {
+    await passwords.sendResetLink('admin', 'admin@example.com');
+
+    const [message] = mails.sentTo('admin@example.com');
+    expect(message.subject).toBe('Reset your password');
+    expect(message.text).toContain('https://app.test/reset-password?token=');
+    expect(message.text).toContain('within 60 minutes');
+
+    expect(table.rows).toHaveLength(1);
+    expect(table.rows[0]).toMatchObject({
+      guard: 'admin',
+      email: 'admin@example.com',
+      expiresAt: new Date('2025-01-01T01:00:00.000Z'),
+    });
+    expect(table.rows[0].tokenHash).not.toContain(tokenOf(message));
+  });
+
+  it('should redeem a token once', async () => {
+    await passwords.sendResetLink('admin', 'admin@example.com');
+    const token = tokenOf(mails.sent[0]);
+
+    expect(await passwords.redeem('admin', token)).toBe('admin@example.com');
+    await expect(passwords.redeem('admin', token)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+  });
+
+  it('should invalidate the previous token of an account', async () => {
+    const first = await passwords.createToken('admin', 'admin@example.com');
+    const second = await passwords.createToken('admin', 'admin@example.com');
+
+    await expect(passwords.redeem('admin', first)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+    expect(await passwords.redeem('admin', second)).toBe('admin@example.com');
+  });
+
+  it('should reject unknown, foreign and expired tokens', async () => {
+    const token = await passwords.createToken('admin', 'admin@example.com');
+
+    await expect(passwords.redeem('admin', 'unknown')).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+    await expect(passwords.redeem('user', token)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+
+    vi.advanceTimersByTime(3600 * 1000);
+
+    await expect(passwords.redeem('admin', token)).rejects.toMatchObject({
+      code: 'TOKEN_EXPIRED',
+      message: 'The password reset token has expired',
+    });
+  });
+
+  it('should prune expired tokens', async () => {
+    await passwords.createToken('admin', 'old@example.com');
+    vi.advanceTimersByTime(1800 * 1000);
+    await passwords.createToken('admin', 'new@example.com');
+    vi.advanceTimersByTime(2400 * 1000);
+
+    expect(await passwords.prune()).toBe(1);
+    expect(table.rows.map((row) => row.email)).toEqual(['new@example.com']);
+  });
+
+  it('should fail for guards without password resets', async () => {
+    await expect(
+      passwords.sendResetLink('user', 'jane@example.com'),
+    ).rejects.toThrow(
+      'Password resets of guard [user] are not defined in config/auth.ts.',
+    );
+  });
+});
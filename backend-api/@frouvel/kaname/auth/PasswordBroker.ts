@@ -0,0 +1,195 @@
+/**
+ * Password Broker
+ *
+ * Sends password reset links and redeems their tokens, for the accounts of
+ * a guard configured in the `passwords` of config/auth.ts. Tokens are
+ * random, single-use and expire after `expire` seconds; only their SHA-256
+ * hash is kept in the `PasswordResetToken` table. Requesting a new link
+ * invalidates the previous one.
+ *
+ * Finding the account and changing its password is up to the caller:
+ *
+ * @example
+ * // POST /admin/auth/password/forgot
+ * if (await findAdmin(email)) {
+ *   await passwords.sendResetLink('admin', email);
+ * }
+ *
+ * // POST /admin/auth/password/reset
+ * const email = await passwords.redeem('admin', token);
+ *
+ * Requires the model of prisma/schema.prisma:
+ *
+ *   model PasswordResetToken {
+ *     id        String    @id @default(uuid())
+ *     tokenHash String    @unique
+ *     guard     String
+ *     email     String
+ *     expiresAt DateTime
+ *     usedAt    DateTime?
+ *   }
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Application } from '../foundation/Application';
+import { InvalidTokenError, TokenExpiredError } from '../error/CommonErrors';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    passwords: PasswordBroker;
+  }
+}
+
+export interface PasswordResetTokenRecord {
+  id: string;
+  guard: string;
+  email: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+/**
+ * The parts of the generated `prisma.passwordResetToken` delegate the
+ * broker uses
+ */
+export interface PasswordResetTokenDelegate {
+  create(args: {
+    data: Omit<PasswordResetTokenRecord, 'id' | 'usedAt'> & {
+      tokenHash: string;
+    };
+  }): Promise<PasswordResetTokenRecord>;
+  findUnique(args: {
+    where: { tokenHash: string };
+  }): Promise<PasswordResetTokenRecord | null>;
+  updateMany(args: {
+    where: { id: string; usedAt: null };
+    data: { usedAt: Date };
+  }): Promise<{ count: number }>;
+  deleteMany(args: {
+    where: { guard: string; email: string } | { expiresAt: { lt: Date } };
+  }): Promise<{ count: number }>;
+}
+
+/**
+ * The parts of config/auth.ts read by the broker
+ */
+interface AuthConfig {
+  passwords?: Record<string, { expire: number; url: string }>;
+}
+
+export class PasswordBroker {
+  static readonly inject = ['app'] as const;
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Create a reset token for an account of a guard, replacing its previous
+   * one
+   */
+  async createToken(guard: string, email: string): Promise<string> {
+    const { expire } = this.config(guard);
+    const table = await this.table();
+    const token = randomBytes(32).toString('base64url');
+
+    await table.deleteMany({ where: { guard, email } });
+    await table.create({
+      data: {
+        tokenHash: hash(token),
+        guard,
+        email,
+        expiresAt: new Date(Date.now() + expire * 1000),
+      },
+    });
+
+    return token;
+  }
+
+  /**
+   * Mail a reset link to an account of a guard
+   */
+  async sendResetLink(guard: string, email: string): Promise<void> {
+    const { expire, url } = this.config(guard);
+    const link = new URL(url);
+    link.searchParams.set('token', await this.createToken(guard, email));
+
+    await this._app.make('mail').send({
+      to: email,
+      subject: 'Reset your password',
+      text: [
+        'We received a request to reset the password of your account.',
+        `Open the link below within ${Math.round(expire / 60)} minutes to choose a new password:`,
+        '',
+        link.toString(),
+        '',
+        'If you did not request a password reset, ignore this message.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Use a reset token of a guard, returning the email of its account
+   *
+   * Throws INVALID_TOKEN for unknown, used and other guards' tokens,
+   * TOKEN_EXPIRED for expired ones.
+   */
+  async redeem(guard: string, token: string): Promise<string> {
+    const table = await this.table();
+    const record = await table.findUnique({
+      where: { tokenHash: hash(token) },
+    });
+
+    if (!record || record.guard !== guard || record.usedAt) {
+      throw InvalidTokenError.create('The password reset token is invalid');
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw TokenExpiredError.create('The password reset token has expired');
+    }
+
+    // Of two requests using the token at once, only one resets the password
+    const { count } = await table.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw InvalidTokenError.create('The password reset token is invalid');
+    }
+
+    return record.email;
+  }
+
+  /**
+   * Delete the tokens expired before the given date
+   */
+  async prune(before: Date = new Date()): Promise<number> {
+    const { count } = await (
+      await this.table()
+    ).deleteMany({ where: { expiresAt: { lt: before } } });
+    return count;
+  }
+
+  private config(guard: string): { expire: number; url: string } {
+    const auth: AuthConfig = this._app.has('config')
+      ? (this._app.make('config').auth ?? {})
+      : {};
+    const config = auth.passwords?.[guard];
+
+    if (!config) {
+      throw new Error(
+        `Password resets of guard [${guard}] are not defined in config/auth.ts.`,
+      );
+    }
+
+    return config;
+  }
+
+  private async table(): Promise<PasswordResetTokenDelegate> {
+    const prisma: { passwordResetToken: PasswordResetTokenDelegate } =
+      await this._app.makeAsync('prisma');
+    return prisma.passwordResetToken;
+  }
+}
+
+function hash(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
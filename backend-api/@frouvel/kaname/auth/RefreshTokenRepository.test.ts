@@ -0,0 +1,211 @@
+/**
+ * Refresh Token Repository Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify from 'fastify';
+import jwt from '@fastify/jwt';
+import { Application } from '../foundation/Application';
+import { AuthServiceProvider } from '../foundation/providers/AuthServiceProvider';
+import type {
+  RefreshTokenDelegate,
+  RefreshTokenRecord,
+  RefreshTokenRepository,
+} from './RefreshTokenRepository';
+
+/**
+ * In-memory stand-in for the generated `prisma.refreshToken` delegate
+ */
+function fakeRefreshTokenTable() {
+  const rows: Array<RefreshTokenRecord & { tokenHash: string }> = [];
+
+  const refreshToken: RefreshTokenDelegate = {
+    create: async ({ data }) => {
+      const row = { ...data, id: String(rows.length + 1), revokedAt: null };
+      rows.push(row);
+      return row;
+    },
+    findUnique: async ({ where }) =>
+      rows.find((row) => row.tokenHash === where.tokenHash) ?? null,
+    updateMany: async ({ where, data }) => {
+      const matching = rows.filter((row) =>
+        Object.entries(where).every(
+          ([key, value]) => row[key as keyof typeof row] === value,
+        ),
+      );
+      matching.forEach((row) => (row.revokedAt = data.revokedAt));
+      return { count: matching.length };
+    },
+    deleteMany: async ({ where }) => {
+      const expired = rows.filter((row) => row.expiresAt < where.expiresAt.lt);
+      expired.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: expired.length };
+    },
+  };
+
+  return { rows, refreshToken };
+}
+
+describe('RefreshTokenRepository', () => {
+  let app: Application;
+  let table: ReturnType<typeof fakeRefreshTokenTable>;
+  let tokens: RefreshTokenRepository;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+
+    app = new Application('/tmp');
+    app.instance('config', {
+      jwt: {
+        expiresIn: 900,
+        refreshExpiresIn: 3600,
+        issuer: 'kaname',
+        audience: 'kaname-api',
+        scope: { admin: ['admin'] },
+      },
+      auth: {
+        defaults: { guard: 'admin' },
+        guards: { admin: { driver: 'jwt', scope: 'admin' } },
+      },
+    });
+    table = fakeRefreshTokenTable();
+    app.instance('prisma', { refreshToken: table.refreshToken });
+    app.register(AuthServiceProvider);
+
+    const fastify = Fastify();
+    await fastify.register(jwt, { secret: 'test_secret' });
+    app.setFastifyInstance(fastify);
+
+    tokens = app.make('refreshTokens');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await app.make('fastify').close();
+  });
+
+  it('should store refresh tokens hashed', async () => {
+    const token = await tokens.issue('admin', { id: '1', scope: ['admin'] });
+
+    expect(table.rows).toHaveLength(1);
+    expect(table.rows[0]).toMatchObject({
+      guard: 'admin',
+      userId: '1',
+      scope: ['admin'],
+      expiresAt: new Date('2025-01-01T01:00:00.000Z'),
+    });
+    expect(table.rows[0].tokenHash).not.toContain(token);
+  });
+
+  it('should issue an access token with a refresh token', async () => {
+    const auth = app.make('auth');
+    const issued = await auth.issueTokens('admin', {
+      id: '1',
+      email: 'admin@example.com',
+    });
+
+    expect(issued).toMatchObject({ tokenType: 'Bearer', expiresIn: 900 });
+    expect(app.make('fastify').jwt.decode(issued.accessToken)).toMatchObject({
+      sub: '1',
+      email: 'admin@example.com',
+      scope: ['admin'],
+      iss: 'kaname',
+      aud: 'kaname-api',
+    });
+
+    const refreshed = await auth.refresh(issued.refreshToken);
+
+    expect(refreshed.refreshToken).not.toBe(issued.refreshToken);
+    expect(app.make('fastify').jwt.decode(refreshed.accessToken)).toMatchObject(
+      { sub: '1', email: 'admin@example.com', scope: ['admin'] },
+    );
+  });
+
+  it('should rotate refresh tokens within their family', async () => {
+    const first = await tokens.issue('admin', { id: '1' });
+    const { token: second } = await tokens.rotate(first);
+
+    expect(second).not.toBe(first);
+    expect(table.rows[0].revokedAt).not.toBeNull();
+    expect(table.rows[1].revokedAt).toBeNull();
+    expect(table.rows[1].familyId).toBe(table.rows[0].familyId);
+  });
+
+  it('should keep the expiry of the family when rotating', async () => {
+    let token = await tokens.issue('admin', { id: '1' });
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(1000 * 1000);
+      ({ token } = await tokens.rotate(token));
+    }
+
+    expect(table.rows.map((row) => row.expiresAt.toISOString())).toEqual(
+      Array(4).fill('2025-01-01T01:00:00.000Z'),
+    );
+
+    vi.advanceTimersByTime(600 * 1000);
+    await expect(tokens.rotate(token)).rejects.toMatchObject({
+      code: 'TOKEN_EXPIRED',
+    });
+  });
+
+  it('should revoke the family when a rotated token is reused', async () => {
+    const first = await tokens.issue('admin', { id: '1' });
+    const { token: second } = await tokens.rotate(first);
+
+    await expect(tokens.rotate(first)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+      message: 'The refresh token has been revoked',
+    });
+    await expect(tokens.rotate(second)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+    expect(table.rows.every((row) => row.revokedAt !== null)).toBe(true);
+  });
+
+  it('should reject unknown and expired refresh tokens', async () => {
+    const token = await tokens.issue('admin', { id: '1' });
+    vi.advanceTimersByTime(3600 * 1000);
+
+    await expect(tokens.rotate('unknown')).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+    await expect(tokens.rotate(token)).rejects.toMatchObject({
+      code: 'TOKEN_EXPIRED',
+    });
+  });
+
+  it('should revoke a session or every session of a user', async () => {
+    const session = await tokens.issue('admin', { id: '1' });
+    await tokens.rotate(session);
+    await tokens.issue('admin', { id: '1' });
+    await tokens.issue('admin', { id: '2' });
+
+    expect(await tokens.revoke(session, { guard: 'admin', userId: '2' })).toBe(
+      false,
+    );
+    expect(await tokens.revoke(session, { guard: 'user', userId: '1' })).toBe(
+      false,
+    );
+    expect(table.rows.filter((row) => row.revokedAt === null)).toHaveLength(3);
+
+    expect(await tokens.revoke(session, { guard: 'admin', userId: '1' })).toBe(
+      true,
+    );
+    expect(await tokens.revoke('unknown')).toBe(false);
+    expect(table.rows.filter((row) => row.revokedAt === null)).toHaveLength(2);
+
+    expect(await tokens.revokeAll('admin', '1')).toBe(1);
+    expect(table.rows.filter((row) => row.revokedAt === null)).toHaveLength(1);
+  });
+
+  it('should prune expired refresh tokens', async () => {
+    await tokens.issue('admin', { id: '1' });
+    vi.advanceTimersByTime(1800 * 1000);
+    await tokens.issue('admin', { id: '2' });
+    vi.advanceTimersByTime(2400 * 1000);
+
+    expect(await tokens.prune()).toBe(1);
+    expect(table.rows.map((row) => row.userId)).toEqual(['2']);
+  });
+});
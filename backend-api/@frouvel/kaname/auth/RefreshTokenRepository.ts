@@ -0,0 +1,262 @@
+/**
+ * Refresh Token Repository
+ *
+ * Keeps the refresh tokens of the guards in the `RefreshToken` table, as
+ * SHA-256 hashes of the opaque tokens handed to clients. Tokens live for
+ * `refreshExpiresIn` of config/jwt.ts and are rotated on every use: the
+ * used token is revoked and a new one joins the same family (session).
+ * Rotated tokens keep the expiry of the family, so a session ends
+ * `refreshExpiresIn` after the login however often it is refreshed.
+ *
+ * Presenting a revoked token means it leaked, or a client kept an old
+ * one: the whole family is revoked, logging out whoever holds the latest
+ * token as well.
+ *
+ * Requires the model of prisma/schema.prisma:
+ *
+ *   model RefreshToken {
+ *     id        String    @id @default(uuid())
+ *     tokenHash String    @unique
+ *     familyId  String
+ *     guard     String
+ *     userId    String
+ *     email     String?
+ *     scope     String[]
+ *     expiresAt DateTime
+ *     revokedAt DateTime?
+ *   }
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { Application } from '../foundation/Application';
+import { InvalidTokenError, TokenExpiredError } from '../error/CommonErrors';
+import { Log } from '../log/Log';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    refreshTokens: RefreshTokenRepository;
+  }
+}
+
+export interface RefreshTokenRecord {
+  id: string;
+  familyId: string;
+  guard: string;
+  userId: string;
+  email: string | null;
+  scope: string[];
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+type ActiveTokens =
+  | { id: string; revokedAt: null }
+  | { familyId: string; revokedAt: null }
+  | { guard: string; userId: string; revokedAt: null };
+
+/**
+ * The parts of the generated `prisma.refreshToken` delegate the repository
+ * uses
+ */
+export interface RefreshTokenDelegate {
+  create(args: {
+    data: Omit<RefreshTokenRecord, 'id' | 'revokedAt'> & { tokenHash: string };
+  }): Promise<RefreshTokenRecord>;
+  findUnique(args: {
+    where: { tokenHash: string };
+  }): Promise<RefreshTokenRecord | null>;
+  updateMany(args: {
+    where: ActiveTokens;
+    data: { revokedAt: Date };
+  }): Promise<{ count: number }>;
+  deleteMany(args: {
+    where: { expiresAt: { lt: Date } };
+  }): Promise<{ count: number }>;
+}
+
+/**
+ * The parts of config/jwt.ts read by the repository
+ */
+interface JwtConfig {
+  refreshExpiresIn?: number;
+}
+
+const DEFAULT_EXPIRES_IN = 604800;
+
+export class RefreshTokenRepository {
+  static readonly inject = ['app'] as const;
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Create a refresh token for a user of a guard
+   *
+   * Starts a new family, valid for `refreshExpiresIn`, unless given the
+   * family of the rotated token, whose expiry it keeps.
+   */
+  async issue(
+    guard: string,
+    user: { id: string; email?: string; scope?: string[] },
+    family: { id: string; expiresAt: Date } = {
+      id: randomUUID(),
+      expiresAt: new Date(Date.now() + this.expiresIn() * 1000),
+    },
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await (
+      await this.table()
+    ).create({
+      data: {
+        tokenHash: hash(token),
+        familyId: family.id,
+        guard,
+        userId: user.id,
+        email: user.email ?? null,
+        scope: user.scope ?? [],
+        expiresAt: family.expiresAt,
+      },
+    });
+
+    return token;
+  }
+
+  /**
+   * Exchange a refresh token for a new one of the same family
+   *
+   * Throws INVALID_TOKEN for unknown and revoked tokens, TOKEN_EXPIRED for
+   * expired ones.
+   */
+  async rotate(
+    token: string,
+  ): Promise<{ token: string; record: RefreshTokenRecord }> {
+    const table = await this.table();
+    const record = await table.findUnique({
+      where: { tokenHash: hash(token) },
+    });
+
+    if (!record) {
+      throw InvalidTokenError.create('The refresh token is invalid');
+    }
+
+    if (record.revokedAt) {
+      throw await this.reused(record);
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw TokenExpiredError.create('The refresh token has expired');
+    }
+
+    // Claim the token: of two requests using it at once, one is a reuse
+    const { count } = await table.updateMany({
+      where: { id: record.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw await this.reused(record);
+    }
+
+    return {
+      token: await this.issue(
+        record.guard,
+        {
+          id: record.userId,
+          email: record.email ?? undefined,
+          scope: record.scope,
+        },
+        { id: record.familyId, expiresAt: record.expiresAt },
+      ),
+      record,
+    };
+  }
+
+  /**
+   * Revoke the family of a refresh token, ending its session
+   *
+   * Given an owner, only a token of that user of that guard is revoked.
+   * Returns false when the token is unknown or owned by someone else.
+   */
+  async revoke(
+    token: string,
+    owner?: { guard: string; userId: string },
+  ): Promise<boolean> {
+    const table = await this.table();
+    const record = await table.findUnique({
+      where: { tokenHash: hash(token) },
+    });
+
+    if (
+      !record ||
+      (owner &&
+        (record.guard !== owner.guard || record.userId !== owner.userId))
+    ) {
+      return false;
+    }
+
+    await table.updateMany({
+      where: { familyId: record.familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return true;
+  }
+
+  /**
+   * Revoke every refresh token of a user of a guard, ending all sessions
+   */
+  async revokeAll(guard: string, userId: string): Promise<number> {
+    const { count } = await (
+      await this.table()
+    ).updateMany({
+      where: { guard, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Delete the tokens expired before the given date
+   */
+  async prune(before: Date = new Date()): Promise<number> {
+    const { count } = await (
+      await this.table()
+    ).deleteMany({ where: { expiresAt: { lt: before } } });
+    return count;
+  }
+
+  /**
+   * Revoke the family of a reused token
+   */
+  private async reused(record: RefreshTokenRecord): Promise<Error> {
+    await (
+      await this.table()
+    ).updateMany({
+      where: { familyId: record.familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    Log.warning('Refresh token reused, its family was revoked', {
+      guard: record.guard,
+      userId: record.userId,
+      familyId: record.familyId,
+    });
+
+    return InvalidTokenError.create('The refresh token has been revoked');
+  }
+
+  private expiresIn(): number {
+    const jwt: JwtConfig = this._app.has('config')
+      ? (this._app.make('config').jwt ?? {})
+      : {};
+    return jwt.refreshExpiresIn ?? DEFAULT_EXPIRES_IN;
+  }
+
+  private async table(): Promise<RefreshTokenDelegate> {
+    const prisma: { refreshToken: RefreshTokenDelegate } =
+      await this._app.makeAsync('prisma');
+    return prisma.refreshToken;
+  }
+}
+
+function hash(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,38 @@
+/**
+ * Authentication and Authorization Module
+ *
+ * Guards of config/auth.ts, the JWT guard, refresh tokens, password
+ * resets, the `auth` middleware and the Auth facade, and authorization
+ * with the gate, policies and the `can` middleware.
+ */
+
+export { AccessGate } from './AccessGate';
+export type { UserGate } from './AccessGate';
+export { Auth } from './Auth';
+export { AuthManager } from './AuthManager';
+export type { AuthState } from './AuthManager';
+export { Authenticate } from './Authenticate';
+export { Authorize } from './Authorize';
+export { Gate } from './Gate';
+export { JwtGuard, createJwtGuard } from './JwtGuard';
+export { PasswordBroker } from './PasswordBroker';
+export type {
+  PasswordResetTokenDelegate,
+  PasswordResetTokenRecord,
+} from './PasswordBroker';
+export { RefreshTokenRepository } from './RefreshTokenRepository';
+export type {
+  RefreshTokenDelegate,
+  RefreshTokenRecord,
+} from './RefreshTokenRepository';
+export type { JwtGuardOptions } from './JwtGuard';
+export type {
+  AbilityCallback,
+  AuthTokens,
+  AuthUser,
+  BeforeCallback,
+  Guard,
+  GuardConfig,
+  GuardFactory,
+  PolicyClass,
+} from './types';
@@ -0,0 +1,89 @@
+/**
+ * Authentication Types
+ *
+ * The tokens sent to clients are shared with the frontend through
+ * commonTypesWithClient.
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { Application } from '../foundation/Application';
+import type { Injectable } from '../container/Container';
+
+export type { AuthTokens } from '$/commonTypesWithClient/auth.types';
+
+/**
+ * The user a request was authenticated as
+ */
+export interface AuthUser {
+  id: string;
+  email?: string;
+  /**
+   * Scopes granted to the user, e.g. `['admin']`
+   */
+  scope: string[];
+  /**
+   * Every claim of the token
+   */
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Authenticates requests, e.g. with the bearer token of the request
+ */
+export interface Guard {
+  readonly name: string;
+
+  /**
+   * Get the user of the request
+   *
+   * Throws an RFC9457 error (UNAUTHORIZED, INVALID_TOKEN, TOKEN_EXPIRED,
+   * INSUFFICIENT_PERMISSIONS) when the request is not authenticated.
+   */
+  authenticate(request: FastifyRequest): Promise<AuthUser>;
+}
+
+/**
+ * A guard of config/auth.ts
+ */
+export interface GuardConfig {
+  driver: string;
+  scope?: string;
+  expiresIn?: number;
+}
+
+/**
+ * Create a guard of a driver
+ */
+export type GuardFactory = (
+  app: Application,
+  name: string,
+  config: GuardConfig,
+) => Guard;
+
+/**
+ * Decide if a user may perform an ability, e.g. `(user, post) => ...`
+ */
+export type AbilityCallback = (
+  user: AuthUser,
+  ...args: any[]
+) => boolean | Promise<boolean>;
+
+/**
+ * Decide for every ability before the abilities and policies are asked
+ *
+ * Returns true to allow, false to deny or nothing to let the ability decide.
+ */
+export type BeforeCallback = (
+  user: AuthUser,
+  ability: string,
+  ...args: any[]
+) => boolean | void | Promise<boolean | void>;
+
+/**
+ * The abilities of a model, e.g. `UserPolicy.update(actor, user)`
+ *
+ * Every method taking the user first is an ability, checked as
+ * `<model>.<method>`. A `before(user, ability, ...args)` method runs ahead
+ * of them, like the `before` callbacks of the gate.
+ */
+export type PolicyClass = Injectable<object>;
@@ -2,42 +2,30 @@
  * Configuration Helper Tests
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-
-// Mock the app module before importing config helpers
-vi.mock('$/bootstrap/app', () => {
-  const mockApp = {
-    make: vi.fn((key: string) => {
-      if (key === 'config') {
-        return {
-          app: {
-            name: 'Test App',
-            env: 'test',
-            debug: true,
-            nested: {
-              value: 'deep value',
-            },
-          },
-          database: {
-            connections: {
-              postgresql: {
-                url: 'postgresql://test',
-              },
-            },
-          },
-        };
-      }
-      throw new Error(`Service [${key}] not found in container`);
-    }),
-  };
-  return { default: mockApp };
-});
-
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Application } from '../foundation/Application';
 import { config, hasConfig, configAll } from './config';
 
 describe('Configuration Helper', () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    // The helpers read from the application created last
+    new Application('/tmp').instance('config', {
+      app: {
+        name: 'Test App',
+        env: 'test',
+        debug: true,
+        nested: {
+          value: 'deep value',
+        },
+      },
+      database: {
+        connections: {
+          postgresql: {
+            url: 'postgresql://test',
+          },
+        },
+      },
+    });
   });
 
   describe('config()', () => {
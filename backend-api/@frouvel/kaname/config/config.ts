@@ -3,9 +3,10 @@
  *
  * Laravel-like config() helper function to access configuration values.
  * Supports both dot notation and direct property access with full type inference.
+ * Values are read from the current application (Application.getInstance()).
  */
 
-import app from '$/bootstrap/app';
+import { Application } from '../foundation/Application';
 import type { Config, ConfigPaths } from '$/config/$types';
 
 /**
@@ -21,7 +22,7 @@ export function config<T = any>(
   key: ConfigPaths | string,
   defaultValue?: T,
 ): T {
-  const configs = app.make<Record<string, any>>('config');
+  const configs = Application.getInstance().make('config');
 
   const keys = (key as string).split('.');
   let value: any = configs;
@@ -42,7 +43,7 @@ export function config<T = any>(
  */
 export function hasConfig(key: ConfigPaths | string): boolean {
   try {
-    const configs = app.make<Record<string, any>>('config');
+    const configs = Application.getInstance().make('config');
     const keys = (key as string).split('.');
     let value: any = configs;
 
@@ -66,7 +67,7 @@ export function hasConfig(key: ConfigPaths | string): boolean {
 export function configAll<K extends keyof Config>(file: K): Config[K];
 export function configAll(file: string): Record<string, any> | undefined;
 export function configAll(file: string): Record<string, any> | undefined {
-  const configs = app.make<Record<string, any>>('config');
+  const configs = Application.getInstance().make('config');
   return configs[file];
 }
 
@@ -99,7 +100,7 @@ function createConfigProxy(target: any, path: string[] = []): any {
  */
 export const configObject: Config = new Proxy({} as Config, {
   get(_target, prop: string) {
-    const configs = app.make<Record<string, any>>('config');
+    const configs = Application.getInstance().make('config');
     const value = configs[prop];
 
     if (value && typeof value === 'object' && !Array.isArray(value)) {
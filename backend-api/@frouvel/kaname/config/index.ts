@@ -12,7 +12,12 @@ export type {
   ConfigPaths,
   AppConfig,
   AdminConfig,
+  AuthConfig,
   CorsConfig,
   DatabaseConfig,
+  HealthConfig,
+  HttpConfig,
   JwtConfig,
+  LoggingConfig,
+  MailConfig,
 } from '$/config/$types';
\ No newline at end of file
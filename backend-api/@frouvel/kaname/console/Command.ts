@@ -25,6 +25,8 @@ export interface CommandSignature {
 }
 
 export abstract class Command {
+  static readonly inject = ['app'] as const;
+
   protected readonly app: Application;
 
   constructor(app: Application) {
@@ -77,12 +79,12 @@ export abstract class Command {
     // Instead, use command.action((options, command) => ...) for zero-arg commands
     // or command.action((arg1, arg2, ..., options, command) => ...) for commands with args
     const hasArguments = sig.arguments && sig.arguments.length > 0;
-    
+
     if (!hasArguments) {
       // No arguments - just options
-      command.action(async () => {
+      command.action(async (options: Record<string, any>) => {
         try {
-          await this.handle();
+          await this.handle(options);
         } catch (error) {
           this.error(error instanceof Error ? error.message : String(error));
           process.exit(1);
@@ -175,7 +177,7 @@ export abstract class Command {
     command: string,
     parameters: Record<string, any> = {},
   ): Promise<void> {
-    const kernel = this.app.make<any>('ConsoleKernel');
+    const kernel = this.app.make('ConsoleKernel');
     await kernel.call(command, parameters);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,151 @@
+/**
+ * About Command
+ *
+ * Displays basic information about the application and how it booted.
+ * Similar to Laravel's `php artisan about`
+ */
+
+import { Command, type CommandSignature } from '../Command';
+import { LoadConfiguration } from '../../foundation/bootstrappers/LoadConfiguration';
+import { MaintenanceMode } from '../../foundation/MaintenanceMode';
+import { providerName } from '../../foundation/sortProviders';
+import {
+  checkDatabaseConnection,
+  disconnectPrismaClient,
+} from '../../database';
+
+interface AboutOptions {
+  json?: boolean;
+}
+
+interface AboutReport {
+  environment: {
+    name: string | null;
+    environment: string;
+    debug: boolean;
+    basePath: string;
+    nodeVersion: string;
+    maintenance: boolean;
+  };
+  configuration: {
+    files: string[];
+    cached: boolean;
+  };
+  providers: {
+    loaded: string[];
+    deferred: string[];
+  };
+  swagger: {
+    enabled: boolean;
+    path: string | null;
+  };
+  database: {
+    connected: boolean;
+  };
+}
+
+export class AboutCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'about',
+      description: 'Display basic information about the application',
+      options: [
+        {
+          flags: '--json',
+          description: 'Output the information as JSON',
+        },
+      ],
+    };
+  }
+
+  async handle(options: AboutOptions): Promise<void> {
+    const report = await this.gather();
+
+    if (options.json) {
+      this.line(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const yesNo = (value: boolean) => (value ? 'YES' : 'NO');
+
+    this.section('Environment', {
+      'Application Name': report.environment.name ?? '-',
+      Environment: report.environment.environment,
+      Debug: yesNo(report.environment.debug),
+      'Base Path': report.environment.basePath,
+      'Node Version': report.environment.nodeVersion,
+      'Maintenance Mode': report.environment.maintenance ? 'DOWN' : 'OFF',
+    });
+    this.section('Configuration', {
+      'Config Files': report.configuration.files.join(', ') || '-',
+      'Config Cached': yesNo(report.configuration.cached),
+    });
+    this.section('Providers', {
+      Loaded: report.providers.loaded.join(', ') || '-',
+      Deferred: report.providers.deferred.join(', ') || '-',
+    });
+    this.section('Swagger', {
+      Enabled: yesNo(report.swagger.enabled),
+      Path: report.swagger.path ?? '-',
+    });
+    this.section('Database', {
+      Connection: report.database.connected ? 'CONNECTED' : 'FAILED',
+    });
+  }
+
+  private async gather(): Promise<AboutReport> {
+    const config = this.app.make('config');
+
+    return {
+      environment: {
+        name: config.app?.name ?? null,
+        environment: this.app.environment(),
+        debug: config.app?.debug ?? false,
+        basePath: this.app.basePath(),
+        nodeVersion: process.version,
+        maintenance: new MaintenanceMode(this.app).isDown(),
+      },
+      configuration: {
+        files: Object.keys(config),
+        cached: LoadConfiguration.isCached(this.app),
+      },
+      providers: {
+        loaded: this.app.getProviders().map(providerName),
+        deferred: this.app.deferredProviders().map(({ name }) => name),
+      },
+      swagger: {
+        enabled: config.swagger?.enabled ?? false,
+        path: config.swagger?.path ?? null,
+      },
+      database: {
+        connected: await this.checkDatabase(),
+      },
+    };
+  }
+
+  /**
+   * Check the database connection, closing the client used for the check
+   * unless the application resolved it already
+   */
+  private async checkDatabase(): Promise<boolean> {
+    const resolved = this.app.resolved('prisma');
+    const connected = await checkDatabaseConnection();
+
+    if (!resolved) {
+      await disconnectPrismaClient();
+    }
+
+    return connected;
+  }
+
+  private section(title: string, rows: Record<string, string>): void {
+    const width = 60;
+
+    this.newLine();
+    this.line(`  ${title}`);
+    Object.entries(rows).forEach(([label, value]) => {
+      const dots = '.'.repeat(Math.max(width - label.length - value.length, 2));
+      this.line(`  ${label} ${dots} ${value}`);
+    });
+  }
+}
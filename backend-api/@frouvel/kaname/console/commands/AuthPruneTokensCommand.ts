@@ -0,0 +1,46 @@
+/**
+ * Auth Prune Tokens Command
+ *
+ * Deletes expired refresh and password reset tokens, e.g. from a daily
+ * cron job. Revoked refresh tokens are kept until they expire, so their
+ * reuse is still detected. `--hours` applies to both kinds of tokens.
+ * Similar to Laravel Sanctum's `php artisan sanctum:prune-expired`
+ */
+
+import { Command, type CommandSignature } from '../Command';
+
+interface AuthPruneTokensOptions {
+  hours?: string;
+}
+
+export class AuthPruneTokensCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'auth:prune-tokens',
+      description: 'Delete expired refresh and password reset tokens',
+      options: [
+        {
+          flags: '--hours <hours>',
+          description:
+            'Only delete refresh and reset tokens expired for more than this many hours',
+          defaultValue: '0',
+        },
+      ],
+    };
+  }
+
+  async handle(options: AuthPruneTokensOptions): Promise<void> {
+    const hours = Number(options.hours ?? 0);
+    if (!Number.isFinite(hours) || hours < 0) {
+      throw new Error(`Invalid number of hours [${options.hours}].`);
+    }
+
+    const before = new Date(Date.now() - hours * 3600 * 1000);
+    const refreshTokens = await this.app.make('refreshTokens').prune(before);
+    const resetTokens = await this.app.make('passwords').prune(before);
+
+    this.success(
+      `Pruned ${refreshTokens} expired refresh token(s) and ${resetTokens} password reset token(s).`,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Clear Compiled Command
+ *
+ * Removes the cached service provider manifest.
+ * Similar to Laravel's `php artisan clear-compiled`
+ */
+
+import { Command, type CommandSignature } from '../Command';
+import { ProviderRepository } from '../../foundation/ProviderRepository';
+
+export class ClearCompiledCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'clear-compiled',
+      description: 'Remove the cached service provider manifest',
+    };
+  }
+
+  handle(): void {
+    if (ProviderRepository.clearManifest(this.app)) {
+      this.success('Service provider manifest removed successfully!');
+    } else {
+      this.info('No service provider manifest to remove.');
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Container List Command
+ *
+ * Lists every binding of the application container with its lifetime and
+ * whether it has been resolved, followed by the services of deferred
+ * providers that are not loaded yet.
+ */
+
+import { Command, type CommandSignature } from '../Command';
+
+interface ContainerListOptions {
+  json?: boolean;
+}
+
+export class ContainerListCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'container:list',
+      description: 'List the bindings of the service container',
+      options: [
+        {
+          flags: '--json',
+          description: 'Output the bindings as JSON',
+        },
+      ],
+    };
+  }
+
+  handle(options: ContainerListOptions): void {
+    const bindings = this.app
+      .getBindings()
+      .sort((a, b) => a.key.localeCompare(b.key));
+    const deferred = this.app
+      .deferredProviders()
+      .flatMap(({ name, keys }) =>
+        keys.map((key) => ({ key, provider: name })),
+      );
+
+    if (options.json) {
+      this.line(JSON.stringify({ bindings, deferred }, null, 2));
+      return;
+    }
+
+    const rows = bindings.map((binding) => [
+      binding.target ? `${binding.key} -> ${binding.target}` : binding.key,
+      binding.async ? `${binding.lifetime} (async)` : binding.lifetime,
+      binding.resolved ? 'yes' : 'no',
+    ]);
+    this.table(['Key', 'Lifetime', 'Resolved'], rows);
+
+    if (deferred.length > 0) {
+      this.newLine();
+      this.info('Deferred services (provider not loaded yet):');
+      this.table(
+        ['Key', 'Provider'],
+        deferred.map(({ key, provider }) => [key, provider]),
+      );
+    }
+  }
+
+  private table(headers: string[], rows: string[][]): void {
+    const widths = headers.map((header, column) =>
+      Math.max(header.length, ...rows.map((row) => row[column].length)),
+    );
+    const format = (cells: string[]) =>
+      `  ${cells.map((cell, column) => cell.padEnd(widths[column])).join('  ')}`.trimEnd();
+
+    this.line(format(headers));
+    this.line(format(widths.map((width) => '-'.repeat(width))));
+    rows.forEach((row) => this.line(format(row)));
+  }
+}
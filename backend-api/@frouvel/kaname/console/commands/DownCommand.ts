@@ -0,0 +1,74 @@
+/**
+ * Down Command
+ *
+ * Puts the application into maintenance mode.
+ * Similar to Laravel's `php artisan down`
+ */
+
+import { Command, type CommandSignature } from '../Command';
+import { MaintenanceMode } from '../../foundation/MaintenanceMode';
+
+interface DownOptions {
+  retry: string;
+  secret?: string;
+  except: string[];
+  message?: string;
+}
+
+export class DownCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'down',
+      description: 'Put the application into maintenance mode',
+      options: [
+        {
+          flags: '--retry <seconds>',
+          description: 'Value of the Retry-After header',
+          defaultValue: String(MaintenanceMode.defaultRetry),
+        },
+        {
+          flags: '--secret <secret>',
+          description: `Secret that bypasses maintenance mode via the ${MaintenanceMode.bypassHeader} header`,
+        },
+        {
+          flags: '--except <paths...>',
+          description: 'Paths that stay reachable',
+          defaultValue: ['/health'],
+        },
+        {
+          flags: '--message <message>',
+          description: 'Detail of the 503 response',
+        },
+      ],
+    };
+  }
+
+  handle(options: DownOptions): void {
+    const retry = Number(options.retry);
+    if (!Number.isInteger(retry) || retry < 0) {
+      throw new Error(`Invalid --retry value [${options.retry}].`);
+    }
+
+    const maintenance = new MaintenanceMode(this.app);
+    const wasDown = maintenance.isDown();
+
+    maintenance.activate({
+      retry,
+      secret: options.secret,
+      except: options.except,
+      message: options.message,
+    });
+
+    this.success(
+      wasDown
+        ? 'Maintenance mode settings updated.'
+        : 'Application is now in maintenance mode.',
+    );
+    this.line(`  Reachable paths: ${options.except.join(', ') || '(none)'}`);
+    if (options.secret) {
+      this.line(
+        `  Bypass with header: ${MaintenanceMode.bypassHeader}: ${options.secret}`,
+      );
+    }
+  }
+}
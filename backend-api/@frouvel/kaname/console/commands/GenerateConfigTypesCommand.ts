@@ -9,7 +9,6 @@
 import { Command } from '../Command';
 import type { CommandSignature } from '../Command';
 import { ConfigTypesGenerator } from '../../generator/ConfigTypesGenerator';
-import app from '$/bootstrap/app';
 
 export class GenerateConfigTypesCommand extends Command {
   protected signature(): CommandSignature {
@@ -24,7 +23,7 @@ export class GenerateConfigTypesCommand extends Command {
   async handle(): Promise<void> {
     this.info('Generating config types...');
 
-    const configPath = app.configPath();
+    const configPath = this.app.configPath();
     const generator = new ConfigTypesGenerator(configPath);
 
     await generator.execute();
@@ -0,0 +1,90 @@
+/**
+ * Health Command
+ *
+ * Runs the registered health checks, e.g. from deployment scripts before
+ * switching traffic. Exits with code 1 when a check failed.
+ */
+
+import { Command, type CommandSignature } from '../Command';
+import type { HealthProbe, HealthStatus } from '../../health/types';
+
+interface HealthOptions {
+  probe?: string;
+  json?: boolean;
+}
+
+const PROBES: HealthProbe[] = ['live', 'ready'];
+
+const LABELS: Record<HealthStatus, string> = {
+  ok: 'OK',
+  warning: 'WARNING',
+  failed: 'FAILED',
+};
+
+export class HealthCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'health',
+      description: 'Run the health checks of the application',
+      options: [
+        {
+          flags: '--probe <probe>',
+          description: 'Run the checks of one probe only (live, ready)',
+        },
+        {
+          flags: '--json',
+          description: 'Output the report as JSON',
+        },
+      ],
+    };
+  }
+
+  async handle(options: HealthOptions): Promise<void> {
+    const probe = options.probe as HealthProbe | undefined;
+    if (probe !== undefined && !PROBES.includes(probe)) {
+      throw new Error(
+        `Unknown probe [${options.probe}]. Use one of: ${PROBES.join(', ')}`,
+      );
+    }
+
+    const report = await this.app.make('health').run(probe);
+
+    if (report.status === 'failed') {
+      process.exitCode = 1;
+    }
+
+    if (options.json) {
+      this.line(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const entries = Object.entries(report.checks);
+    if (entries.length === 0) {
+      this.warn('No health checks registered.');
+      return;
+    }
+
+    const width = 60;
+
+    this.newLine();
+    entries.forEach(([name, result]) => {
+      const value = `${LABELS[result.status]} (${result.latencyMs}ms)`;
+      const dots = '.'.repeat(Math.max(width - name.length - value.length, 2));
+      this.line(`  ${name} ${dots} ${value}`);
+
+      if (result.message) {
+        this.line(`    ${result.message}`);
+      }
+    });
+    this.newLine();
+
+    const summary = `Health: ${LABELS[report.status]}`;
+    if (report.status === 'ok') {
+      this.success(summary);
+    } else if (report.status === 'warning') {
+      this.warn(summary);
+    } else {
+      this.error(summary);
+    }
+  }
+}
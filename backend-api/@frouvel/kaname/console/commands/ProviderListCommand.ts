@@ -0,0 +1,50 @@
+/**
+ * Provider List Command
+ *
+ * Lists the service providers in boot order with the keys they bind.
+ */
+
+import { Command, type CommandSignature } from '../Command';
+
+export class ProviderListCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'provider:list',
+      description: 'List service providers in boot order with their bindings',
+    };
+  }
+
+  handle(): void {
+    const providers = this.app.getProviders();
+
+    this.info('Loaded providers (boot order):');
+    providers.forEach((provider, index) => {
+      const dependencies = (provider.dependsOn?.() ?? []).map((dependency) =>
+        typeof dependency === 'function'
+          ? dependency.name
+          : this.app.getAlias(dependency),
+      );
+
+      this.line(
+        `  ${index + 1}. ${provider.constructor.name}${
+          dependencies.length > 0
+            ? ` (depends on ${dependencies.join(', ')})`
+            : ''
+        }`,
+      );
+      this.app
+        .providerBindings(provider)
+        .forEach((key) => this.line(`       - ${key}`));
+    });
+
+    const deferred = this.app.deferredProviders();
+    if (deferred.length > 0) {
+      this.newLine();
+      this.info('Deferred providers (not loaded yet):');
+      deferred.forEach(({ name, keys }) => {
+        this.line(`  - ${name}`);
+        keys.forEach((key) => this.line(`       - ${key}`));
+      });
+    }
+  }
+}
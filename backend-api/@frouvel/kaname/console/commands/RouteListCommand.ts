@@ -0,0 +1,137 @@
+/**
+ * Route List Command
+ *
+ * Lists the routes frourio builds from the api directory with their
+ * controller, validators, hooks, middleware and OpenAPI summary and tags.
+ * Similar to Laravel's `php artisan route:list`
+ */
+
+import { Command, type CommandSignature } from '../Command';
+import {
+  RouteInspector,
+  type RouteDescription,
+} from '../../http/RouteInspector';
+
+interface RouteListOptions {
+  method?: string;
+  path?: string;
+  tag?: string;
+  json?: boolean;
+}
+
+const METHOD_ORDER = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export class RouteListCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'route:list',
+      description: 'List the API routes',
+      options: [
+        {
+          flags: '--method <method>',
+          description: 'Only show routes of an HTTP method',
+        },
+        {
+          flags: '--path <prefix>',
+          description: 'Only show routes starting with a path',
+        },
+        {
+          flags: '--tag <tag>',
+          description: 'Only show routes with an OpenAPI tag',
+        },
+        {
+          flags: '--json',
+          description: 'Output the routes as JSON',
+        },
+      ],
+    };
+  }
+
+  handle(options: RouteListOptions): void {
+    const routes = this.filter(this.routes(), options);
+
+    if (options.json) {
+      this.line(JSON.stringify(routes, null, 2));
+      return;
+    }
+
+    if (routes.length === 0) {
+      this.warn('No routes match the given criteria.');
+      return;
+    }
+
+    const width = 80;
+
+    this.newLine();
+    routes.forEach((route) => {
+      const controller = route.controller ?? '(no controller)';
+      const dots = '.'.repeat(
+        Math.max(
+          width - route.method.length - route.path.length - controller.length,
+          2,
+        ),
+      );
+      this.line(`  ${route.method} ${route.path} ${dots} ${controller}`);
+
+      const summary = [
+        route.summary,
+        route.tags.length > 0 ? `[${route.tags.join(', ')}]` : null,
+        route.deprecated ? '(deprecated)' : null,
+      ].filter(Boolean);
+      if (summary.length > 0) {
+        this.line(`    ${summary.join(' ')}`);
+      }
+
+      const details = [
+        ['validators', route.validators],
+        ['hooks', route.hooks],
+        ['middleware', route.middleware],
+      ]
+        .filter(([, values]) => values.length > 0)
+        .map(
+          ([label, values]) => `${label}: ${(values as string[]).join(', ')}`,
+        );
+      if (details.length > 0) {
+        this.line(`    ${details.join(' | ')}`);
+      }
+    });
+    this.newLine();
+    this.info(`Showing [${routes.length}] routes`);
+  }
+
+  private routes(): RouteDescription[] {
+    const config = this.app.make('config');
+    const inspector = new RouteInspector(
+      this.app.basePath(),
+      config.http?.middleware ?? [],
+    );
+
+    return this.app
+      .make('swagger')
+      .routes()
+      .map((route) => inspector.describe(route))
+      .sort(
+        (a, b) =>
+          a.path.localeCompare(b.path) ||
+          METHOD_ORDER.indexOf(a.method) - METHOD_ORDER.indexOf(b.method),
+      );
+  }
+
+  private filter(
+    routes: RouteDescription[],
+    options: RouteListOptions,
+  ): RouteDescription[] {
+    const method = options.method?.toUpperCase();
+    const tag = options.tag?.toLowerCase();
+    const basePath = process.env.API_BASE_PATH || '';
+
+    return routes.filter(
+      (route) =>
+        (!method || route.method === method) &&
+        (!options.path ||
+          route.path.startsWith(options.path) ||
+          route.path.startsWith(`${basePath}${options.path}`)) &&
+        (!tag || route.tags.some((t) => t.toLowerCase() === tag)),
+    );
+  }
+}
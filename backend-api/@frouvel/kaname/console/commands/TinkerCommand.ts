@@ -7,7 +7,6 @@
 
 import { Command, type CommandSignature } from '../Command';
 import * as repl from 'repl';
-import { getPrismaClient } from '$/@frouvel/kaname/database';
 
 export class TinkerCommand extends Command {
   protected signature(): CommandSignature {
@@ -30,22 +29,24 @@ export class TinkerCommand extends Command {
     });
 
     // Set up context with useful utilities
-    this.setupContext(replServer);
-
-    // Handle exit
-    replServer.on('exit', () => {
-      this.newLine();
-      this.info('Goodbye!');
-      process.exit(0);
+    await this.setupContext(replServer);
+
+    // Resolve on exit so the kernel can terminate the application
+    await new Promise<void>((resolve) => {
+      replServer.on('exit', () => {
+        this.newLine();
+        this.info('Goodbye!');
+        resolve();
+      });
     });
   }
 
-  private setupContext(replServer: repl.REPLServer): void {
+  private async setupContext(replServer: repl.REPLServer): Promise<void> {
     // Add application to context
     replServer.context.app = this.app;
 
     // Add Prisma client
-    replServer.context.prisma = getPrismaClient();
+    replServer.context.prisma = await this.app.makeAsync('prisma');
 
     // Add common utilities
     replServer.context.console = console;
@@ -0,0 +1,26 @@
+/**
+ * Up Command
+ *
+ * Brings the application out of maintenance mode.
+ * Similar to Laravel's `php artisan up`
+ */
+
+import { Command, type CommandSignature } from '../Command';
+import { MaintenanceMode } from '../../foundation/MaintenanceMode';
+
+export class UpCommand extends Command {
+  protected signature(): CommandSignature {
+    return {
+      name: 'up',
+      description: 'Bring the application out of maintenance mode',
+    };
+  }
+
+  handle(): void {
+    if (new MaintenanceMode(this.app).deactivate()) {
+      this.success('Application is now live.');
+    } else {
+      this.info('Application is already up.');
+    }
+  }
+}
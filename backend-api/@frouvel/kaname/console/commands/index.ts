@@ -6,7 +6,16 @@
 
 export { ConfigCacheCommand } from './ConfigCacheCommand';
 export { ConfigClearCommand } from './ConfigClearCommand';
+export { ClearCompiledCommand } from './ClearCompiledCommand';
+export { DownCommand } from './DownCommand';
+export { UpCommand } from './UpCommand';
 export { GenerateConfigTypesCommand } from './GenerateConfigTypesCommand';
 export { InspireCommand } from './InspireCommand';
 export { GreetCommand } from './GreetCommand';
+export { ProviderListCommand } from './ProviderListCommand';
+export { ContainerListCommand } from './ContainerListCommand';
+export { AboutCommand } from './AboutCommand';
+export { HealthCommand } from './HealthCommand';
+export { RouteListCommand } from './RouteListCommand';
+export { AuthPruneTokensCommand } from './AuthPruneTokensCommand';
 export { TinkerCommand } from './TinkerCommand';
\ No newline at end of file
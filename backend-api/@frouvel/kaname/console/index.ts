@@ -5,4 +5,6 @@
  */
 
 export { Command } from './Command';
-export type { CommandSignature } from './Command';
\ No newline at end of file
+export type { CommandSignature } from './Command';
+export { COMMANDS_TAG, tagCommands } from './tagCommands';
+export type { CommandClass } from './tagCommands';
@@ -0,0 +1,32 @@
+/**
+ * Command Tagging
+ *
+ * Service providers contribute console commands by tagging them in the
+ * container. ConsoleServiceProvider registers every tagged command with
+ * the ConsoleKernel when it boots.
+ */
+
+import type { Application } from '../foundation/Application';
+import type { Injectable } from '../container/Container';
+import { createToken } from '../container/ServiceToken';
+import type { Command } from './Command';
+
+/**
+ * Tag shared by all console commands
+ */
+export const COMMANDS_TAG = 'console.commands';
+
+export type CommandClass = Injectable<Command>;
+
+/**
+ * Bind the given commands and tag them as console commands
+ */
+export function tagCommands(app: Application, commands: CommandClass[]): void {
+  const keys = commands.map((CommandClass) => {
+    const token = createToken<Command>(`command.${CommandClass.name}`);
+    app.singleton(token, CommandClass);
+    return token;
+  });
+
+  app.tag(keys, COMMANDS_TAG);
+}
@@ -0,0 +1,90 @@
+/**
+ * Binding Resolution Error
+ *
+ * Thrown when the container cannot resolve a service.
+ * Inspired by Laravel's Illuminate\Contracts\Container\BindingResolutionException.
+ */
+
+export class BindingResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BindingResolutionError';
+
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /**
+   * Create an error for a missing key, suggesting registered keys that
+   * look like a typo of it
+   */
+  static notFound(
+    key: string,
+    registered: Iterable<string>,
+  ): BindingResolutionError {
+    const suggestions = suggestKeys(key, registered);
+    const hint =
+      suggestions.length > 0
+        ? ` Did you mean ${suggestions.map((s) => `[${s}]`).join(', ')}?`
+        : '';
+
+    return new BindingResolutionError(
+      `Service [${key}] not found in container.${hint}`,
+    );
+  }
+
+  /**
+   * Create an error for a service depending on itself, showing the
+   * dependency chain that leads back to it
+   */
+  static circular(chain: string[]): BindingResolutionError {
+    return new BindingResolutionError(
+      `Circular dependency detected while resolving [${chain[0]}]: ${chain.join(' -> ')}`,
+    );
+  }
+}
+
+/**
+ * Find registered keys within a small edit distance of the given key
+ * @internal
+ */
+export function suggestKeys(
+  key: string,
+  registered: Iterable<string>,
+  limit: number = 3,
+): string[] {
+  const needle = key.toLowerCase();
+  const threshold = Math.max(2, Math.floor(key.length / 3));
+
+  return [...registered]
+    .map((candidate) => ({
+      candidate,
+      distance: levenshtein(needle, candidate.toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Levenshtein distance between two strings
+ * @internal
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,620 @@
+/* eslint-disable max-lines */
+/**
+ * Service Container Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Container } from './Container';
+import { BindingResolutionError, suggestKeys } from './BindingResolutionError';
+import { createToken } from './ServiceToken';
+
+class Counter {
+  count = 0;
+}
+
+const COUNTER = createToken<Counter>('counter');
+const GREETING = createToken<string>('greeting');
+
+describe('Container', () => {
+  describe('bind()', () => {
+    it('should create a new instance on every resolution', () => {
+      const container = new Container();
+      container.bind(COUNTER, () => new Counter());
+
+      expect(container.make(COUNTER)).not.toBe(container.make(COUNTER));
+    });
+
+    it('should pass the container to the factory', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.bind(
+        createToken<string>('message'),
+        (c) => `${c.make(GREETING)} world`,
+      );
+
+      expect(container.make(createToken<string>('message'))).toBe(
+        'hello world',
+      );
+    });
+  });
+
+  describe('singleton()', () => {
+    it('should return the same instance on every resolution', () => {
+      const container = new Container();
+      container.singleton(COUNTER, () => new Counter());
+
+      container.make(COUNTER).count++;
+
+      expect(container.make(COUNTER).count).toBe(1);
+      expect(container.make(COUNTER)).toBe(container.make(COUNTER));
+    });
+
+    it('should drop the cached instance when rebound', () => {
+      const container = new Container();
+      container.singleton(GREETING, () => 'first');
+      container.make(GREETING);
+
+      container.singleton(GREETING, () => 'second');
+
+      expect(container.make(GREETING)).toBe('second');
+    });
+  });
+
+  describe('instance()', () => {
+    it('should register an existing value', () => {
+      const container = new Container();
+      const counter = new Counter();
+      container.instance(COUNTER, counter);
+
+      expect(container.make(COUNTER)).toBe(counter);
+    });
+  });
+
+  describe('has()', () => {
+    it('should report bound services', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+
+      expect(container.has(GREETING)).toBe(true);
+      expect(container.has(COUNTER)).toBe(false);
+    });
+  });
+
+  describe('make()', () => {
+    it('should throw BindingResolutionError for unknown keys', () => {
+      const container = new Container();
+
+      expect(() => container.make(COUNTER)).toThrow(BindingResolutionError);
+      expect(() => container.make(COUNTER)).toThrow(
+        'Service [counter] not found in container.',
+      );
+    });
+
+    it('should suggest near-miss keys', () => {
+      const container = new Container();
+      container.bind(createToken<string>('config'), () => 'config');
+
+      expect(() => container.make(createToken<string>('confg'))).toThrow(
+        'Service [confg] not found in container. Did you mean [config]?',
+      );
+    });
+  });
+
+  describe('scoped()', () => {
+    it('should share an instance within a scope only', () => {
+      const container = new Container();
+      container.scoped(COUNTER, () => new Counter());
+
+      const first = container.createScope();
+      const second = container.createScope();
+
+      expect(first.make(COUNTER)).toBe(first.make(COUNTER));
+      expect(first.make(COUNTER)).not.toBe(second.make(COUNTER));
+    });
+
+    it('should not resolve outside a scope', () => {
+      const container = new Container();
+      container.scoped(COUNTER, () => new Counter());
+
+      expect(() => container.make(COUNTER)).toThrow(
+        'Service [counter] is scoped and can only be resolved inside a scope.',
+      );
+    });
+
+    it('should resolve singletons from the parent container', () => {
+      const container = new Container();
+      container.singleton(COUNTER, () => new Counter());
+
+      expect(container.createScope().make(COUNTER)).toBe(
+        container.make(COUNTER),
+      );
+    });
+
+    it('should resolve through the current scope inside runInScope()', async () => {
+      const container = new Container();
+      container.scoped(COUNTER, () => new Counter());
+      const scope = container.createScope();
+
+      const resolved = await container.runInScope(scope, async () => {
+        await Promise.resolve();
+        return container.make(COUNTER);
+      });
+
+      expect(resolved).toBe(scope.make(COUNTER));
+    });
+
+    it('should not let singletons depend on scoped services', () => {
+      const container = new Container();
+      const WRAPPER = createToken<{ counter: Counter }>('wrapper');
+      const TRANSIENT = createToken<{ counter: Counter }>('transient');
+      container.scoped(COUNTER, () => new Counter());
+      container.singleton(WRAPPER, (c) => ({ counter: c.make(COUNTER) }));
+      container.bind(TRANSIENT, (c) => ({ counter: c.make(COUNTER) }));
+      container.singleton(GREETING, (c) => `${c.make(TRANSIENT).counter}`);
+      const scope = container.createScope();
+      const makeWrapper = () => container.make(WRAPPER);
+      const makeTransient = () => container.make(TRANSIENT);
+
+      expect(() => container.runInScope(scope, makeWrapper)).toThrow(
+        BindingResolutionError,
+      );
+      expect(() => container.runInScope(scope, makeWrapper)).toThrow(
+        'Singleton [wrapper] cannot depend on scoped service [counter]',
+      );
+      expect(() => scope.make(GREETING)).toThrow(
+        'Singleton [greeting] cannot depend on scoped service [counter]',
+      );
+      expect(container.runInScope(scope, makeTransient).counter).toBe(
+        scope.make(COUNTER),
+      );
+    });
+
+    it('should keep instances registered in a scope private to it', () => {
+      const container = new Container();
+      const scope = container.createScope();
+      scope.instance(GREETING, 'scoped hello');
+
+      expect(scope.make(GREETING)).toBe('scoped hello');
+      expect(container.has(GREETING)).toBe(false);
+    });
+  });
+
+  describe('dispose()', () => {
+    it('should dispose scoped instances in reverse creation order', async () => {
+      const container = new Container();
+      const disposed: string[] = [];
+      const disposable = (name: string) => ({
+        count: 0,
+        dispose: () => {
+          disposed.push(name);
+        },
+      });
+      container.scoped(COUNTER, () => disposable('counter'));
+      container.scoped(createToken<Counter>('other'), () =>
+        disposable('other'),
+      );
+
+      const scope = container.createScope();
+      scope.make(COUNTER);
+      scope.make(createToken<Counter>('other'));
+      await scope.dispose();
+
+      expect(disposed).toEqual(['other', 'counter']);
+    });
+  });
+
+  describe('when()', () => {
+    it('should give the consumer a contextual implementation', () => {
+      const container = new Container();
+      const SERVICE = createToken<{ greeting: string }>('service');
+      container.bind(GREETING, () => 'hello');
+      container.bind(SERVICE, (c) => ({ greeting: c.make(GREETING) }));
+
+      container
+        .when(SERVICE)
+        .needs(GREETING)
+        .give(() => 'contextual hello');
+
+      expect(container.make(SERVICE).greeting).toBe('contextual hello');
+      expect(container.make(GREETING)).toBe('hello');
+    });
+
+    it('should only apply to direct dependencies of the consumer', () => {
+      const container = new Container();
+      const OUTER = createToken<{ inner: { greeting: string } }>('outer');
+      const INNER = createToken<{ greeting: string }>('inner');
+      container.bind(GREETING, () => 'hello');
+      container.bind(INNER, (c) => ({ greeting: c.make(GREETING) }));
+      container.bind(OUTER, (c) => ({ inner: c.make(INNER) }));
+
+      container
+        .when(OUTER)
+        .needs(GREETING)
+        .give(() => 'contextual hello');
+
+      expect(container.make(OUTER).inner.greeting).toBe('hello');
+    });
+  });
+
+  describe('tag()', () => {
+    it('should resolve tagged services in tagging order', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.singleton(COUNTER, () => new Counter());
+      container.tag([GREETING, COUNTER], 'things');
+      container.tag(GREETING, ['things', 'greetings']);
+
+      const things = container.tagged('things');
+
+      expect(things).toEqual(['hello', expect.any(Counter)]);
+      expect(things[1]).toBe(container.make(COUNTER));
+      expect(container.tagged('greetings')).toEqual(['hello']);
+      expect(container.tagged('unknown')).toEqual([]);
+    });
+
+    it('should include services tagged on parent containers', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.tag(GREETING, 'things');
+      const scope = container.createScope();
+      scope.instance(createToken<string>('scoped'), 'scoped hello');
+      scope.tag(createToken<string>('scoped'), 'things');
+
+      expect(scope.tagged('things')).toEqual(['hello', 'scoped hello']);
+      expect(container.tagged('things')).toEqual(['hello']);
+    });
+  });
+
+  describe('alias()', () => {
+    it('should resolve the aliased service', () => {
+      const container = new Container();
+      const ALIAS = createToken<Counter>('counter.alias');
+      container.singleton(COUNTER, () => new Counter());
+      container.alias(COUNTER, ALIAS);
+
+      expect(container.has(ALIAS)).toBe(true);
+      expect(container.make(ALIAS)).toBe(container.make(COUNTER));
+      expect(container.getAlias(ALIAS)).toBe('counter');
+    });
+
+    it('should be replaced by a binding under the same key', () => {
+      const container = new Container();
+      const ALIAS = createToken<string>('alias');
+      container.bind(GREETING, () => 'hello');
+      container.alias(GREETING, ALIAS);
+
+      container.bind(ALIAS, () => 'bound');
+
+      expect(container.make(ALIAS)).toBe('bound');
+      expect(container.make(GREETING)).toBe('hello');
+    });
+
+    it('should reject aliasing a service to itself', () => {
+      const container = new Container();
+      const ALIAS = createToken<string>('alias');
+      container.alias(GREETING, ALIAS);
+
+      expect(() => container.alias(ALIAS, GREETING)).toThrow(
+        '[greeting] cannot be aliased to itself.',
+      );
+    });
+  });
+
+  describe('extend()', () => {
+    it('should decorate the service in registration order', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.extend(GREETING, (greeting) => `${greeting} world`);
+      container.extend(GREETING, (greeting) => greeting.toUpperCase());
+
+      expect(container.make(GREETING)).toBe('HELLO WORLD');
+    });
+
+    it('should decorate an already resolved singleton', () => {
+      const container = new Container();
+      container.singleton(COUNTER, () => new Counter());
+      const counter = container.make(COUNTER);
+
+      container.extend(COUNTER, (instance) => {
+        instance.count = 10;
+        return instance;
+      });
+
+      expect(container.make(COUNTER)).toBe(counter);
+      expect(counter.count).toBe(10);
+    });
+
+    it('should apply through aliases and to instances', () => {
+      const container = new Container();
+      const ALIAS = createToken<string>('alias');
+      container.alias(GREETING, ALIAS);
+      container.extend(ALIAS, (greeting) => `${greeting}!`);
+
+      container.instance(GREETING, 'hello');
+
+      expect(container.make(ALIAS)).toBe('hello!');
+    });
+
+    it('should decorate scoped services with extenders of the parent', () => {
+      const container = new Container();
+      container.scoped(GREETING, () => 'hello');
+      container.extend(GREETING, (greeting) => `${greeting} scope`);
+
+      expect(container.createScope().make(GREETING)).toBe('hello scope');
+    });
+  });
+
+  describe('resolving()', () => {
+    it('should be called with every newly built instance', () => {
+      const container = new Container();
+      const resolved: Counter[] = [];
+      container.singleton(COUNTER, () => new Counter());
+      container.extend(COUNTER, (counter) => {
+        counter.count = 1;
+        return counter;
+      });
+      container.resolving(COUNTER, (counter) => resolved.push(counter));
+
+      container.make(COUNTER);
+      container.make(COUNTER);
+
+      expect(resolved).toHaveLength(1);
+      expect(resolved[0]).toBe(container.make(COUNTER));
+      expect(resolved[0].count).toBe(1);
+    });
+  });
+
+  describe('auto-wiring', () => {
+    class Greeter {
+      static readonly inject = [GREETING, COUNTER] as const;
+
+      constructor(
+        readonly greeting: string,
+        readonly counter: Counter,
+      ) {}
+    }
+
+    const GREETER = createToken<Greeter>('greeter');
+
+    class Report {
+      static readonly inject = [GREETER] as const;
+
+      constructor(readonly greeter: Greeter) {}
+    }
+
+    it('should construct classes from their inject list', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.singleton(COUNTER, () => new Counter());
+
+      const greeter = container.make(Greeter);
+
+      expect(greeter).toBeInstanceOf(Greeter);
+      expect(greeter.greeting).toBe('hello');
+      expect(greeter.counter).toBe(container.make(COUNTER));
+      expect(container.make(Greeter)).not.toBe(greeter);
+    });
+
+    it('should construct classes bound as the concrete of a key', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.bind(COUNTER, Counter);
+      container.singleton(GREETER, Greeter);
+
+      const report = container.make(Report);
+
+      expect(report.greeter).toBe(container.make(GREETER));
+      expect(report.greeter.counter).toBeInstanceOf(Counter);
+    });
+
+    it('should apply contextual bindings to auto-wired classes', () => {
+      const container = new Container();
+      container.bind(GREETING, () => 'hello');
+      container.bind(COUNTER, Counter);
+      container
+        .when(Greeter)
+        .needs(GREETING)
+        .give(() => 'contextual hello');
+
+      expect(container.make(Greeter).greeting).toBe('contextual hello');
+    });
+
+    it('should report circular dependencies with the chain', () => {
+      const container = new Container();
+      const FIRST = createToken<unknown>('first');
+      const SECOND = createToken<unknown>('second');
+      class First {
+        static readonly inject = [SECOND] as const;
+        constructor(readonly second: unknown) {}
+      }
+      class Second {
+        static readonly inject = [FIRST] as const;
+        constructor(readonly first: unknown) {}
+      }
+      container.singleton(FIRST, First);
+      container.singleton(SECOND, Second);
+
+      expect(() => container.make(First)).toThrow(BindingResolutionError);
+      expect(() => container.make(First)).toThrow(
+        'Circular dependency detected while resolving [First]: First -> second -> first -> second',
+      );
+    });
+
+    it('should reject constructors not matching the inject list', () => {
+      const container = new Container();
+      class Mismatched {
+        static readonly inject = [COUNTER] as const;
+        constructor(readonly greeting: string) {}
+      }
+
+      // @ts-expect-error constructor must accept a Counter
+      expect(() => container.make(Mismatched)).toThrow(BindingResolutionError);
+    });
+  });
+
+  describe('makeAsync()', () => {
+    it('should resolve async factories', async () => {
+      const container = new Container();
+      container.bindAsync(GREETING, async () => 'hello');
+
+      await expect(container.makeAsync(GREETING)).resolves.toBe('hello');
+    });
+
+    it('should resolve sync bindings too', async () => {
+      const container = new Container();
+      container.singleton(COUNTER, () => new Counter());
+
+      await expect(container.makeAsync(COUNTER)).resolves.toBe(
+        container.make(COUNTER),
+      );
+    });
+
+    it('should share one instance between concurrent resolutions', async () => {
+      const container = new Container();
+      let built = 0;
+      container.singletonAsync(COUNTER, async () => {
+        built++;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return new Counter();
+      });
+
+      const [first, second] = await Promise.all([
+        container.makeAsync(COUNTER),
+        container.makeAsync(COUNTER),
+      ]);
+
+      expect(built).toBe(1);
+      expect(first).toBe(second);
+      expect(container.make(COUNTER)).toBe(first);
+    });
+
+    it('should retry a failed async singleton', async () => {
+      const container = new Container();
+      let attempts = 0;
+      container.singletonAsync(GREETING, async () => {
+        attempts++;
+        if (attempts === 1) {
+          throw new Error('not ready');
+        }
+        return 'hello';
+      });
+
+      await expect(container.makeAsync(GREETING)).rejects.toThrow('not ready');
+      await expect(container.makeAsync(GREETING)).resolves.toBe('hello');
+    });
+
+    it('should apply extenders and resolving callbacks after the factory settles', async () => {
+      const container = new Container();
+      const resolved: string[] = [];
+      container.singletonAsync(GREETING, async () => 'hello');
+      container.extend(GREETING, (greeting) => `${greeting}!`);
+      container.resolving(GREETING, (greeting) => resolved.push(greeting));
+
+      await expect(container.makeAsync(GREETING)).resolves.toBe('hello!');
+      expect(resolved).toEqual(['hello!']);
+    });
+
+    it('should refuse to resolve an unresolved async service with make()', () => {
+      const container = new Container();
+      container.singletonAsync(GREETING, async () => 'hello');
+
+      expect(() => container.make(GREETING)).toThrow(
+        'Service [greeting] is asynchronous. Resolve it with makeAsync() or pre-warm it.',
+      );
+    });
+
+    it('should report circular dependencies across awaits', async () => {
+      const container = new Container();
+      const OTHER = createToken<string>('other');
+      container.singletonAsync(GREETING, async (c) => {
+        await Promise.resolve();
+        return c.makeAsync(OTHER);
+      });
+      container.singletonAsync(OTHER, async (c) => {
+        await Promise.resolve();
+        return c.makeAsync(GREETING);
+      });
+
+      await expect(container.makeAsync(GREETING)).rejects.toThrow(
+        'Circular dependency detected while resolving [greeting]: greeting -> other -> greeting',
+      );
+    });
+  });
+
+  describe('getBindings()', () => {
+    it('should describe bindings without resolving them', () => {
+      const container = new Container();
+      const ALIAS = createToken<Counter>('tally');
+      container.singleton(COUNTER, () => new Counter());
+      container.bindAsync(GREETING, async () => 'hello');
+      container.alias(COUNTER, ALIAS);
+
+      expect(container.getBindings()).toEqual([
+        {
+          key: 'counter',
+          lifetime: 'singleton',
+          async: false,
+          resolved: false,
+        },
+        {
+          key: 'greeting',
+          lifetime: 'transient',
+          async: true,
+          resolved: false,
+        },
+        {
+          key: 'tally',
+          lifetime: 'alias',
+          async: false,
+          resolved: false,
+          target: 'counter',
+        },
+      ]);
+    });
+
+    it('should report resolved services, instances and parent bindings', () => {
+      const container = new Container();
+      container.scoped(COUNTER, () => new Counter());
+      const scope = container.createScope();
+      scope.instance(GREETING, 'hello');
+
+      expect(container.resolved(COUNTER)).toBe(false);
+      scope.make(COUNTER);
+
+      expect(container.resolved(COUNTER)).toBe(true);
+      expect(scope.getBindings()).toEqual([
+        { key: 'counter', lifetime: 'scoped', async: false, resolved: true },
+        { key: 'greeting', lifetime: 'instance', async: false, resolved: true },
+      ]);
+    });
+  });
+
+  describe('type safety', () => {
+    it('should reject mismatched factories and keys at compile time', () => {
+      const container = new Container();
+
+      // @ts-expect-error factory must return the token type
+      container.bind(GREETING, () => 42);
+
+      // @ts-expect-error keys must be declared in the ServiceMap
+      expect(() => container.make('not-declared')).toThrow(
+        BindingResolutionError,
+      );
+
+      const greeting: string = container.make(GREETING);
+      expect(greeting).toBe(42);
+    });
+  });
+});
+
+describe('suggestKeys()', () => {
+  it('should ignore case and order by distance', () => {
+    expect(
+      suggestKeys('httpkernal', ['ConsoleKernel', 'HttpKernel', 'swagger']),
+    ).toEqual(['HttpKernel']);
+  });
+
+  it('should return nothing for unrelated keys', () => {
+    expect(suggestKeys('prisma', ['swagger', 'HttpKernel'])).toEqual([]);
+  });
+});
@@ -0,0 +1,862 @@
+/* eslint-disable max-lines */
+/**
+ * Service Container
+ *
+ * Type-safe IoC container inspired by Laravel's Illuminate\Container\Container.
+ * Every key is either declared in the ServiceMap or is a ServiceToken, so
+ * bind(), singleton(), make() and has() all agree on the service type.
+ *
+ * Scoped services live in child containers created with createScope(),
+ * e.g. one per HTTP request, and are disposed together with the scope.
+ *
+ * Services can be grouped with tag(), reached under other names with
+ * alias(), decorated with extend() and observed with resolving().
+ *
+ * Classes declaring their dependencies in a static `inject` list are
+ * constructed automatically by make() or when bound as the concrete of a key.
+ *
+ * Services needing awaited setup are bound with the *Async() variants and
+ * resolved with makeAsync(); concurrent resolutions share one instance.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { BindingResolutionError } from './BindingResolutionError';
+import { ContextualBindingBuilder } from './ContextualBindingBuilder';
+import type { ServiceMap } from './ServiceMap';
+import type { ServiceToken } from './ServiceToken';
+
+/**
+ * String keys declared in the ServiceMap
+ */
+export type ServiceKey = keyof ServiceMap & string;
+
+/**
+ * Anything the container can resolve
+ */
+export type ServiceIdentifier = ServiceKey | ServiceToken<any>;
+
+/**
+ * The type a service identifier resolves to
+ */
+export type Resolved<K extends ServiceIdentifier> =
+  K extends ServiceToken<infer T>
+    ? T
+    : K extends ServiceKey
+      ? ServiceMap[K]
+      : never;
+
+/**
+ * Factory creating a service instance
+ */
+export type ServiceFactory<T> = (container: Container) => T;
+
+/**
+ * Factory creating a service instance that needs awaited setup
+ */
+export type AsyncServiceFactory<T> = (container: Container) => Promise<T>;
+
+/**
+ * The resolved types of a list of service identifiers
+ */
+export type Dependencies<D extends readonly ServiceIdentifier[]> = {
+  -readonly [I in keyof D]: Resolved<D[I]>;
+};
+
+/**
+ * A class the container can construct
+ *
+ * Constructor parameters are resolved from the static `inject` list, in
+ * order. Classes without one are constructed without arguments.
+ */
+export interface Injectable<T = unknown> {
+  new (...args: any[]): T;
+  readonly inject?: readonly ServiceIdentifier[];
+}
+
+/**
+ * Rejects classes whose constructor does not accept their declared
+ * dependencies
+ */
+export type Autowirable<C extends Injectable> = C extends {
+  readonly inject: infer D extends readonly ServiceIdentifier[];
+}
+  ? C extends new (...args: Dependencies<D>) => unknown
+    ? C
+    : never
+  : C extends new () => unknown
+    ? C
+    : never;
+
+/**
+ * What a key can be bound to: a factory or a class to construct
+ */
+export type Concrete<T> = ServiceFactory<T> | Injectable<T>;
+
+/**
+ * Decorator applied to a service after it has been built
+ */
+export type Extender<T> = (instance: T, container: Container) => T;
+
+/**
+ * Callback fired whenever a service is built
+ */
+export type ResolvingCallback<T> = (instance: T, container: Container) => void;
+
+/**
+ * How long a resolved instance is reused
+ */
+export type Lifetime = 'transient' | 'singleton' | 'scoped';
+
+/**
+ * A binding as reported by getBindings()
+ */
+export interface BindingDescription {
+  key: string;
+  lifetime: Lifetime | 'instance' | 'alias';
+  async: boolean;
+  /**
+   * Whether the service has been built or registered as an instance
+   */
+  resolved: boolean;
+  /**
+   * The key an alias resolves to
+   */
+  target?: string;
+}
+
+interface Binding {
+  factory: ServiceFactory<unknown>;
+  lifetime: Lifetime;
+  async?: boolean;
+}
+
+/**
+ * The scope of the current async execution (e.g. the current request)
+ * @internal
+ */
+const scopeStorage = new AsyncLocalStorage<Container>();
+
+/**
+ * The async services being built by the current async execution, to
+ * detect circular dependencies across awaits
+ * @internal
+ */
+const asyncBuildStorage = new AsyncLocalStorage<string[]>();
+
+/**
+ * The singleton of the root container being built by the current async
+ * execution: its dependencies are resolved from the root, never from the
+ * current scope
+ * @internal
+ */
+const singletonBuildStorage = new AsyncLocalStorage<string>();
+
+export class Container {
+  private readonly _parent: Container | null;
+  private readonly _bindings: Map<string, Binding> = new Map();
+  private readonly _instances: Map<string, unknown> = new Map();
+  private readonly _contextual: Map<
+    string,
+    Map<string, ServiceFactory<unknown>>
+  > = new Map();
+  private readonly _aliases: Map<string, string> = new Map();
+  private readonly _tags: Map<string, string[]> = new Map();
+  private readonly _extenders: Map<string, Extender<unknown>[]> = new Map();
+  private readonly _resolvingCallbacks: Map<
+    string,
+    ResolvingCallback<unknown>[]
+  > = new Map();
+  private readonly _pending: Map<string, Promise<unknown>> = new Map();
+  private readonly _resolved: Set<string> = new Set();
+  private readonly _disposables: unknown[] = [];
+  private readonly _buildStack: string[] = [];
+
+  constructor(parent: Container | null = null) {
+    this._parent = parent;
+  }
+
+  /**
+   * Bind a service to the container (new instance on every resolution)
+   */
+  bind<K extends ServiceIdentifier>(
+    key: K,
+    concrete: Concrete<Resolved<K>>,
+  ): void {
+    this.addBinding(key, concrete, 'transient');
+  }
+
+  /**
+   * Bind a singleton to the container (instance is created once)
+   */
+  singleton<K extends ServiceIdentifier>(
+    key: K,
+    concrete: Concrete<Resolved<K>>,
+  ): void {
+    this.addBinding(key, concrete, 'singleton');
+  }
+
+  /**
+   * Bind a scoped service (instance is created once per scope)
+   */
+  scoped<K extends ServiceIdentifier>(
+    key: K,
+    concrete: Concrete<Resolved<K>>,
+  ): void {
+    this.addBinding(key, concrete, 'scoped');
+  }
+
+  /**
+   * Bind an async service (new instance on every resolution)
+   */
+  bindAsync<K extends ServiceIdentifier>(
+    key: K,
+    factory: AsyncServiceFactory<Resolved<K>>,
+  ): void {
+    this.addBinding(key, factory, 'transient', true);
+  }
+
+  /**
+   * Bind an async singleton (instance is created once)
+   */
+  singletonAsync<K extends ServiceIdentifier>(
+    key: K,
+    factory: AsyncServiceFactory<Resolved<K>>,
+  ): void {
+    this.addBinding(key, factory, 'singleton', true);
+  }
+
+  /**
+   * Bind an async scoped service (instance is created once per scope)
+   */
+  scopedAsync<K extends ServiceIdentifier>(
+    key: K,
+    factory: AsyncServiceFactory<Resolved<K>>,
+  ): void {
+    this.addBinding(key, factory, 'scoped', true);
+  }
+
+  /**
+   * Register an existing instance as a singleton
+   */
+  instance<K extends ServiceIdentifier>(key: K, value: Resolved<K>): void {
+    const name = keyName(key);
+    this._aliases.delete(name);
+    this._bindings.delete(name);
+    this._instances.set(name, this.applyExtenders(name, value));
+    this.bindingAdded(name);
+  }
+
+  /**
+   * Make a service resolvable under another key
+   */
+  alias(key: ServiceIdentifier, alias: ServiceIdentifier): void {
+    const name = keyName(alias);
+    if (this.getAlias(key) === name) {
+      throw new Error(`[${name}] cannot be aliased to itself.`);
+    }
+
+    this._aliases.set(name, keyName(key));
+  }
+
+  /**
+   * Get the key an alias points to (the key itself if it is no alias)
+   */
+  getAlias(key: ServiceIdentifier | string): string {
+    const name = typeof key === 'string' ? key : keyName(key);
+    for (const owner of this.lineage()) {
+      const target = owner._aliases.get(name);
+      if (target !== undefined) {
+        return this.getAlias(target);
+      }
+    }
+
+    return name;
+  }
+
+  /**
+   * Assign one or more tags to the given services
+   */
+  tag(
+    keys: ServiceIdentifier | ServiceIdentifier[],
+    tags: string | string[],
+  ): void {
+    const names = (Array.isArray(keys) ? keys : [keys]).map(keyName);
+
+    for (const tag of Array.isArray(tags) ? tags : [tags]) {
+      const tagged = this._tags.get(tag) ?? [];
+      this._tags.set(tag, [
+        ...tagged,
+        ...names.filter((name) => !tagged.includes(name)),
+      ]);
+    }
+  }
+
+  /**
+   * Resolve all services with the given tag, in tagging order
+   */
+  tagged<T = unknown>(tag: string): T[] {
+    const names = new Set<string>();
+    for (const owner of [...this.lineage()].reverse()) {
+      owner._tags.get(tag)?.forEach((name) => names.add(name));
+    }
+
+    return [...names].map((name) => this.makeByName(name) as T);
+  }
+
+  /**
+   * Decorate a service every time it is built
+   *
+   * An instance that has already been resolved by this container is
+   * decorated immediately.
+   */
+  extend<K extends ServiceIdentifier>(
+    key: K,
+    extender: Extender<Resolved<K>>,
+  ): void {
+    const name = this.getAlias(key);
+    const extenders = this._extenders.get(name) ?? [];
+    extenders.push(extender as Extender<unknown>);
+    this._extenders.set(name, extenders);
+
+    if (this._instances.has(name)) {
+      this._instances.set(
+        name,
+        extender(this._instances.get(name) as Resolved<K>, this),
+      );
+    }
+  }
+
+  /**
+   * Register a callback fired whenever the service is built
+   *
+   * Cached singleton and scoped instances do not fire it again.
+   */
+  resolving<K extends ServiceIdentifier>(
+    key: K,
+    callback: ResolvingCallback<Resolved<K>>,
+  ): void {
+    const name = this.getAlias(key);
+    const callbacks = this._resolvingCallbacks.get(name) ?? [];
+    callbacks.push(callback as ResolvingCallback<unknown>);
+    this._resolvingCallbacks.set(name, callbacks);
+  }
+
+  /**
+   * Define a contextual binding: when the consumer is being built and
+   * needs the given key, the contextual factory is used instead
+   */
+  when(consumer: ServiceIdentifier | Injectable): ContextualBindingBuilder {
+    return new ContextualBindingBuilder(this, consumer);
+  }
+
+  /**
+   * Register a contextual binding
+   * @internal Use when().needs().give() instead
+   */
+  addContextualBinding(
+    consumer: ServiceIdentifier | Injectable,
+    key: ServiceIdentifier,
+    factory: ServiceFactory<unknown>,
+  ): void {
+    const consumerName =
+      typeof consumer === 'function' ? consumer.name : this.getAlias(consumer);
+    const needs = this._contextual.get(consumerName) ?? new Map();
+    needs.set(this.getAlias(key), factory);
+    this._contextual.set(consumerName, needs);
+  }
+
+  /**
+   * Resolve a service from the container
+   *
+   * On the root container inside runInScope(), resolution goes through the
+   * current scope so scoped services are available.
+   */
+  make<K extends ServiceIdentifier>(key: K): Resolved<K>;
+  /**
+   * Construct a class, resolving the dependencies in its `inject` list
+   */
+  make<C extends Injectable>(concrete: C & Autowirable<C>): InstanceType<C>;
+  make(key: ServiceIdentifier | Injectable): unknown {
+    if (typeof key === 'function') {
+      return this.target().build(key.name, {
+        factory: (container) => container.construct(key),
+        lifetime: 'transient',
+      });
+    }
+
+    return this.makeByName(keyName(key));
+  }
+
+  /**
+   * Resolve a service that may need awaited setup
+   *
+   * Works for every binding. Concurrent resolutions of an async singleton
+   * or scoped service wait for the same instance.
+   */
+  async makeAsync<K extends ServiceIdentifier>(key: K): Promise<Resolved<K>> {
+    return (await this.target().resolveAsync(
+      this.getAlias(keyName(key)),
+    )) as Resolved<K>;
+  }
+
+  /**
+   * Check if a service is bound
+   */
+  has(key: ServiceIdentifier): boolean {
+    const name = this.getAlias(key);
+    return (
+      this._bindings.has(name) ||
+      this._instances.has(name) ||
+      (this._parent?.has(key) ?? false)
+    );
+  }
+
+  /**
+   * Get all keys bound in this container and its parents
+   */
+  keys(): string[] {
+    return [
+      ...new Set([
+        ...(this._parent?.keys() ?? []),
+        ...this._bindings.keys(),
+        ...this._instances.keys(),
+        ...this._aliases.keys(),
+      ]),
+    ];
+  }
+
+  /**
+   * Check if a service has been resolved at least once, in this
+   * container or any of its scopes
+   */
+  resolved(key: ServiceIdentifier | string): boolean {
+    const name = this.getAlias(key);
+    return [...this.lineage()].some(
+      (owner) => owner._resolved.has(name) || owner._instances.has(name),
+    );
+  }
+
+  /**
+   * Describe the bindings, instances and aliases of this container and its
+   * parents, without resolving anything
+   */
+  getBindings(): BindingDescription[] {
+    const descriptions: Map<string, BindingDescription> = new Map();
+
+    for (const owner of [...this.lineage()].reverse()) {
+      owner._bindings.forEach((binding, key) =>
+        descriptions.set(key, {
+          key,
+          lifetime: binding.lifetime,
+          async: binding.async ?? false,
+          resolved: this.resolved(key),
+        }),
+      );
+      owner._instances.forEach((_instance, key) => {
+        if (!descriptions.has(key)) {
+          descriptions.set(key, {
+            key,
+            lifetime: 'instance',
+            async: false,
+            resolved: true,
+          });
+        }
+      });
+      owner._aliases.forEach((target, key) =>
+        descriptions.set(key, {
+          key,
+          lifetime: 'alias',
+          async: false,
+          resolved: this.resolved(target),
+          target,
+        }),
+      );
+    }
+
+    return [...descriptions.values()];
+  }
+
+  /**
+   * Create a child container for scoped services
+   */
+  createScope(): Container {
+    return new Container(this);
+  }
+
+  /**
+   * Run a callback with the given scope as the current scope
+   */
+  runInScope<T>(scope: Container, callback: () => T): T {
+    return scopeStorage.run(scope, callback);
+  }
+
+  /**
+   * Get the scope of the current async execution, if any
+   */
+  currentScope(): Container | null {
+    return scopeStorage.getStore() ?? null;
+  }
+
+  /**
+   * Dispose the scoped instances created by this container
+   *
+   * Instances exposing a dispose() method are disposed in reverse
+   * creation order.
+   */
+  async dispose(): Promise<void> {
+    const disposables = this._disposables.splice(0).reverse();
+    this._instances.clear();
+
+    for (const instance of disposables) {
+      await (instance as { dispose: () => unknown }).dispose();
+    }
+  }
+
+  /**
+   * Get the root container
+   */
+  root(): Container {
+    return this._parent ? this._parent.root() : this;
+  }
+
+  private makeByName(name: string): unknown {
+    return this.target().resolve(this.getAlias(name));
+  }
+
+  /**
+   * The container to resolve from: on the root container inside
+   * runInScope(), the current scope, unless a singleton is being built
+   */
+  private target(): Container {
+    if (singletonBuildStorage.getStore() !== undefined) {
+      return this;
+    }
+
+    const scope = this.currentScope();
+    return scope && scope !== this && scope.root() === this ? scope : this;
+  }
+
+  /**
+   * Instantiate a class with the dependencies in its `inject` list
+   */
+  private construct<T>(concrete: Injectable<T>): T {
+    const dependencies = (concrete.inject ?? []).map((key) => this.make(key));
+    return new concrete(...dependencies);
+  }
+
+  private resolve(name: string): unknown {
+    const contextual = this.findContextual(name);
+    if (contextual) {
+      return contextual(this);
+    }
+
+    const found = this.find(name);
+    if ('instance' in found) {
+      return found.instance;
+    }
+
+    if (found.binding.async) {
+      throw new BindingResolutionError(
+        `Service [${name}] is asynchronous. Resolve it with makeAsync() or pre-warm it.`,
+      );
+    }
+
+    return this.resolveBinding(name, found.binding, found.owner);
+  }
+
+  private async resolveAsync(name: string): Promise<unknown> {
+    const contextual = this.findContextual(name);
+    if (contextual) {
+      return contextual(this);
+    }
+
+    let found = this.find(name);
+    const ready = this.root().bindingReady(name);
+    if (ready) {
+      await ready;
+      found = this.find(name);
+    }
+    if ('instance' in found) {
+      return found.instance;
+    }
+
+    if (!found.binding.async) {
+      return this.resolveBinding(name, found.binding, found.owner);
+    }
+
+    return this.resolveAsyncBinding(name, found.binding, found.owner);
+  }
+
+  /**
+   * Find the instance or binding of a key in this container or its parents
+   */
+  private find(
+    name: string,
+  ): { instance: unknown } | { binding: Binding; owner: Container } {
+    for (const owner of this.lineage()) {
+      if (owner._instances.has(name)) {
+        return { instance: owner._instances.get(name) };
+      }
+
+      const binding = owner._bindings.get(name);
+      if (binding) {
+        return { binding, owner };
+      }
+    }
+
+    if (this.root().loadDeferredBinding(name)) {
+      return this.find(name);
+    }
+
+    throw BindingResolutionError.notFound(name, this.keys());
+  }
+
+  /**
+   * Register a missing binding on demand
+   *
+   * Returns true when the binding has been registered. The Application
+   * overrides this to load deferred service providers.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected loadDeferredBinding(_name: string): boolean {
+    return false;
+  }
+
+  /**
+   * Get the setup of a binding registered on demand, still to be awaited
+   *
+   * The Application overrides this to await the boot() of deferred
+   * service providers loaded after the application booted.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected bindingReady(_name: string): Promise<void> | undefined {
+    return undefined;
+  }
+
+  /**
+   * Called whenever a key is bound or an instance is registered
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected bindingAdded(_name: string): void {}
+
+  private resolveBinding(
+    name: string,
+    binding: Binding,
+    owner: Container,
+  ): unknown {
+    if (binding.lifetime === 'transient') {
+      return this.build(name, binding);
+    }
+
+    const target = this.cacheTarget(name, binding, owner);
+    return target.store(
+      name,
+      binding,
+      target.asSingleton(name, binding, () => target.build(name, binding)),
+    );
+  }
+
+  private resolveAsyncBinding(
+    name: string,
+    binding: Binding,
+    owner: Container,
+  ): Promise<unknown> {
+    const chain = asyncBuildStorage.getStore() ?? [];
+    if (chain.includes(name)) {
+      throw BindingResolutionError.circular([...chain, name]);
+    }
+
+    if (binding.lifetime === 'transient') {
+      return this.buildAsync(name, binding);
+    }
+
+    const target = this.cacheTarget(name, binding, owner);
+    const pending = target._pending.get(name);
+    if (pending) {
+      return pending;
+    }
+
+    // A failed build is not cached, so the next resolution retries
+    const building = target
+      .asSingleton(name, binding, () => target.buildAsync(name, binding))
+      .then((instance) => target.store(name, binding, instance))
+      .finally(() => target._pending.delete(name));
+    target._pending.set(name, building);
+
+    return building;
+  }
+
+  /**
+   * Get the container caching a singleton or scoped instance: singletons
+   * are cached by the container that declared them, scoped services by
+   * the nearest scope
+   */
+  private cacheTarget(
+    name: string,
+    binding: Binding,
+    owner: Container,
+  ): Container {
+    const singleton = singletonBuildStorage.getStore();
+    if (binding.lifetime === 'scoped' && singleton !== undefined) {
+      throw new BindingResolutionError(
+        `Singleton [${singleton}] cannot depend on scoped service [${name}]: it would keep the instance of one scope forever.`,
+      );
+    }
+
+    const target = binding.lifetime === 'singleton' ? owner : this;
+    if (binding.lifetime === 'scoped' && !target._parent) {
+      throw new BindingResolutionError(
+        `Service [${name}] is scoped and can only be resolved inside a scope.`,
+      );
+    }
+
+    return target;
+  }
+
+  /**
+   * Build a singleton of the root container with its dependencies resolved
+   * from the root
+   */
+  private asSingleton<T>(name: string, binding: Binding, build: () => T): T {
+    return binding.lifetime === 'singleton' && !this._parent
+      ? singletonBuildStorage.run(name, build)
+      : build();
+  }
+
+  private store(name: string, binding: Binding, instance: unknown): unknown {
+    this._instances.set(name, instance);
+    if (binding.lifetime === 'scoped' && isDisposable(instance)) {
+      this._disposables.push(instance);
+    }
+
+    return instance;
+  }
+
+  private build(name: string, binding: Binding): unknown {
+    return this.finish(name, this.invoke(name, binding));
+  }
+
+  private async buildAsync(name: string, binding: Binding): Promise<unknown> {
+    const chain = [...(asyncBuildStorage.getStore() ?? []), name];
+    const instance = await asyncBuildStorage.run(chain, () =>
+      this.invoke(name, binding),
+    );
+
+    return this.finish(name, instance);
+  }
+
+  /**
+   * Call the factory of a binding with the key on the build stack
+   */
+  private invoke(name: string, binding: Binding): unknown {
+    const stack = this.root()._buildStack;
+    if (stack.includes(name)) {
+      throw BindingResolutionError.circular([...stack, name]);
+    }
+    stack.push(name);
+
+    try {
+      return binding.factory(this);
+    } finally {
+      stack.pop();
+    }
+  }
+
+  /**
+   * Apply extenders and fire resolving callbacks for a built instance
+   */
+  private finish(name: string, built: unknown): unknown {
+    const instance = this.applyExtenders(name, built);
+    this.root()._resolved.add(name);
+
+    for (const owner of [...this.lineage()].reverse()) {
+      owner._resolvingCallbacks
+        .get(name)
+        ?.forEach((callback) => callback(instance, this));
+    }
+
+    return instance;
+  }
+
+  /**
+   * Apply the extenders of this container and its parents, outermost first
+   */
+  private applyExtenders(name: string, instance: unknown): unknown {
+    return [...this.lineage()]
+      .reverse()
+      .flatMap((owner) => owner._extenders.get(name) ?? [])
+      .reduce((extended, extender) => extender(extended, this), instance);
+  }
+
+  private findContextual(name: string): ServiceFactory<unknown> | undefined {
+    const stack = this.root()._buildStack;
+    const consumer = stack[stack.length - 1];
+    if (consumer === undefined) {
+      return undefined;
+    }
+
+    for (const owner of this.lineage()) {
+      const factory = owner._contextual.get(consumer)?.get(name);
+      if (factory) {
+        return factory;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterate this container and its parents, nearest first
+   */
+  private *lineage(): Generator<Container> {
+    yield this;
+    if (this._parent) {
+      yield* this._parent.lineage();
+    }
+  }
+
+  private addBinding(
+    key: ServiceIdentifier,
+    concrete: Concrete<unknown>,
+    lifetime: Lifetime,
+    async: boolean = false,
+  ): void {
+    const factory: ServiceFactory<unknown> = isClass(concrete)
+      ? (container) => container.construct(concrete)
+      : concrete;
+    const name = keyName(key);
+    // Rebinding replaces any instance resolved from the previous binding
+    // and any alias using the same key
+    this._aliases.delete(name);
+    this._instances.delete(name);
+    this._bindings.set(name, { factory, lifetime, async });
+    this.bindingAdded(name);
+  }
+}
+
+/**
+ * Get the string key of a service identifier
+ * @internal
+ */
+export function keyName(key: ServiceIdentifier): string {
+  return typeof key === 'string' ? key : key.key;
+}
+
+/**
+ * Tell classes from factory functions
+ * @internal
+ */
+function isClass(concrete: Concrete<unknown>): concrete is Injectable {
+  return Function.prototype.toString.call(concrete).startsWith('class');
+}
+
+/**
+ * @internal
+ */
+function isDisposable(instance: unknown): boolean {
+  return (
+    typeof instance === 'object' &&
+    instance !== null &&
+    typeof (instance as { dispose?: unknown }).dispose === 'function'
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Contextual Binding Builder
+ *
+ * Fluent builder for "when X needs Y, give it Z" bindings.
+ * Inspired by Laravel's Illuminate\Container\ContextualBindingBuilder.
+ *
+ * @example
+ * app.when('reportService').needs(MAILER).give(() => new LogMailer());
+ */
+
+import type {
+  Container,
+  Injectable,
+  Resolved,
+  ServiceFactory,
+  ServiceIdentifier,
+} from './Container';
+
+export class ContextualBindingBuilder {
+  constructor(
+    private readonly _container: Container,
+    private readonly _consumer: ServiceIdentifier | Injectable,
+  ) {}
+
+  /**
+   * Define the dependency the consumer needs
+   */
+  needs<K extends ServiceIdentifier>(
+    key: K,
+  ): { give: (factory: ServiceFactory<Resolved<K>>) => void } {
+    return {
+      give: (factory) =>
+        this._container.addContextualBinding(this._consumer, key, factory),
+    };
+  }
+}
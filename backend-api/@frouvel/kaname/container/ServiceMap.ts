@@ -0,0 +1,20 @@
+/**
+ * Service Map
+ *
+ * Registry of string container keys and the types they resolve to.
+ * It is empty here and extended through declaration merging next to the
+ * code that binds each service.
+ *
+ * @example
+ * declare module '$/@frouvel/kaname/container/ServiceMap' {
+ *   interface ServiceMap {
+ *     cache: CacheService;
+ *   }
+ * }
+ *
+ * app.singleton('cache', () => new CacheService());
+ * const cache = app.make('cache'); // CacheService
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ServiceMap {}
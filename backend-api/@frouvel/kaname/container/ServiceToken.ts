@@ -0,0 +1,36 @@
+/**
+ * Service Token
+ *
+ * A typed key for services that are not listed in the ServiceMap.
+ * The token carries the service type, so the container can type-check
+ * bindings and resolutions without a declaration-merged entry.
+ *
+ * @example
+ * export const MAILER = createToken<Mailer>('mailer');
+ *
+ * app.singleton(MAILER, () => new SmtpMailer());
+ * const mailer = app.make(MAILER); // Mailer
+ */
+
+export class ServiceToken<T> {
+  /**
+   * Phantom field carrying the service type (never set at runtime)
+   */
+  declare readonly __type?: T;
+
+  constructor(public readonly key: string) {}
+
+  toString(): string {
+    return this.key;
+  }
+}
+
+/**
+ * Create a typed service token
+ *
+ * Token keys share the namespace of string keys, so they must be unique
+ * within the container.
+ */
+export function createToken<T>(key: string): ServiceToken<T> {
+  return new ServiceToken<T>(key);
+}
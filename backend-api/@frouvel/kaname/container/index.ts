@@ -0,0 +1,27 @@
+/**
+ * Container Module
+ *
+ * Type-safe service container and typed service keys.
+ */
+
+export { Container } from './Container';
+export type {
+  ServiceKey,
+  ServiceIdentifier,
+  Resolved,
+  ServiceFactory,
+  AsyncServiceFactory,
+  Concrete,
+  Injectable,
+  Autowirable,
+  Dependencies,
+  Lifetime,
+  BindingDescription,
+  Extender,
+  ResolvingCallback,
+} from './Container';
+
+export { ServiceToken, createToken } from './ServiceToken';
+export type { ServiceMap } from './ServiceMap';
+
+export { BindingResolutionError } from './BindingResolutionError';
@@ -0,0 +1,122 @@
+/**
+ * Context Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Context } from './Context';
+import { ApiResponse } from '../http/ApiResponse';
+import { NotFoundError } from '../error/CommonErrors';
+
+describe('Context', () => {
+  it('should expose values only inside run()', async () => {
+    expect(Context.active()).toBe(false);
+    expect(Context.requestId()).toBeUndefined();
+
+    await Context.run({ requestId: 'req-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+
+      expect(Context.active()).toBe(true);
+      expect(Context.requestId()).toBe('req-1');
+    });
+
+    expect(Context.requestId()).toBeUndefined();
+  });
+
+  it('should keep concurrent contexts apart', async () => {
+    const ids = await Promise.all(
+      ['a', 'b'].map((requestId) =>
+        Context.run({ requestId }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return Context.requestId();
+        }),
+      ),
+    );
+
+    expect(ids).toEqual(['a', 'b']);
+  });
+
+  it('should add values and inherit them in nested contexts', () => {
+    Context.add('ignored', true);
+
+    Context.run({ requestId: 'req-1' }, () => {
+      Context.add('userId', 42);
+
+      Context.run({ job: 'mail' }, () => {
+        expect(Context.all()).toEqual({
+          requestId: 'req-1',
+          userId: 42,
+          job: 'mail',
+        });
+      });
+
+      expect(Context.get('job')).toBeUndefined();
+    });
+
+    expect(Context.all()).toEqual({});
+  });
+
+  it('should keep hidden values out of all()', () => {
+    Context.addHidden('ignored', true);
+
+    Context.run({ requestId: 'req-1' }, () => {
+      Context.addHidden('user', { id: '42' });
+
+      Context.run({ job: 'mail' }, () => {
+        expect(Context.getHidden('user')).toEqual({ id: '42' });
+        expect(Context.all()).toEqual({ requestId: 'req-1', job: 'mail' });
+      });
+
+      expect(Context.get('user')).toBeUndefined();
+    });
+
+    expect(Context.getHidden('ignored')).toBeUndefined();
+  });
+
+  it('should add the request id to problem details', () => {
+    Context.run({ requestId: 'req-1' }, () => {
+      expect(ApiResponse.notFound('User not found').body.requestId).toBe(
+        'req-1',
+      );
+      expect(
+        NotFoundError.create('User not found').toProblemDetails(),
+      ).toMatchObject({ requestId: 'req-1' });
+    });
+
+    expect(ApiResponse.notFound('User not found').body).not.toHaveProperty(
+      'requestId',
+    );
+  });
+
+  describe('decorateConsole', () => {
+    let restore: () => void = () => {};
+
+    afterEach(() => {
+      restore();
+      vi.restoreAllMocks();
+    });
+
+    it('should prefix console output made inside a request', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      restore = Context.decorateConsole();
+
+      console.log('outside');
+      Context.run({ requestId: 'req-1' }, () => console.log('inside', 1));
+
+      expect(log).toHaveBeenNthCalledWith(1, 'outside');
+      expect(log).toHaveBeenNthCalledWith(2, '[req-1]', 'inside', 1);
+
+      restore();
+      expect(console.log).toBe(log);
+    });
+
+    it('should decorate the console only once', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      restore = Context.decorateConsole();
+      Context.decorateConsole();
+
+      Context.run({ requestId: 'req-1' }, () => console.log('inside'));
+
+      expect(log).toHaveBeenCalledExactlyOnceWith('[req-1]', 'inside');
+    });
+  });
+});
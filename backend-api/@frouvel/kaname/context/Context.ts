@@ -0,0 +1,164 @@
+/**
+ * Context Module
+ *
+ * Data shared by everything running in the same async execution, e.g. the
+ * id of the request being handled. Inspired by Laravel's Context facade.
+ *
+ * The HttpKernel opens a context per request, so logs, Prisma query logs,
+ * console output and problem responses carry the request id without
+ * passing the request around.
+ *
+ * @example
+ * Context.add('tenantId', tenant.id);
+ *
+ * // Anywhere down the call stack of the same request
+ * Context.requestId(); // '5f0c…'
+ * Context.get('tenantId');
+ *
+ * Hidden values, e.g. the authenticated user, are shared the same way but
+ * left out of all(), and so out of the logs.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Values of the current context
+ */
+export type ContextData = Record<string, unknown>;
+
+/**
+ * The values and hidden values of a context
+ * @internal
+ */
+interface ContextStore {
+  data: ContextData;
+  hidden: ContextData;
+}
+
+/**
+ * The context of the current async execution
+ * @internal
+ */
+const storage = new AsyncLocalStorage<ContextStore>();
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+/**
+ * Original console methods, while the console is decorated
+ * @internal
+ */
+let originalConsole: Pick<Console, ConsoleMethod> | null = null;
+
+export const Context = {
+  /**
+   * Run a callback in a new context, inheriting the values of the
+   * current one
+   */
+  run: <T>(data: ContextData, callback: () => T): T => {
+    const store = storage.getStore();
+    return storage.run(
+      {
+        data: { ...store?.data, ...data },
+        hidden: { ...store?.hidden },
+      },
+      callback,
+    );
+  },
+
+  /**
+   * Determine if a context is active
+   */
+  active: (): boolean => {
+    return storage.getStore() !== undefined;
+  },
+
+  /**
+   * Get a value of the current context
+   */
+  get: <T = unknown>(key: string): T | undefined => {
+    return storage.getStore()?.data[key] as T | undefined;
+  },
+
+  /**
+   * Add a value to the current context
+   *
+   * Outside of a context the value is dropped.
+   */
+  add: (key: string, value: unknown): void => {
+    const store = storage.getStore();
+    if (store) {
+      store.data[key] = value;
+    }
+  },
+
+  /**
+   * Get all values of the current context, without the hidden ones
+   */
+  all: (): ContextData => {
+    return { ...storage.getStore()?.data };
+  },
+
+  /**
+   * Get a hidden value of the current context
+   */
+  getHidden: <T = unknown>(key: string): T | undefined => {
+    return storage.getStore()?.hidden[key] as T | undefined;
+  },
+
+  /**
+   * Add a value to the current context, hidden from all() and the logs
+   *
+   * Outside of a context the value is dropped.
+   */
+  addHidden: (key: string, value: unknown): void => {
+    const store = storage.getStore();
+    if (store) {
+      store.hidden[key] = value;
+    }
+  },
+
+  /**
+   * Get the id of the request being handled
+   */
+  requestId: (): string | undefined => {
+    return Context.get<string>('requestId');
+  },
+
+  /**
+   * Prefix console output made inside a request with its id
+   *
+   * Returns a function restoring the original console.
+   */
+  decorateConsole: (): (() => void) => {
+    if (!originalConsole) {
+      const methods: ConsoleMethod[] = [
+        'log',
+        'info',
+        'warn',
+        'error',
+        'debug',
+      ];
+      const original = Object.fromEntries(
+        methods.map((method) => [method, console[method]]),
+      ) as Pick<Console, ConsoleMethod>;
+
+      methods.forEach((method) => {
+        console[method] = (...args: unknown[]) => {
+          const requestId = Context.requestId();
+          return requestId
+            ? original[method](`[${requestId}]`, ...args)
+            : original[method](...args);
+        };
+      });
+
+      originalConsole = original;
+    }
+
+    return () => {
+      if (originalConsole) {
+        Object.assign(console, originalConsole);
+        originalConsole = null;
+      }
+    };
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Request ID Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveRequestId } from './RequestId';
+
+const UUID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('resolveRequestId', () => {
+  it('should accept a valid incoming id', () => {
+    expect(resolveRequestId('abc-123_x.y:z')).toBe('abc-123_x.y:z');
+    expect(resolveRequestId(['first', 'second'])).toBe('first');
+  });
+
+  it('should generate an id when none is sent', () => {
+    expect(resolveRequestId(undefined)).toMatch(UUID);
+    expect(resolveRequestId('')).toMatch(UUID);
+  });
+
+  it('should reject ids that could break logs or headers', () => {
+    expect(resolveRequestId('abc\nforged log line')).toMatch(UUID);
+    expect(resolveRequestId('a'.repeat(129))).toMatch(UUID);
+  });
+
+  it('should ignore incoming ids unless trusted', () => {
+    expect(resolveRequestId('abc', { trustIncoming: false })).toMatch(UUID);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Request ID
+ *
+ * Accepts the id an upstream proxy or client sent in the request id header,
+ * or generates a new one.
+ */
+
+import { randomUUID } from 'crypto';
+
+export const DEFAULT_REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Incoming ids are only accepted when they are short and cannot break log
+ * lines or response headers
+ */
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface RequestIdOptions {
+  /**
+   * Accept the id sent by the client instead of always generating one
+   */
+  trustIncoming?: boolean;
+}
+
+/**
+ * Generate a new request id
+ */
+export function generateRequestId(): string {
+  return randomUUID();
+}
+
+/**
+ * Get the id of a request from the value of its request id header
+ */
+export function resolveRequestId(
+  header: string | string[] | undefined,
+  options: RequestIdOptions = {},
+): string {
+  const incoming = Array.isArray(header) ? header[0] : header;
+
+  if (
+    options.trustIncoming !== false &&
+    incoming !== undefined &&
+    VALID_REQUEST_ID.test(incoming)
+  ) {
+    return incoming;
+  }
+
+  return generateRequestId();
+}
@@ -0,0 +1,14 @@
+/**
+ * Context Module
+ *
+ * Async context shared by everything handling the same request.
+ */
+
+export { Context } from './Context';
+export type { ContextData } from './Context';
+export {
+  DEFAULT_REQUEST_ID_HEADER,
+  generateRequestId,
+  resolveRequestId,
+} from './RequestId';
+export type { RequestIdOptions } from './RequestId';
@@ -3,10 +3,11 @@
  *
  * This service provides:
  * - Connection pool configuration via environment variables
- * - Graceful shutdown handling
+ * - Disconnection on application termination (see DatabaseServiceProvider)
  * - Connection retry logic
  * - Health check functionality
  * - Proper cleanup and error handling
+ * - Query logging in development, tagged with the current request id
  *
  * Environment Variables:
  * - DATABASE_CONNECTION_POOL_SIZE: Max connections in pool (default: 10)
@@ -16,6 +17,8 @@
 
 import { PrismaClient } from '@prisma/client';
 import { pagination } from '$/@frouvel/kaname/paginator';
+import { queryLog } from './queryLog';
+import { Log } from '../log/Log';
 
 let prisma: ReturnType<typeof createPrismaClient> | null = null;
 
@@ -39,6 +42,8 @@ function createPrismaClient() {
     enhancedUrl = `${databaseUrl}${separator}connection_limit=${connectionPoolSize}&pool_timeout=${poolTimeout}&connect_timeout=${connectionTimeout}`;
   }
 
+  const logQueries = process.env.NODE_ENV === 'development';
+
   const client = new PrismaClient({
     // Connection pool configuration
     datasources: {
@@ -46,17 +51,14 @@ function createPrismaClient() {
         url: enhancedUrl,
       },
     },
-    // Logging configuration
-    log:
-      process.env.NODE_ENV === 'development'
-        ? ['query', 'info', 'warn', 'error']
-        : ['warn', 'error'],
+    // Logging configuration (queries are logged by the queryLog extension)
+    log: logQueries ? ['info', 'warn', 'error'] : ['warn', 'error'],
     // Error formatting
     errorFormat: 'pretty',
   });
 
   // Apply pagination extension
-  return client.$extends(
+  const extended = client.$extends(
     pagination({
       pages: {
         limit: 10,
@@ -67,6 +69,8 @@ function createPrismaClient() {
       },
     })
   );
+
+  return logQueries ? extended.$extends(queryLog) : extended;
 }
 
 export const getPrismaClient = () => {
@@ -75,40 +79,14 @@ export const getPrismaClient = () => {
 
     // Test connection on initialization
     prisma.$connect().catch((error) => {
-      console.error('Failed to connect to database on initialization:', error);
+      Log.error('Failed to connect to database on initialization', { error });
     });
-
-    // Graceful shutdown handling
-    const gracefulShutdown = async () => {
-      if (prisma) {
-        console.log('Disconnecting Prisma Client...');
-        try {
-          await prisma.$disconnect();
-          prisma = null;
-          console.log('Prisma Client disconnected');
-        } catch (error) {
-          console.error('Error during Prisma Client disconnect:', error);
-          prisma = null;
-        }
-      }
-    };
-
-    // Register shutdown handlers (only once)
-    if (!process.listenerCount('SIGINT')) {
-      process.on('SIGINT', gracefulShutdown);
-    }
-    if (!process.listenerCount('SIGTERM')) {
-      process.on('SIGTERM', gracefulShutdown);
-    }
-    if (!process.listenerCount('beforeExit')) {
-      process.on('beforeExit', gracefulShutdown);
-    }
   }
 
   return prisma;
 };
 
-// Function to manually disconnect (useful for testing)
+// Function to disconnect (called when the application terminates)
 export const disconnectPrismaClient = async (): Promise<void> => {
   if (prisma) {
     await prisma.$disconnect();
@@ -129,9 +107,9 @@ export const withRetry = async <T>(
       return await operation();
     } catch (error) {
       lastError = error as Error;
-      console.warn(
-        `Database operation failed (attempt ${attempt}/${maxRetries}):`,
-        error,
+      Log.warning(
+        `Database operation failed (attempt ${attempt}/${maxRetries})`,
+        { error },
       );
 
       if (attempt === maxRetries) {
@@ -163,7 +141,7 @@ export const checkDatabaseConnection = async (): Promise<boolean> => {
 
     return true;
   } catch (error) {
-    console.error('Database connection check failed after retries:', error);
+    Log.error('Database connection check failed after retries', { error });
 
     return false;
   }
@@ -175,7 +153,7 @@ export const resetPrismaConnection = async (): Promise<void> => {
     try {
       await prisma.$disconnect();
     } catch (error) {
-      console.warn('Error disconnecting stale connection:', error);
+      Log.warning('Error disconnecting stale connection', { error });
     }
     prisma = null;
   }
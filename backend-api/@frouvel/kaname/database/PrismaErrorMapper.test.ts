@@ -0,0 +1,99 @@
+/**
+ * Prisma Error Mapper Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Application } from '../foundation/Application';
+import { PrismaErrorMapper } from './PrismaErrorMapper';
+import {
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../error/CommonErrors';
+
+/**
+ * Build an error shaped like the ones of the Prisma client
+ */
+const prismaError = (
+  name: string,
+  fields: { code?: string; errorCode?: string; meta?: object } = {},
+) =>
+  Object.assign(new Error('Invalid `prisma.user.create()` invocation'), {
+    name,
+    ...fields,
+  });
+
+const knownError = (code: string, meta?: object) =>
+  prismaError('PrismaClientKnownRequestError', { code, meta });
+
+describe('PrismaErrorMapper', () => {
+  let app: Application;
+  let mapper: PrismaErrorMapper;
+
+  beforeEach(() => {
+    app = new Application('/tmp');
+    mapper = app.make(PrismaErrorMapper);
+  });
+
+  it('should map unique constraint failures to 409 with the fields', () => {
+    const error = mapper.map(
+      knownError('P2002', { modelName: 'User', target: ['email'] }),
+    );
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error?.toProblemDetails()).toMatchObject({
+      status: 409,
+      code: 'CONFLICT',
+      prismaCode: 'P2002',
+      fields: ['email'],
+      model: 'User',
+    });
+  });
+
+  it('should map the default error codes', () => {
+    expect(mapper.map(knownError('P2025'))).toBeInstanceOf(NotFoundError);
+    expect(
+      mapper.map(knownError('P2003', { field_name: 'posts_userId_fkey' })),
+    ).toBeInstanceOf(ConflictError);
+    expect(
+      mapper.map(knownError('P2000', { column_name: 'name' }))?.details,
+    ).toMatchObject({ fields: ['name'] });
+    expect(mapper.map(knownError('P2024'))).toBeInstanceOf(
+      ServiceUnavailableError,
+    );
+  });
+
+  it('should map initialization errors to 503', () => {
+    const error = mapper.map(
+      prismaError('PrismaClientInitializationError', { errorCode: 'P1001' }),
+    );
+
+    expect(error).toBeInstanceOf(ServiceUnavailableError);
+    expect(
+      mapper.map(prismaError('PrismaClientInitializationError')),
+    ).toBeInstanceOf(ServiceUnavailableError);
+  });
+
+  it('should not expose the Prisma message', () => {
+    expect(mapper.map(knownError('P2025'))?.message).toBe(
+      'The requested record was not found.',
+    );
+  });
+
+  it('should leave unmapped and non-Prisma errors alone', () => {
+    expect(mapper.map(knownError('P2034'))).toBeNull();
+    expect(mapper.map(new Error('P2002'))).toBeNull();
+  });
+
+  it('should apply overrides from config/database.ts', () => {
+    app.instance('config', {
+      database: { errors: { P2002: 400, P2025: null, P2034: 500 } },
+    });
+
+    expect(mapper.map(knownError('P2002'))).toBeInstanceOf(BadRequestError);
+    expect(mapper.map(knownError('P2025'))).toBeNull();
+    expect(mapper.map(knownError('P2034'))).toBeInstanceOf(InternalServerError);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Prisma Error Mapper
+ *
+ * Translates Prisma client errors into framework errors, so the
+ * ExceptionHandler answers them with RFC9457 problems instead of raw 500s.
+ *
+ * The HTTP status of each Prisma error code can be changed in the `errors`
+ * section of config/database.ts.
+ *
+ * @see https://www.prisma.io/docs/orm/reference/error-reference
+ */
+
+import type { Application } from '../foundation/Application';
+import type { AbstractFrourioFrameworkError } from '../error/FrourioFrameworkError';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+  ServiceUnavailableError,
+  UnauthorizedError,
+} from '../error/CommonErrors';
+
+/**
+ * HTTP status per Prisma error code
+ */
+export const DEFAULT_PRISMA_ERROR_STATUSES: Record<string, number> = {
+  // Value too long for the column
+  P2000: 400,
+  // Unique constraint failed
+  P2002: 409,
+  // Foreign key constraint failed
+  P2003: 409,
+  // Record required by the operation not found
+  P2025: 404,
+  // Database server unreachable / connection timed out
+  P1001: 503,
+  P1002: 503,
+  // Operation timed out
+  P1008: 503,
+  // Server closed the connection
+  P1017: 503,
+  // Timed out fetching a connection from the pool
+  P2024: 503,
+};
+
+/**
+ * The fields the mapper reads from Prisma errors
+ *
+ * Errors are recognized by name, so the mapper works with every Prisma
+ * engine and does not need a generated client.
+ */
+interface PrismaError extends Error {
+  code?: string;
+  errorCode?: string;
+  meta?: Record<string, unknown>;
+}
+
+const PRISMA_ERRORS = [
+  'PrismaClientKnownRequestError',
+  'PrismaClientInitializationError',
+];
+
+const ERROR_CLASSES: Record<
+  number,
+  {
+    create: (
+      message: string,
+      details?: Record<string, any>,
+    ) => AbstractFrourioFrameworkError;
+  }
+> = {
+  400: BadRequestError,
+  401: UnauthorizedError,
+  403: ForbiddenError,
+  404: NotFoundError,
+  409: ConflictError,
+  503: ServiceUnavailableError,
+};
+
+export class PrismaErrorMapper {
+  static readonly inject = ['app'] as const;
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Determine if the error was raised by the Prisma client
+   */
+  static isPrismaError(error: unknown): error is PrismaError {
+    return error instanceof Error && PRISMA_ERRORS.includes(error.name);
+  }
+
+  /**
+   * Get the HTTP status of every mapped Prisma error code
+   */
+  statuses(): Record<string, number> {
+    const overrides: Record<string, number | null> = this._app.has('config')
+      ? (this._app.make('config').database?.errors ?? {})
+      : {};
+    const statuses = { ...DEFAULT_PRISMA_ERROR_STATUSES };
+
+    Object.entries(overrides).forEach(([code, status]) => {
+      if (status === null) {
+        delete statuses[code];
+      } else {
+        statuses[code] = status;
+      }
+    });
+
+    return statuses;
+  }
+
+  /**
+   * Map a Prisma error to a framework error, or null if it is not mapped
+   */
+  map(error: unknown): AbstractFrourioFrameworkError | null {
+    if (!PrismaErrorMapper.isPrismaError(error)) {
+      return null;
+    }
+
+    const code = error.code ?? error.errorCode;
+    const status = this.status(error, code);
+    if (status === undefined) {
+      return null;
+    }
+
+    const ErrorClass = ERROR_CLASSES[status] ?? InternalServerError;
+
+    return ErrorClass.create(describe(code), {
+      prismaCode: code,
+      ...details(error.meta),
+    });
+  }
+
+  private status(error: PrismaError, code?: string): number | undefined {
+    const statuses = this.statuses();
+    if (code && code in statuses) {
+      return statuses[code];
+    }
+
+    // Failing to start the engine or to reach the database
+    return error.name === 'PrismaClientInitializationError' ? 503 : undefined;
+  }
+}
+
+/**
+ * Describe the error without exposing queries or connection strings
+ */
+function describe(code?: string): string {
+  switch (code) {
+    case 'P2000':
+      return 'The provided value is too long for the field.';
+    case 'P2002':
+      return 'A record with the same unique value already exists.';
+    case 'P2003':
+      return 'The operation violates a relation to another record.';
+    case 'P2025':
+      return 'The requested record was not found.';
+    default:
+      return code?.startsWith('P1') || code === 'P2024'
+        ? 'The database is temporarily unavailable.'
+        : 'The database request failed.';
+  }
+}
+
+/**
+ * Pick the fields, model and column names Prisma reports in `meta`
+ */
+function details(meta?: Record<string, unknown>): Record<string, unknown> {
+  if (!meta) {
+    return {};
+  }
+
+  const fields = meta.target ?? meta.field_name ?? meta.column_name;
+  const result: Record<string, unknown> = {};
+
+  if (fields !== undefined) {
+    result.fields = Array.isArray(fields) ? fields : [fields];
+  }
+  if (typeof meta.modelName === 'string') {
+    result.model = meta.modelName;
+  }
+
+  return result;
+}
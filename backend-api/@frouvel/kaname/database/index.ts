@@ -10,4 +10,9 @@ export {
   withRetry,
   checkDatabaseConnection,
   resetPrismaConnection,
-} from './PrismaClientManager';
\ No newline at end of file
+} from './PrismaClientManager';
+
+export {
+  PrismaErrorMapper,
+  DEFAULT_PRISMA_ERROR_STATUSES,
+} from './PrismaErrorMapper';
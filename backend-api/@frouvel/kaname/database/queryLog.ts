@@ -0,0 +1,37 @@
+/**
+ * Query Log Extension
+ *
+ * Logs every Prisma operation with its arguments and duration; passwords
+ * and tokens in the arguments are masked by the log redactor. Unlike
+ * Prisma's `query` log events, the extension runs in the async context of
+ * the caller, so queries made while handling a request carry its id.
+ */
+
+import { Log } from '../log/Log';
+
+interface QueryParams {
+  model?: string;
+  operation: string;
+  args: unknown;
+  query: (args: unknown) => Promise<unknown>;
+}
+
+export const queryLog = {
+  name: 'queryLog',
+  query: {
+    async $allOperations({ model, operation, args, query }: QueryParams) {
+      const start = performance.now();
+
+      try {
+        return await query(args);
+      } finally {
+        const target = model ? `${model}.${operation}` : operation;
+
+        Log.debug(`prisma:query ${target}`, {
+          args,
+          durationMs: Math.round((performance.now() - start) * 10) / 10,
+        });
+      }
+    },
+  },
+};
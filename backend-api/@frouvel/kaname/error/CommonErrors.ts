@@ -119,6 +119,30 @@ export class BadRequestError extends AbstractFrourioFrameworkError {
   }
 }
 
+/**
+ * Conflict Error - thrown when a request conflicts with the current state
+ * (e.g. a unique constraint)
+ */
+export class ConflictError extends AbstractFrourioFrameworkError {
+  constructor(args: {
+    message: string;
+    details?: Record<string, any>;
+    instance?: string;
+  }) {
+    super({
+      message: args.message,
+      code: 'CONFLICT',
+      details: args.details,
+      instance: args.instance,
+      typeUri: 'https://example.com/errors/conflict',
+    });
+  }
+
+  static create(message: string, details?: Record<string, any>) {
+    return new ConflictError({ message, details });
+  }
+}
+
 /**
  * Internal Server Error - thrown when an unexpected error occurs
  */
@@ -141,3 +165,121 @@ export class InternalServerError extends AbstractFrourioFrameworkError {
     return new InternalServerError({ message, details });
   }
 }
+
+/**
+ * Service Unavailable Error - thrown when the application cannot serve requests
+ * (e.g. maintenance mode)
+ */
+export class ServiceUnavailableError extends AbstractFrourioFrameworkError {
+  constructor(args: {
+    message: string;
+    details?: Record<string, any>;
+    instance?: string;
+  }) {
+    super({
+      message: args.message,
+      code: 'SERVICE_UNAVAILABLE',
+      details: args.details,
+      instance: args.instance,
+      typeUri: 'https://example.com/errors/service-unavailable',
+    });
+  }
+
+  static create(message: string, details?: Record<string, any>) {
+    return new ServiceUnavailableError({ message, details });
+  }
+}
+
+/**
+ * Too Many Requests Error - thrown when a client exceeds a rate limit
+ */
+export class TooManyRequestsError extends AbstractFrourioFrameworkError {
+  constructor(args: {
+    message: string;
+    details?: Record<string, any>;
+    instance?: string;
+  }) {
+    super({
+      message: args.message,
+      code: 'TOO_MANY_REQUESTS',
+      details: args.details,
+      instance: args.instance,
+      typeUri: 'https://example.com/errors/too-many-requests',
+    });
+  }
+
+  static create(message: string, details?: Record<string, any>) {
+    return new TooManyRequestsError({ message, details });
+  }
+}
+
+/**
+ * Invalid Token Error - thrown when an access token is malformed, has a
+ * bad signature or was issued for another issuer or audience
+ */
+export class InvalidTokenError extends AbstractFrourioFrameworkError {
+  constructor(args: {
+    message: string;
+    details?: Record<string, any>;
+    instance?: string;
+  }) {
+    super({
+      message: args.message,
+      code: 'INVALID_TOKEN',
+      details: args.details,
+      instance: args.instance,
+      typeUri: 'https://example.com/errors/invalid-token',
+    });
+  }
+
+  static create(message: string, details?: Record<string, any>) {
+    return new InvalidTokenError({ message, details });
+  }
+}
+
+/**
+ * Token Expired Error - thrown when an access token is past its expiry
+ */
+export class TokenExpiredError extends AbstractFrourioFrameworkError {
+  constructor(args: {
+    message: string;
+    details?: Record<string, any>;
+    instance?: string;
+  }) {
+    super({
+      message: args.message,
+      code: 'TOKEN_EXPIRED',
+      details: args.details,
+      instance: args.instance,
+      typeUri: 'https://example.com/errors/token-expired',
+    });
+  }
+
+  static create(message: string, details?: Record<string, any>) {
+    return new TokenExpiredError({ message, details });
+  }
+}
+
+/**
+ * Insufficient Permissions Error - thrown when a valid token lacks the
+ * scope required by a route
+ */
+export class InsufficientPermissionsError extends AbstractFrourioFrameworkError {
+  constructor(args: {
+    message: string;
+    details?: Record<string, any>;
+    instance?: string;
+  }) {
+    super({
+      message: args.message,
+      code: 'INSUFFICIENT_PERMISSIONS',
+      details: args.details,
+      instance: args.instance,
+      typeUri: 'https://example.com/errors/insufficient-permissions',
+    });
+  }
+
+  static create(message: string, details?: Record<string, any>) {
+    return new InsufficientPermissionsError({ message, details });
+  }
+}
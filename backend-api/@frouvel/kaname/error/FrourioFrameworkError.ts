@@ -1,5 +1,6 @@
 import { DEFAULT_PROBLEM_TYPE } from '$/commonTypesWithClient/ProblemDetails.types';
 import type { ProblemDetails } from '.';
+import { Context } from '../context/Context';
 
 export enum ErrorCode {
   // General errors (1000-1999)
@@ -9,6 +10,9 @@ export enum ErrorCode {
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
   BAD_REQUEST = 'BAD_REQUEST',
+  CONFLICT = 'CONFLICT',
+  SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
 
   // User related errors (2000-2999)
   USER_ALREADY_EXISTS = 'USER_ALREADY_EXISTS',
@@ -39,6 +43,9 @@ export const ErrorCodeToHttpStatus: Record<ErrorCode, number> = {
   [ErrorCode.UNAUTHORIZED]: 401,
   [ErrorCode.FORBIDDEN]: 403,
   [ErrorCode.BAD_REQUEST]: 400,
+  [ErrorCode.CONFLICT]: 409,
+  [ErrorCode.SERVICE_UNAVAILABLE]: 503,
+  [ErrorCode.TOO_MANY_REQUESTS]: 429,
 
   [ErrorCode.USER_ALREADY_EXISTS]: 409,
   [ErrorCode.USER_NOT_FOUND]: 404,
@@ -115,6 +122,12 @@ export abstract class AbstractFrourioFrameworkError extends Error {
     // Add timestamp as extension member
     problemDetails.timestamp = this.timestamp.toISOString();
 
+    // Add the id of the current request as extension member
+    const requestId = Context.requestId();
+    if (requestId) {
+      problemDetails.requestId = requestId;
+    }
+
     // Add details as extension members if provided
     if (this.details) {
       Object.entries(this.details).forEach(([key, value]) => {
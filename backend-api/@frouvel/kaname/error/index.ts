@@ -18,7 +18,13 @@ export {
   UnauthorizedError,
   ForbiddenError,
   BadRequestError,
+  ConflictError,
   InternalServerError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  InvalidTokenError,
+  TokenExpiredError,
+  InsufficientPermissionsError,
 } from './CommonErrors';
 
 // Re-export RFC9457 types for convenience
@@ -0,0 +1,293 @@
+/**
+ * Application Lifecycle Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Application, type ServiceProvider } from './Application';
+import { createToken } from '../container/ServiceToken';
+import type { ServiceIdentifier } from '../container/Container';
+import { Log } from '../log/Log';
+
+const events: string[] = [];
+
+class FirstProvider implements ServiceProvider {
+  register(): void {}
+
+  boot(): void {
+    events.push('first:boot');
+  }
+
+  terminate(): void {
+    events.push('first:terminate');
+  }
+}
+
+class DeferredProvider implements ServiceProvider {
+  provides(): ServiceIdentifier[] {
+    return [createToken<string>('deferred')];
+  }
+
+  register(app: Application): void {
+    app.singleton(createToken<string>('deferred'), () => 'deferred');
+  }
+
+  terminate(): void {
+    events.push('deferred:terminate');
+  }
+}
+
+class LastProvider implements ServiceProvider {
+  register(): void {}
+
+  async terminate(): Promise<void> {
+    await Promise.resolve();
+    events.push('last:terminate');
+  }
+}
+
+describe('Application lifecycle', () => {
+  let basePath: string;
+  let app: Application;
+
+  beforeEach(() => {
+    basePath = mkdtempSync(join(tmpdir(), 'kaname-app-'));
+    app = new Application(basePath);
+    events.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(basePath, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('should run booting and booted callbacks around provider boot', async () => {
+    app.registerProviders([FirstProvider]);
+    app.booting(() => {
+      events.push('booting');
+    });
+    app.booted(() => {
+      events.push('booted');
+    });
+
+    await app.boot();
+
+    expect(events).toEqual(['booting', 'first:boot', 'booted']);
+  });
+
+  it('should run booted callbacks registered after boot immediately', async () => {
+    await app.boot();
+
+    app.booted(() => {
+      events.push('booted');
+    });
+
+    expect(events).toEqual(['booted']);
+  });
+
+  it('should pre-warm async services before providers boot', async () => {
+    const CLIENT = createToken<{ connected: boolean }>('client');
+    app.singletonAsync(CLIENT, async () => {
+      await Promise.resolve();
+      events.push('client:connect');
+      return { connected: true };
+    });
+    app.prewarm(CLIENT);
+    app.registerProviders([FirstProvider]);
+
+    await app.boot();
+
+    expect(events).toEqual(['client:connect', 'first:boot']);
+    expect(app.make(CLIENT).connected).toBe(true);
+  });
+
+  it('should terminate callbacks, then providers in reverse registration order', async () => {
+    app.registerProviders([FirstProvider, DeferredProvider, LastProvider]);
+    app.terminating(() => {
+      events.push('callback:first');
+    });
+    app.terminating(() => {
+      events.push('callback:last');
+    });
+
+    // Loaded last, but declared between the other providers
+    app.make(createToken<string>('deferred'));
+    await app.terminate();
+
+    expect(events).toEqual([
+      'callback:last',
+      'callback:first',
+      'last:terminate',
+      'deferred:terminate',
+      'first:terminate',
+    ]);
+  });
+
+  it('should not terminate deferred providers that were never loaded', async () => {
+    app.registerProviders([FirstProvider, DeferredProvider]);
+
+    await app.terminate();
+
+    expect(events).toEqual(['first:terminate']);
+  });
+
+  it('should only terminate once', async () => {
+    app.registerProviders([FirstProvider]);
+
+    await Promise.all([app.terminate(), app.terminate()]);
+
+    expect(events).toEqual(['first:terminate']);
+    expect(app.isTerminating()).toBe(true);
+  });
+
+  it('should skip terminators that fail or time out', async () => {
+    vi.useFakeTimers();
+    const logs = Log.fake();
+    app.registerProviders([FirstProvider]);
+    app.terminating(() => {
+      throw new Error('failed');
+    });
+    app.terminating(() => new Promise<void>(() => {}));
+
+    const terminated = app.terminate(100);
+    await vi.advanceTimersByTimeAsync(100);
+    await terminated;
+
+    expect(events).toEqual(['first:terminate']);
+    const errors = logs.logged('error');
+    expect(errors).toHaveLength(2);
+    expect(String(errors[0].context.error)).toContain(
+      'did not terminate within 100ms',
+    );
+    Log.setManager(null);
+  });
+});
+
+describe('Provider dependencies', () => {
+  let basePath: string;
+  let app: Application;
+
+  const GREETING = createToken<string>('greeting');
+
+  class GreetingProvider implements ServiceProvider {
+    register(app: Application): void {
+      app.singleton(GREETING, () => 'hello');
+    }
+
+    boot(): void {
+      events.push('greeting:boot');
+    }
+  }
+
+  class NeedsGreetingProvider implements ServiceProvider {
+    dependsOn(): ServiceIdentifier[] {
+      return [GREETING];
+    }
+
+    register(): void {}
+
+    boot(): void {
+      events.push('needs-greeting:boot');
+    }
+  }
+
+  class NeedsProviderClass implements ServiceProvider {
+    dependsOn() {
+      return [NeedsGreetingProvider];
+    }
+
+    register(): void {}
+
+    boot(): void {
+      events.push('needs-provider:boot');
+    }
+  }
+
+  beforeEach(() => {
+    basePath = mkdtempSync(join(tmpdir(), 'kaname-app-'));
+    app = new Application(basePath);
+    events.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(basePath, { recursive: true, force: true });
+  });
+
+  it('should boot providers after the providers they depend on', async () => {
+    app.registerProviders([
+      NeedsProviderClass,
+      NeedsGreetingProvider,
+      GreetingProvider,
+    ]);
+
+    await app.boot();
+
+    expect(events).toEqual([
+      'greeting:boot',
+      'needs-greeting:boot',
+      'needs-provider:boot',
+    ]);
+    expect(app.getProviders().map((p) => p.constructor.name)).toEqual([
+      'GreetingProvider',
+      'NeedsGreetingProvider',
+      'NeedsProviderClass',
+    ]);
+  });
+
+  it('should record the keys bound by each provider', () => {
+    app.registerProviders([GreetingProvider]);
+
+    expect(app.providerBindings(app.getProviders()[0])).toEqual(['greeting']);
+  });
+
+  it('should report dependency cycles', async () => {
+    class First implements ServiceProvider {
+      dependsOn() {
+        return [Second];
+      }
+      register(): void {}
+    }
+    class Second implements ServiceProvider {
+      dependsOn() {
+        return [First];
+      }
+      register(): void {}
+    }
+    app.registerProviders([First, Second]);
+
+    await expect(app.boot()).rejects.toThrow(
+      'Circular provider dependency: First -> Second -> First',
+    );
+  });
+
+  it('should fail on dependencies nobody provides', async () => {
+    app.registerProviders([NeedsGreetingProvider]);
+
+    await expect(app.boot()).rejects.toThrow(
+      'Provider [NeedsGreetingProvider] depends on [greeting], which is not bound.',
+    );
+  });
+
+  it('should warn when two providers bind the same key', () => {
+    const logs = Log.fake();
+    class OtherGreetingProvider implements ServiceProvider {
+      register(app: Application): void {
+        app.singleton(GREETING, () => 'hi');
+      }
+    }
+
+    app.registerProviders([GreetingProvider, OtherGreetingProvider]);
+
+    expect(logs.records).toMatchObject([
+      {
+        level: 'warning',
+        message:
+          '[greeting] is bound by both [GreetingProvider] and [OtherGreetingProvider]; the binding of [OtherGreetingProvider] is used.',
+      },
+    ]);
+    expect(app.make(GREETING)).toBe('hi');
+    Log.setManager(null);
+  });
+});
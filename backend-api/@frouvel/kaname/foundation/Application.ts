@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /**
  * Application Container
  *
@@ -6,31 +7,120 @@
  */
 
 import type { FastifyInstance } from 'fastify';
+import { Container, keyName } from '../container/Container';
+import type { ServiceIdentifier } from '../container/Container';
+import { ProviderRepository } from './ProviderRepository';
+import type { ServiceProviderClass } from './ProviderRepository';
+import { providerName, sortProviders } from './sortProviders';
+import { Log } from '../log/Log';
+import { LogManager } from '../log/LogManager';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    app: Application;
+    fastify: FastifyInstance;
+  }
+}
 
 export interface ServiceProvider {
   register(app: Application): void | Promise<void>;
   boot?(app: Application): void | Promise<void>;
+
+  /**
+   * The services provided by a deferred provider
+   *
+   * Providers implementing this are only registered and booted when one
+   * of these services is first resolved.
+   */
+  provides?(): ServiceIdentifier[];
+
+  /**
+   * Providers or services this provider needs at boot time
+   *
+   * Providers are booted after the providers they depend on, including the
+   * providers binding the listed services.
+   */
+  dependsOn?(): Array<ServiceProviderClass | ServiceIdentifier>;
+
+  /**
+   * Release resources when the application terminates
+   *
+   * Providers are terminated in reverse boot order.
+   */
+  terminate?(app: Application): void | Promise<void>;
+}
+
+/**
+ * Callback run at a point of the application lifecycle
+ */
+export type LifecycleCallback = (app: Application) => void | Promise<void>;
+
+interface DeferredProvider {
+  name: string;
+  keys: string[];
+  resolve: () => ServiceProvider;
+  order: number;
 }
 
-export class Application {
-  private readonly _bindings: Map<string, any> = new Map();
-  private readonly _singletons: Map<string, any> = new Map();
-  private readonly _singletonInstances: Map<string, any> = new Map();
+export class Application extends Container {
+  /**
+   * Default time (ms) a single terminator may take
+   */
+  static readonly terminationTimeout = 10_000;
+
+  private static _instance: Application | null = null;
+
   private readonly _providers: ServiceProvider[] = [];
+  private readonly _providerOrder: Map<ServiceProvider, number> = new Map();
+  private readonly _bindingOwners: Map<string, ServiceProvider> = new Map();
+  private _registering: ServiceProvider | null = null;
+  private readonly _deferredServices: Map<string, DeferredProvider> = new Map();
+  private readonly _deferredBoots: Map<string, Promise<void>> = new Map();
+  private readonly _bootingCallbacks: LifecycleCallback[] = [];
+  private readonly _bootedCallbacks: LifecycleCallback[] = [];
+  private readonly _terminatingCallbacks: LifecycleCallback[] = [];
+  private readonly _prewarmed: ServiceIdentifier[] = [];
+  private _declaredProviders: number = 0;
   private _booted: boolean = false;
+  private _terminating: Promise<void> | null = null;
   private _basePath: string;
   private _fastifyInstance: FastifyInstance | null = null;
 
   constructor(basePath: string) {
+    super();
     this._basePath = basePath;
     this.registerBaseBindings();
+    Application.setInstance(this);
+  }
+
+  /**
+   * Get the current application, the one created last
+   *
+   * Used by helpers such as config() and by controllers, so they follow
+   * the application a test created instead of a module-level instance.
+   */
+  static getInstance(): Application {
+    if (!Application._instance) {
+      throw new Error(
+        'No application instance. Create one with createApplication() of bootstrap/app.ts.',
+      );
+    }
+    return Application._instance;
+  }
+
+  /**
+   * Set the current application
+   */
+  static setInstance(app: Application | null): void {
+    Application._instance = app;
   }
 
   /**
    * Register base application bindings
    */
   private registerBaseBindings(): void {
-    this._singletons.set('app', this);
+    this.instance('app', this);
+    this.singleton('log', LogManager);
   }
 
   /**
@@ -55,59 +145,204 @@ export class Application {
   }
 
   /**
-   * Bind a service to the container
+   * Register service providers, deferring the ones that declare provides()
+   */
+  registerProviders(providers: ServiceProviderClass[]): void {
+    new ProviderRepository(this).load(providers);
+  }
+
+  /**
+   * Register a service provider instance or class
    */
-  bind<T>(key: string, factory: () => T): void {
-    this._bindings.set(key, factory);
+  register(provider: ServiceProvider | ServiceProviderClass): void {
+    const instance =
+      typeof provider === 'function' ? this.make(provider) : provider;
+
+    if (instance.provides) {
+      this.addDeferredProvider(
+        instance.provides(),
+        () => instance,
+        providerName(instance),
+      );
+      return;
+    }
+
+    this.registerProvider(instance, this._declaredProviders++);
   }
 
   /**
-   * Bind a singleton to the container
+   * Register a provider to be loaded when one of its services is resolved
    */
-  singleton<T>(key: string, factory: () => T): void {
-    this._singletons.set(key, factory);
+  addDeferredProvider(
+    keys: Array<ServiceIdentifier | string>,
+    resolve: () => ServiceProvider,
+    name: string,
+  ): void {
+    const names = keys.map((key) =>
+      typeof key === 'string' ? key : keyName(key),
+    );
+    const deferred: DeferredProvider = {
+      name,
+      keys: names,
+      resolve,
+      order: this._declaredProviders++,
+    };
+
+    names.forEach((name) => this._deferredServices.set(name, deferred));
   }
 
   /**
-   * Resolve a service from the container
+   * Get the services provided by deferred providers that are not loaded yet
    */
-  make<T>(key: string): T {
-    // Check singletons first
-    if (this._singletons.has(key)) {
-      // Return cached instance if it exists
-      if (this._singletonInstances.has(key)) {
-        return this._singletonInstances.get(key);
-      }
-      
-      // Create and cache the instance
-      const factory = this._singletons.get(key);
-      const instance = typeof factory === 'function' ? factory() : factory;
-      this._singletonInstances.set(key, instance);
-      return instance;
+  deferredServices(): string[] {
+    return [...this._deferredServices.keys()];
+  }
+
+  /**
+   * Get the deferred providers that are not loaded yet
+   */
+  deferredProviders(): Array<{ name: string; keys: string[] }> {
+    return [...new Set(this._deferredServices.values())].map(
+      ({ name, keys }) => ({ name, keys }),
+    );
+  }
+
+  /**
+   * Get the loaded providers, in boot order once the application is booted
+   */
+  getProviders(): ServiceProvider[] {
+    return [...this._providers];
+  }
+
+  /**
+   * Get the keys bound by the given provider
+   */
+  providerBindings(provider: ServiceProvider): string[] {
+    return [...this._bindingOwners]
+      .filter(([, owner]) => owner === provider)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Check if a service is bound or provided by a deferred provider
+   */
+  has(key: ServiceIdentifier): boolean {
+    return super.has(key) || this._deferredServices.has(this.getAlias(key));
+  }
+
+  /**
+   * Get all bound keys, including services of deferred providers
+   */
+  keys(): string[] {
+    return [...new Set([...super.keys(), ...this._deferredServices.keys()])];
+  }
+
+  /**
+   * Load the deferred provider of a service on first resolution
+   */
+  protected loadDeferredBinding(name: string): boolean {
+    const deferred = this._deferredServices.get(name);
+    if (!deferred) {
+      return false;
     }
 
-    // Check bindings
-    if (this._bindings.has(key)) {
-      const factory = this._bindings.get(key);
-      return factory();
+    deferred.keys.forEach((key) => this._deferredServices.delete(key));
+    const provider = deferred.resolve();
+    this.registerProvider(provider, deferred.order);
+
+    // Providers loaded before boot() are booted with the others. make()
+    // returns before an async boot() settles; makeAsync() waits for it
+    if (this._booted && provider.boot) {
+      const booting = Promise.resolve(provider.boot(this));
+      deferred.keys.forEach((key) => this._deferredBoots.set(key, booting));
+      booting.catch((error) => {
+        Log.error(`Failed to boot deferred provider for [${name}]`, {
+          error,
+        });
+      });
     }
 
-    throw new Error(`Service [${key}] not found in container`);
+    return true;
   }
 
   /**
-   * Check if a service is bound
+   * Get the boot() of the deferred provider of a service, if it was loaded
+   * after the application booted
    */
-  has(key: string): boolean {
-    return this._bindings.has(key) || this._singletons.has(key);
+  protected bindingReady(name: string): Promise<void> | undefined {
+    return this._deferredBoots.get(name);
+  }
+
+  private registerProvider(provider: ServiceProvider, order: number): void {
+    this._providers.push(provider);
+    this._providerOrder.set(provider, order);
+
+    this._registering = provider;
+    try {
+      provider.register(this);
+    } finally {
+      this._registering = null;
+    }
   }
 
   /**
-   * Register a service provider
+   * Record which provider binds a key, warning when two providers do
    */
-  register(provider: ServiceProvider): void {
-    this._providers.push(provider);
-    provider.register(this);
+  protected bindingAdded(name: string): void {
+    const provider = this._registering;
+    if (!provider) {
+      return;
+    }
+
+    const owner = this._bindingOwners.get(name);
+    if (owner && owner !== provider) {
+      Log.warning(
+        `[${name}] is bound by both [${providerName(owner)}] and [${providerName(provider)}]; the binding of [${providerName(provider)}] is used.`,
+      );
+    }
+
+    this._bindingOwners.set(name, provider);
+  }
+
+  /**
+   * Sort the given providers after the providers they depend on
+   */
+  private sortProviders(providers: ServiceProvider[]): ServiceProvider[] {
+    const order = (provider: ServiceProvider) =>
+      this._providerOrder.get(provider) ?? 0;
+
+    return sortProviders(
+      [...providers].sort((a, b) => order(a) - order(b)),
+      (provider) => this.providerDependencies(provider),
+    );
+  }
+
+  /**
+   * Resolve the loaded providers a provider depends on
+   */
+  private providerDependencies(provider: ServiceProvider): ServiceProvider[] {
+    const deferred = this.deferredProviders();
+
+    return (provider.dependsOn?.() ?? []).flatMap((dependency) => {
+      if (typeof dependency === 'function') {
+        const found = this._providers.find((p) => p instanceof dependency);
+        if (!found && !deferred.some((d) => d.name === dependency.name)) {
+          throw new Error(
+            `Provider [${providerName(provider)}] depends on [${dependency.name}], which is not registered.`,
+          );
+        }
+        return found ? [found] : [];
+      }
+
+      if (!this.has(dependency)) {
+        throw new Error(
+          `Provider [${providerName(provider)}] depends on [${keyName(dependency)}], which is not bound.`,
+        );
+      }
+
+      const owner = this._bindingOwners.get(this.getAlias(dependency));
+      return owner && owner !== provider ? [owner] : [];
+    });
   }
 
   /**
@@ -118,6 +353,16 @@ export class Application {
       return;
     }
 
+    for (const callback of this._bootingCallbacks) {
+      await callback(this);
+    }
+
+    // Providers can make() pre-warmed async services synchronously
+    await Promise.all(this._prewarmed.map((key) => this.makeAsync(key)));
+
+    const sorted = this.sortProviders(this._providers);
+    this._providers.splice(0, this._providers.length, ...sorted);
+
     for (const provider of this._providers) {
       if (provider.boot) {
         await provider.boot(this);
@@ -125,6 +370,97 @@ export class Application {
     }
 
     this._booted = true;
+
+    for (const callback of this._bootedCallbacks) {
+      await callback(this);
+    }
+  }
+
+  /**
+   * Resolve async services while the application boots, before providers
+   * are booted, so they can be resolved with make() afterwards
+   */
+  prewarm(keys: ServiceIdentifier | ServiceIdentifier[]): void {
+    this._prewarmed.push(...(Array.isArray(keys) ? keys : [keys]));
+  }
+
+  /**
+   * Register a callback to run before providers are booted
+   */
+  booting(callback: LifecycleCallback): void {
+    this._bootingCallbacks.push(callback);
+  }
+
+  /**
+   * Register a callback to run after providers are booted
+   *
+   * The callback runs immediately if the application is already booted.
+   */
+  booted(callback: LifecycleCallback): void {
+    this._bootedCallbacks.push(callback);
+
+    if (this._booted) {
+      Promise.resolve(callback(this)).catch((error) => {
+        Log.error('Booted callback failed', { error });
+      });
+    }
+  }
+
+  /**
+   * Register a callback to run when the application terminates
+   *
+   * Callbacks run in reverse registration order, before the providers
+   * are terminated.
+   */
+  terminating(callback: LifecycleCallback): void {
+    this._terminatingCallbacks.push(callback);
+  }
+
+  /**
+   * Terminate the application
+   *
+   * Runs the terminating callbacks, then terminate() of every registered
+   * provider in reverse registration order. A terminator failing or taking
+   * longer than the timeout is logged and skipped. Calling terminate()
+   * again returns the same promise.
+   */
+  terminate(timeout: number = Application.terminationTimeout): Promise<void> {
+    this._terminating ??= this.runTerminators(timeout);
+    return this._terminating;
+  }
+
+  /**
+   * Check if the application is terminating or terminated
+   */
+  isTerminating(): boolean {
+    return this._terminating !== null;
+  }
+
+  private async runTerminators(timeout: number): Promise<void> {
+    const providers = this.sortProviders(this._providers)
+      .filter((provider) => provider.terminate)
+      .reverse();
+
+    const terminators: Array<[string, LifecycleCallback]> = [
+      ...[...this._terminatingCallbacks]
+        .reverse()
+        .map((callback): [string, LifecycleCallback] => [
+          'terminating callback',
+          callback,
+        ]),
+      ...providers.map((provider): [string, LifecycleCallback] => [
+        provider.constructor.name,
+        (app) => provider.terminate?.(app),
+      ]),
+    ];
+
+    for (const [name, terminator] of terminators) {
+      try {
+        await withTimeout(terminator(this), timeout, name);
+      } catch (error) {
+        Log.error(`Failed to terminate ${name}`, { error });
+      }
+    }
   }
 
   /**
@@ -139,7 +475,7 @@ export class Application {
    */
   setFastifyInstance(instance: FastifyInstance): void {
     this._fastifyInstance = instance;
-    this.singleton('fastify', () => instance);
+    this.instance('fastify', instance);
   }
 
   /**
@@ -177,3 +513,27 @@ export class Application {
     return this.environment() === 'test';
   }
 }
+
+/**
+ * Reject when the given terminator result does not settle in time
+ * @internal
+ */
+async function withTimeout(
+  result: void | Promise<void>,
+  timeout: number,
+  name: string,
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${name} did not terminate within ${timeout}ms`)),
+      timeout,
+    );
+  });
+
+  try {
+    await Promise.race([result, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
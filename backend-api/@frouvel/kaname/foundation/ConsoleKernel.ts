@@ -15,8 +15,15 @@ import {
   BootProviders,
 } from './bootstrappers';
 import type { Command } from '../console/Command';
+import type { CommandClass } from '../console/tagCommands';
 import { Command as CommanderCommand } from 'commander';
 
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    ConsoleKernel: ConsoleKernel;
+  }
+}
+
 export class ConsoleKernel extends Kernel {
   private readonly _commands: Map<string, Command> = new Map();
   private _program: CommanderCommand | null = null;
@@ -35,17 +42,19 @@ export class ConsoleKernel extends Kernel {
   }
 
   /**
-   * Register a command
+   * Register a command instance, or a command class to be constructed
+   * by the container
    */
-  registerCommand(command: Command): void {
-    const signature = command.getSignature();
-    this._commands.set(signature.name, command);
+  registerCommand(command: Command | CommandClass): void {
+    const instance =
+      typeof command === 'function' ? this._app.make(command) : command;
+    this._commands.set(instance.getSignature().name, instance);
   }
 
   /**
    * Register multiple commands
    */
-  registerCommands(commands: Command[]): void {
+  registerCommands(commands: Array<Command | CommandClass>): void {
     commands.forEach((command) => this.registerCommand(command));
   }
 
@@ -0,0 +1,252 @@
+/**
+ * Exception Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyRequest } from 'fastify';
+import { Application } from './Application';
+import { ExceptionHandler, type ErrorClass } from './ExceptionHandler';
+import { NotFoundError } from '../error/CommonErrors';
+import { ApiResponse } from '../http/ApiResponse';
+import { Log } from '../log/Log';
+import type { MemoryChannel } from '../log/channels/MemoryChannel';
+
+class PaymentDeclinedError extends Error {}
+class IgnoredError extends Error {}
+class DuplicateEmailError extends Error {}
+
+class AppHandler extends ExceptionHandler {
+  protected dontReport: ErrorClass[] = [IgnoredError];
+
+  readonly sunk: unknown[] = [];
+
+  protected register(): void {
+    this.renderable(PaymentDeclinedError, (error) =>
+      ApiResponse.utils.createProblemDetails({
+        status: 402,
+        title: 'Payment Required',
+        detail: error.message,
+      }),
+    );
+
+    this.renderable(DuplicateEmailError, (error) =>
+      ApiResponse.utils.createProblemDetails({
+        status: 409,
+        title: 'Conflict',
+        detail: error.message,
+      }),
+    );
+
+    this.reportable(PaymentDeclinedError, (error) => {
+      this.sunk.push(error);
+      return false;
+    });
+  }
+}
+
+const httpError = (statusCode: number, message: string, extra = {}) =>
+  Object.assign(new Error(message), { statusCode, ...extra });
+
+const request = { id: 'req-1', method: 'GET', url: '/' } as FastifyRequest;
+
+describe('ExceptionHandler', () => {
+  let app: Application;
+  let handler: AppHandler;
+  let logs: MemoryChannel;
+
+  beforeEach(() => {
+    app = new Application('/tmp');
+    app.instance('config', { app: { debug: false } });
+    handler = app.make(AppHandler);
+    logs = Log.fake();
+  });
+
+  afterEach(() => {
+    Log.setManager(null);
+  });
+
+  it('should render framework errors with their own problem', () => {
+    expect(
+      handler.render(NotFoundError.create('User not found'), request),
+    ).toMatchObject({
+      status: 404,
+      code: 'NOT_FOUND',
+      detail: 'User not found',
+    });
+  });
+
+  it('should map Fastify validation errors to VALIDATION_ERROR', () => {
+    const error = httpError(400, 'body/email must be string', {
+      validation: [{ instancePath: '/email' }],
+      validationContext: 'body',
+    });
+
+    expect(handler.render(error, request)).toMatchObject({
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      errors: [{ instancePath: '/email' }],
+      validationContext: 'body',
+    });
+  });
+
+  it('should map JWT errors to UNAUTHORIZED', () => {
+    const error = httpError(401, 'Authorization token expired', {
+      code: 'FST_JWT_AUTHORIZATION_TOKEN_EXPIRED',
+    });
+
+    expect(handler.render(error, request)).toMatchObject({
+      status: 401,
+      code: 'UNAUTHORIZED',
+      reason: 'FST_JWT_AUTHORIZATION_TOKEN_EXPIRED',
+    });
+  });
+
+  it('should map Prisma errors', () => {
+    const error = Object.assign(new Error('Unique constraint failed'), {
+      name: 'PrismaClientKnownRequestError',
+      code: 'P2002',
+      meta: { target: ['email'] },
+    });
+
+    expect(handler.render(error, request)).toMatchObject({
+      status: 409,
+      code: 'CONFLICT',
+      fields: ['email'],
+    });
+  });
+
+  it('should keep the status of other HTTP errors', () => {
+    const error = httpError(415, 'Unsupported Media Type: text/xml', {
+      code: 'FST_ERR_CTP_INVALID_MEDIA_TYPE',
+    });
+
+    expect(handler.render(error, request)).toMatchObject({
+      status: 415,
+      title: 'Unsupported Media Type',
+      code: 'FST_ERR_CTP_INVALID_MEDIA_TYPE',
+    });
+  });
+
+  it('should hide unexpected errors unless debugging', () => {
+    const error = new Error('connection string leaked');
+
+    expect(handler.render(error, request)).toEqual({
+      type: 'about:blank',
+      status: 500,
+      title: 'Internal Server Error',
+      detail: 'An unexpected error occurred',
+    });
+
+    app.instance('config', { app: { debug: true } });
+    expect(handler.render(error, request)).toMatchObject({
+      status: 500,
+      detail: 'connection string leaked',
+    });
+  });
+
+  it('should use custom mappings and sinks of subclasses', () => {
+    const error = new PaymentDeclinedError('Card declined');
+
+    expect(handler.render(error, request)).toMatchObject({
+      status: 402,
+      detail: 'Card declined',
+    });
+
+    handler.report(error, request);
+    expect(handler.sunk).toEqual([error]);
+    expect(logs.records).toEqual([]);
+  });
+
+  it('should not report errors listed in dontReport', () => {
+    handler.report(new IgnoredError('ignored'), request);
+    expect(logs.records).toEqual([]);
+
+    handler.report(new Error('reported'), request);
+    expect(logs.records).toMatchObject([
+      { level: 'error', message: 'reported', context: { requestId: 'req-1' } },
+    ]);
+  });
+
+  it('should log errors rendered to client errors at info', async () => {
+    const fastify = Fastify();
+    fastify.setErrorHandler((error, req, reply) =>
+      handler.handle(error, req, reply),
+    );
+    const errors: Record<string, unknown> = {
+      '/missing': NotFoundError.create('User not found'),
+      '/route': httpError(404, 'Route not found'),
+      '/duplicate': new DuplicateEmailError('Email taken'),
+      '/gateway': httpError(502, 'Bad gateway'),
+    };
+    fastify.get('/*', async (req) => {
+      throw errors[req.url];
+    });
+
+    for (const url of Object.keys(errors)) {
+      await fastify.inject(url);
+    }
+
+    expect(logs.records.map(({ level, message }) => [level, message])).toEqual([
+      ['info', 'User not found'],
+      ['info', 'Route not found'],
+      ['info', 'Email taken'],
+      ['error', 'Bad gateway'],
+    ]);
+  });
+
+  it('should log errors reported without a problem at error', () => {
+    handler.report(NotFoundError.create('User not found'), request);
+
+    expect(logs.records[0].level).toBe('error');
+  });
+
+  it('should mask sensitive request data in reports', () => {
+    handler.report(new Error('Login failed'), {
+      ...request,
+      headers: { authorization: 'Bearer abc', accept: 'application/json' },
+      body: { email: 'taro@example.com', password: 'secret123' },
+      query: { token: 'abc' },
+    } as unknown as FastifyRequest);
+
+    expect(logs.records[0].context).toMatchObject({
+      headers: { authorization: '[REDACTED]', accept: 'application/json' },
+      body: { email: 'taro@example.com', password: '[REDACTED]' },
+      query: { token: '[REDACTED]' },
+    });
+  });
+
+  it('should answer Fastify errors with problem responses', async () => {
+    const fastify = Fastify();
+    fastify.setErrorHandler((error, req, reply) =>
+      handler.handle(error, req, reply),
+    );
+    fastify.post(
+      '/users',
+      {
+        schema: {
+          body: {
+            type: 'object',
+            required: ['email'],
+            properties: { email: { type: 'string' } },
+          },
+        },
+      },
+      async () => ({ ok: true }),
+    );
+
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/users',
+      payload: {},
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.headers['content-type']).toContain(
+      'application/problem+json',
+    );
+    expect(response.json()).toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    await fastify.close();
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Exception Handler
+ *
+ * Turns every error thrown while handling a request into an RFC9457
+ * problem response. Inspired by Laravel's
+ * Illuminate\Foundation\Exceptions\Handler.
+ *
+ * - report() logs the error with the request (sensitive values are masked
+ *   by the log redactor) and passes it to the registered sinks, unless its
+ *   class is listed in `dontReport`. Errors rendered to client errors
+ *   (4xx) are logged at info, so validation and authentication failures
+ *   stay out of the error log
+ * - render() maps the error to ProblemDetails: custom mappings first, then
+ *   Prisma and Fastify validation/JWT/HTTP errors, then framework errors
+ *
+ * The application binds a subclass (app/exceptions/Handler.ts) as
+ * 'ExceptionHandler' to register its own mappings and sinks.
+ */
+
+import { STATUS_CODES } from 'http';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Application } from './Application';
+import { AbstractFrourioFrameworkError } from '../error/FrourioFrameworkError';
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '../error/CommonErrors';
+import {
+  ApiResponse,
+  PROBLEM_DETAILS_MEDIA_TYPE,
+  type ProblemDetails,
+} from '../http/ApiResponse';
+import { PrismaErrorMapper } from '../database/PrismaErrorMapper';
+import { Log } from '../log/Log';
+import type { LogLevel } from '../log/types';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    ExceptionHandler: ExceptionHandler;
+  }
+}
+
+/**
+ * An error class, matched with instanceof
+ */
+export type ErrorClass<E = unknown> = abstract new (...args: any[]) => E;
+
+/**
+ * Map an error to a problem; returning undefined falls through to the
+ * next mapping
+ */
+export type ErrorRenderer<E> = (
+  error: E,
+  request: FastifyRequest,
+) => ProblemDetails | undefined;
+
+/**
+ * Send an error to a sink; returning false skips the default logging
+ */
+export type ErrorReporter<E> = (
+  error: E,
+  request?: FastifyRequest,
+) => boolean | void;
+
+/**
+ * An error raised by Fastify or one of its plugins
+ */
+interface HttpError extends Error {
+  statusCode: number;
+  code?: string;
+  validation?: unknown[];
+  validationContext?: string;
+}
+
+export class ExceptionHandler {
+  static readonly inject = ['app'] as const;
+
+  /**
+   * Error classes that are never reported
+   */
+  protected dontReport: ErrorClass[] = [];
+
+  private readonly _renderers: Array<{
+    type: ErrorClass;
+    render: ErrorRenderer<any>;
+  }> = [];
+  private readonly _reporters: Array<{
+    type: ErrorClass;
+    report: ErrorReporter<any>;
+  }> = [];
+  private _registered: boolean = false;
+
+  constructor(protected readonly app: Application) {}
+
+  /**
+   * Register custom mappings and sinks with renderable() and reportable()
+   */
+  protected register(): void {}
+
+  /**
+   * Map errors of the given class to a problem
+   */
+  renderable<E>(type: ErrorClass<E>, render: ErrorRenderer<E>): this {
+    this._renderers.push({ type, render });
+    return this;
+  }
+
+  /**
+   * Send errors of the given class to a sink
+   */
+  reportable<E>(type: ErrorClass<E>, report: ErrorReporter<E>): this {
+    this._reporters.push({ type, report });
+    return this;
+  }
+
+  /**
+   * Report the error and send its problem response
+   */
+  async handle(
+    error: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): Promise<void> {
+    const problem = this.render(error, request);
+
+    this.report(error, request, problem);
+
+    await reply
+      .status(problem.status)
+      .header('Content-Type', PROBLEM_DETAILS_MEDIA_TYPE)
+      .send(problem);
+  }
+
+  /**
+   * Determine if the error should be reported
+   */
+  shouldReport(error: unknown): boolean {
+    return !this.dontReport.some((type) => error instanceof type);
+  }
+
+  /**
+   * Log the error and pass it to the matching sinks
+   *
+   * Given the problem the error was rendered to, client errors (4xx) are
+   * logged at info.
+   */
+  report(
+    error: unknown,
+    request?: FastifyRequest,
+    problem?: ProblemDetails,
+  ): void {
+    if (!this.shouldReport(error)) {
+      return;
+    }
+
+    const handled = this.handlers()
+      ._reporters.filter(({ type }) => error instanceof type)
+      .map(({ report }) => report(error, request));
+
+    if (handled.includes(false)) {
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    Log.log(this.reportLevel(error, problem), message, {
+      error,
+      requestId: request?.id,
+      method: request?.method,
+      url: request?.url,
+      headers: request?.headers,
+      body: request?.body,
+      params: request?.params,
+      query: request?.query,
+    });
+  }
+
+  /**
+   * Map the error to RFC9457 ProblemDetails
+   */
+  render(error: unknown, request: FastifyRequest): ProblemDetails {
+    for (const { type, render } of this.handlers()._renderers) {
+      const problem = error instanceof type ? render(error, request) : null;
+      if (problem) {
+        return problem;
+      }
+    }
+
+    const prepared = this.prepare(error);
+    if (prepared instanceof AbstractFrourioFrameworkError) {
+      return ApiResponse.utils.errorToProblemDetails(prepared);
+    }
+
+    const status = isHttpError(prepared) ? prepared.statusCode : 500;
+    if (status < 500 && isHttpError(prepared)) {
+      return ApiResponse.utils.createProblemDetails({
+        status,
+        title: STATUS_CODES[status] ?? 'Error',
+        detail: prepared.message,
+        extensions: prepared.code ? { code: prepared.code } : undefined,
+      });
+    }
+
+    if (!this.isDebug()) {
+      // Do not leak internals (messages, error names) outside debug mode
+      return ApiResponse.utils.createProblemDetails({
+        status,
+        title: STATUS_CODES[status] ?? 'Internal Server Error',
+        detail: 'An unexpected error occurred',
+      });
+    }
+
+    return { ...ApiResponse.utils.errorToProblemDetails(prepared), status };
+  }
+
+  /**
+   * Convert errors raised by Prisma, Fastify and its plugins to framework
+   * errors
+   */
+  protected prepare(error: unknown): unknown {
+    if (PrismaErrorMapper.isPrismaError(error)) {
+      return this.app.make(PrismaErrorMapper).map(error) ?? error;
+    }
+
+    if (!isHttpError(error)) {
+      return error;
+    }
+
+    if (error.validation) {
+      return ValidationError.create(error.message, {
+        errors: error.validation,
+        validationContext: error.validationContext,
+      });
+    }
+
+    if (error.code?.startsWith('FST_JWT_')) {
+      return UnauthorizedError.create(error.message, { reason: error.code });
+    }
+
+    switch (error.statusCode) {
+      case 400:
+        return BadRequestError.create(error.message);
+      case 401:
+        return UnauthorizedError.create(error.message);
+      case 403:
+        return ForbiddenError.create(error.message);
+      case 404:
+        return NotFoundError.create(error.message);
+      default:
+        return error;
+    }
+  }
+
+  /**
+   * Get the level the error is logged at: info for errors rendered to a
+   * client error (4xx), error otherwise
+   */
+  protected reportLevel(
+    _error: unknown,
+    problem: ProblemDetails | undefined,
+  ): LogLevel {
+    return problem && problem.status < 500 ? 'info' : 'error';
+  }
+
+  private isDebug(): boolean {
+    return this.app.has('config')
+      ? this.app.make('config').app?.debug === true
+      : !this.app.isProduction();
+  }
+
+  /**
+   * Run register() once, after subclass fields are initialized
+   */
+  private handlers(): this {
+    if (!this._registered) {
+      this._registered = true;
+      this.register();
+    }
+
+    return this;
+  }
+}
+
+function isHttpError(error: unknown): error is HttpError {
+  return (
+    error instanceof Error &&
+    typeof (error as Partial<HttpError>).statusCode === 'number'
+  );
+}
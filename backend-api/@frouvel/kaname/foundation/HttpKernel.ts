@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /**
  * HTTP Kernel
  *
@@ -5,7 +6,11 @@
  * Bootstraps the application and initializes the Fastify server.
  */
 
-import type { FastifyInstance, FastifyServerFactory } from 'fastify';
+import type {
+  FastifyInstance,
+  FastifyRequest,
+  FastifyServerFactory,
+} from 'fastify';
 import Fastify from 'fastify';
 import server from '$/$server';
 import cookie from '@fastify/cookie';
@@ -23,10 +28,36 @@ import {
   RegisterProviders,
   BootProviders,
 } from './bootstrappers';
-import { AbstractFrourioFrameworkError } from '../error/FrourioFrameworkError';
+import { MaintenanceMode } from './MaintenanceMode';
+import { ExceptionHandler } from './ExceptionHandler';
+import { NotFoundError, ServiceUnavailableError } from '../error/CommonErrors';
 import { PROBLEM_DETAILS_MEDIA_TYPE } from '../http/ApiResponse';
-import type { OpenApiGenerator } from '../swagger/OpenApiGenerator';
+import { MiddlewarePipeline } from '../http/middleware/MiddlewarePipeline';
+import { Context } from '../context/Context';
+import { Log } from '../log/Log';
+import { createFastifyLogger } from '../log/fastifyLogger';
+import {
+  DEFAULT_REQUEST_ID_HEADER,
+  resolveRequestId,
+} from '../context/RequestId';
 import { config } from '../config';
+import type { Container, ServiceIdentifier } from '../container/Container';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    HttpKernel: HttpKernel;
+    request: FastifyRequest;
+  }
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /**
+     * Request-scoped container, disposed when the response is sent
+     */
+    container: Container;
+  }
+}
 
 export class HttpKernel extends Kernel {
   private _fastifyInstance: FastifyInstance | null = null;
@@ -55,6 +86,14 @@ export class HttpKernel extends Kernel {
     ];
   }
 
+  /**
+   * Connect to the database before serving requests, so controllers and
+   * services can resolve 'prisma' with make()
+   */
+  protected getPrewarmedServices(): ServiceIdentifier[] {
+    return ['prisma'];
+  }
+
   /**
    * Initialize and return the Fastify instance
    */
@@ -64,8 +103,15 @@ export class HttpKernel extends Kernel {
 
     // Create Fastify instance if not already created
     if (!this._fastifyInstance) {
-      this._fastifyInstance = await this.createFastifyInstance(serverFactory);
-      this._app.setFastifyInstance(this._fastifyInstance);
+      const fastify = await this.createFastifyInstance(serverFactory);
+      this._fastifyInstance = fastify;
+      this._app.setFastifyInstance(fastify);
+
+      // Stop accepting requests before providers release their resources
+      this._app.terminating(async () => {
+        await fastify.close();
+        Log.info('Fastify server closed');
+      });
     }
 
     return this._fastifyInstance;
@@ -79,43 +125,137 @@ export class HttpKernel extends Kernel {
   ): Promise<FastifyInstance> {
     const env = this._app.environment();
 
-    console.log(`[HttpKernel] Creating Fastify instance in ${env} mode`);
+    Log.debug(`Creating Fastify instance in ${env} mode`);
+
+    const requestId = this.requestIdConfig();
 
     const app = Fastify({
       routerOptions: {
         maxParamLength: 1000,
       },
       ...serverFactory,
-      logger:
-        env === 'production'
-          ? true
-          : {
-              level: 'info',
-              transport: {
-                target: 'pino-pretty',
-                options: {
-                  colorize: true,
-                  translateTime: 'SYS:standard',
-                  ignore: 'pid,hostname',
-                },
-              },
-            },
+      genReqId: (request) =>
+        resolveRequestId(request.headers[requestId.header], requestId),
+      requestIdLogLabel: 'requestId',
+      // Request logs go to the channels of config/logging.ts
+      loggerInstance: createFastifyLogger(Log.channel()),
     });
 
+    // Run every request in a context carrying its id
+    this.registerRequestContext(app, requestId.header);
+
+    // Create a container scope per request
+    this.registerRequestScope(app);
+
     // Register plugins
     await this.registerPlugins(app);
 
+    // Answer with 503 while the application is down
+    this.registerMaintenanceMode(app);
+
+    // Run the global middleware stack of config/http.ts
+    this.registerGlobalMiddleware(app);
+
     // Set up error handler
     this.setupErrorHandler(app);
 
     // Register routes via Frourio
     server(app, { basePath: process.env.API_BASE_PATH });
 
-    console.log('[HttpKernel] Fastify instance configured');
+    Log.debug('Fastify instance configured');
 
     return app;
   }
 
+  /**
+   * Echo the request id and open the request context
+   *
+   * Console output made while handling the request is prefixed with its
+   * id, and problem responses include it as `requestId`.
+   */
+  private registerRequestContext(app: FastifyInstance, header: string): void {
+    Context.decorateConsole();
+
+    app.addHook('onRequest', (request, reply, done) => {
+      reply.header(header, request.id);
+      Context.run({ requestId: request.id }, done);
+    });
+  }
+
+  /**
+   * Create a child container for every request
+   *
+   * The rest of the request lifecycle runs inside the scope, so scoped
+   * services resolve per request from controllers, hooks and services.
+   */
+  private registerRequestScope(app: FastifyInstance): void {
+    app.decorateRequest('container', null as unknown as Container);
+
+    app.addHook('onRequest', (request, _reply, done) => {
+      const scope = this._app.createScope();
+      scope.instance('request', request);
+      request.container = scope;
+
+      this._app.runInScope(scope, done);
+    });
+
+    app.addHook('onResponse', async (request) => {
+      await request.container?.dispose();
+    });
+  }
+
+  /**
+   * Reject requests while the application is in maintenance mode
+   *
+   * Registered after the plugins, so 503 responses still carry the
+   * security and CORS headers.
+   */
+  private registerMaintenanceMode(app: FastifyInstance): void {
+    const maintenance = new MaintenanceMode(this._app);
+
+    app.addHook('onRequest', async (request, reply) => {
+      const payload = maintenance.data();
+      if (!payload || maintenance.allows(payload, request)) {
+        return;
+      }
+
+      const error = new ServiceUnavailableError({
+        message: payload.message ?? MaintenanceMode.defaultMessage,
+        details: { retryAfter: payload.retry },
+        instance: request.url,
+      });
+
+      return reply
+        .status(error.httpStatusCode)
+        .header('Retry-After', String(payload.retry))
+        .header('Content-Type', PROBLEM_DETAILS_MEDIA_TYPE)
+        .send(error.toProblemDetails());
+    });
+  }
+
+  /**
+   * Bind the middleware pipeline and run the global stack on every request
+   *
+   * Route middleware is attached per directory with middleware() in
+   * frourio's hooks.ts and runs after the global stack.
+   */
+  private registerGlobalMiddleware(app: FastifyInstance): void {
+    if (!this._app.has('middleware')) {
+      this._app.singleton('middleware', MiddlewarePipeline);
+    }
+
+    const pipeline = this._app.make('middleware');
+    const global = pipeline.global();
+    if (global.length === 0) {
+      return;
+    }
+
+    app.addHook('onRequest', async (request, reply) => {
+      const responded = await pipeline.run(global, request, reply);
+      return responded ? reply : undefined;
+    });
+  }
+
   /**
    * Register Fastify plugins
    */
@@ -142,10 +282,11 @@ export class HttpKernel extends Kernel {
           'Content-Type',
           'Authorization',
         ],
+        exposedHeaders: corsConfig?.exposedHeaders,
       });
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
     } catch (error) {
-      console.warn('[HttpKernel] CORS config not found, using defaults');
+      Log.warning('CORS config not found, using defaults');
       await app.register(cors, {
         origin: '*',
         credentials: true,
@@ -165,7 +306,7 @@ export class HttpKernel extends Kernel {
     // Swagger/OpenAPI documentation
     await this.registerSwagger(app);
 
-    console.log('[HttpKernel] Plugins registered');
+    Log.debug('Plugins registered');
   }
   /**
    * Register Swagger/OpenAPI documentation
@@ -177,22 +318,20 @@ export class HttpKernel extends Kernel {
       // Skip if config not loaded or disabled
       if (!swaggerConfig || !swaggerConfig.enabled) {
         if (!swaggerConfig) {
-          console.log('[HttpKernel] Swagger config not loaded, skipping');
+          Log.debug('Swagger config not loaded, skipping');
         } else {
-          console.log('[HttpKernel] Swagger is disabled');
+          Log.debug('Swagger is disabled');
         }
         return;
       }
 
       // Get OpenAPI generator from container if available
       if (!this._app.has('swagger')) {
-        console.log(
-          '[HttpKernel] Swagger generator not available in container',
-        );
+        Log.debug('Swagger generator not available in container');
         return;
       }
 
-      const generator = this._app.make<OpenApiGenerator>('swagger');
+      const generator = this._app.make('swagger');
       const spec = generator.generate();
 
       // Register @fastify/swagger plugin with generated spec
@@ -214,37 +353,48 @@ export class HttpKernel extends Kernel {
         transformStaticCSP: (header) => header,
       });
 
-      console.log(
-        `[HttpKernel] Swagger UI available at ${swaggerConfig.path || '/api-docs'}`,
-      );
+      Log.info(`Swagger UI available at ${swaggerConfig.path || '/api-docs'}`);
     } catch (error) {
-      console.error('[HttpKernel] Failed to register Swagger:', error);
+      Log.error('Failed to register Swagger', { error });
       // Don't throw - Swagger is optional
     }
   }
 
   /**
-   * Set up global error handler
+   * Get the request id settings of config/http.ts
+   */
+  private requestIdConfig(): { header: string; trustIncoming: boolean } {
+    const requestId = this._app.has('config')
+      ? this._app.make('config').http?.requestId
+      : undefined;
+
+    return {
+      header: (requestId?.header ?? DEFAULT_REQUEST_ID_HEADER).toLowerCase(),
+      trustIncoming: requestId?.trustIncoming ?? true,
+    };
+  }
+
+  /**
+   * Send every error, and requests matching no route, through the
+   * ExceptionHandler
    */
   private setupErrorHandler(app: FastifyInstance): void {
-    app.setErrorHandler((error, request, reply) => {
-      if (error instanceof AbstractFrourioFrameworkError) {
-        console.error({
-          error,
-          requestId: request.id,
-          body: request.body,
-          params: request.params,
-          query: request.query,
-        });
-
-        reply
-          .status(error.httpStatusCode)
-          .header('Content-Type', PROBLEM_DETAILS_MEDIA_TYPE)
-          .send(error.toProblemDetails());
-      } else {
-        // Let Fastify handle other errors
-        reply.send(error);
-      }
-    });
+    if (!this._app.has('ExceptionHandler')) {
+      this._app.singleton('ExceptionHandler', ExceptionHandler);
+    }
+
+    const handler = this._app.make('ExceptionHandler');
+    app.setErrorHandler((error, request, reply) =>
+      handler.handle(error, request, reply),
+    );
+    app.setNotFoundHandler((request, reply) =>
+      handler.handle(
+        NotFoundError.create(
+          `Route ${request.method}:${request.url} not found`,
+        ),
+        request,
+        reply,
+      ),
+    );
   }
 }
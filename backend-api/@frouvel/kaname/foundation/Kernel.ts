@@ -7,8 +7,12 @@
 
 import type { Application } from './Application';
 import type { Bootstrapper } from './Bootstrapper.interface';
+import type { ServiceIdentifier } from '../container/Container';
+import { Log } from '../log/Log';
 
 export abstract class Kernel {
+  static readonly inject = ['app'] as const;
+
   protected readonly _app: Application;
   protected _bootstrapped: boolean = false;
 
@@ -21,6 +25,13 @@ export abstract class Kernel {
    */
   protected abstract getBootstrappers(): Array<new () => Bootstrapper>;
 
+  /**
+   * Get the async services to resolve while the application boots
+   */
+  protected getPrewarmedServices(): ServiceIdentifier[] {
+    return [];
+  }
+
   /**
    * Bootstrap the application for the given request/command
    */
@@ -29,9 +40,13 @@ export abstract class Kernel {
       return;
     }
 
+    // Log through config/logging.ts once the configuration is loaded
+    Log.setManager(this._app.make('log'));
+
     const bootstrappers = this.getBootstrappers().map(
       (Bootstrapper) => new Bootstrapper(),
     );
+    this._app.prewarm(this.getPrewarmedServices());
 
     for (const bootstrapper of bootstrappers) {
       await bootstrapper.bootstrap(this._app);
@@ -40,6 +55,13 @@ export abstract class Kernel {
     this._bootstrapped = true;
   }
 
+  /**
+   * Terminate the application, releasing the resources of every provider
+   */
+  async terminate(): Promise<void> {
+    await this._app.terminate();
+  }
+
   /**
    * Get the application instance
    */
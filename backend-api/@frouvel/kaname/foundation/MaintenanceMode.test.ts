@@ -0,0 +1,116 @@
+/**
+ * Maintenance Mode Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { Application } from './Application';
+import { MaintenanceMode, type MaintenancePayload } from './MaintenanceMode';
+import { Log } from '../log/Log';
+
+const request = (
+  url: string,
+  headers: Record<string, string> = {},
+): { url: string; headers: Record<string, string> } => ({ url, headers });
+
+describe('MaintenanceMode', () => {
+  let basePath: string;
+  let maintenance: MaintenanceMode;
+
+  beforeEach(() => {
+    basePath = mkdtempSync(join(tmpdir(), 'kaname-maintenance-'));
+    maintenance = new MaintenanceMode(new Application(basePath));
+    vi.stubEnv('API_BASE_PATH', '/api');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    Log.setManager(null);
+    rmSync(basePath, { recursive: true, force: true });
+  });
+
+  it('should write and remove the marker in bootstrap/cache', () => {
+    expect(maintenance.path()).toBe(
+      join(basePath, 'bootstrap/cache/down.json'),
+    );
+    expect(maintenance.isDown()).toBe(false);
+    expect(maintenance.data()).toBeNull();
+
+    maintenance.activate({ retry: 120, except: ['/health'] });
+
+    expect(maintenance.isDown()).toBe(true);
+    expect(maintenance.data()).toMatchObject({
+      retry: 120,
+      except: ['/health'],
+    });
+
+    expect(maintenance.deactivate()).toBe(true);
+    expect(maintenance.isDown()).toBe(false);
+    expect(maintenance.deactivate()).toBe(false);
+  });
+
+  it('should treat an unreadable marker as down with defaults', () => {
+    const logs = Log.fake();
+    mkdirSync(dirname(maintenance.path()), { recursive: true });
+    writeFileSync(maintenance.path(), '{', 'utf-8');
+
+    expect(maintenance.data()).toMatchObject({
+      retry: MaintenanceMode.defaultRetry,
+      except: [],
+    });
+    expect(logs.has('warning', 'Failed to read the maintenance marker')).toBe(
+      true,
+    );
+  });
+
+  describe('allows', () => {
+    const payload: MaintenancePayload = {
+      time: new Date().toISOString(),
+      retry: 60,
+      secret: 'let-me-in',
+      except: ['/health'],
+    };
+
+    it('should let allow-listed paths through, with or without the base path', () => {
+      expect(maintenance.allows(payload, request('/health'))).toBe(true);
+      expect(maintenance.allows(payload, request('/api/health'))).toBe(true);
+      expect(maintenance.allows(payload, request('/api/health/ready'))).toBe(
+        true,
+      );
+      expect(maintenance.allows(payload, request('/api/health?full=1'))).toBe(
+        true,
+      );
+    });
+
+    it('should block other paths', () => {
+      expect(maintenance.allows(payload, request('/api/users'))).toBe(false);
+      expect(maintenance.allows(payload, request('/api/healthz'))).toBe(false);
+    });
+
+    it('should let requests with the bypass secret through', () => {
+      expect(
+        maintenance.allows(
+          payload,
+          request('/api/users', { 'x-maintenance-bypass': 'let-me-in' }),
+        ),
+      ).toBe(true);
+      expect(
+        maintenance.allows(
+          payload,
+          request('/api/users', { 'x-maintenance-bypass': 'wrong' }),
+        ),
+      ).toBe(false);
+    });
+
+    it('should not accept a bypass header when no secret is set', () => {
+      expect(
+        maintenance.allows(
+          { ...payload, secret: undefined },
+          request('/api/users', { 'x-maintenance-bypass': '' }),
+        ),
+      ).toBe(false);
+    });
+  });
+});
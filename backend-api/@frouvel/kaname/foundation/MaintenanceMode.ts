@@ -0,0 +1,183 @@
+/**
+ * Maintenance Mode
+ *
+ * File based maintenance mode, toggled by the `down` and `up` commands.
+ * Inspired by Laravel's Illuminate\Foundation\FileBasedMaintenanceMode.
+ *
+ * While the marker file exists in bootstrap/cache, the HttpKernel answers
+ * every request with a 503 problem response, except for allow-listed paths
+ * and requests carrying the bypass secret.
+ */
+
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  unlinkSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import { timingSafeEqual } from 'crypto';
+import type { Application } from './Application';
+import { Log } from '../log/Log';
+
+export interface MaintenancePayload {
+  /**
+   * When maintenance mode was activated (ISO 8601)
+   */
+  time: string;
+  /**
+   * Seconds clients should wait before retrying, sent as Retry-After
+   */
+  retry: number;
+  /**
+   * Secret that lets requests through via the bypass header
+   */
+  secret?: string;
+  /**
+   * Paths that stay reachable, e.g. '/health' (also matches '/health/live')
+   */
+  except: string[];
+  /**
+   * Detail of the problem response
+   */
+  message?: string;
+}
+
+/**
+ * The parts of a request maintenance mode looks at
+ */
+export interface MaintenanceRequest {
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export class MaintenanceMode {
+  static readonly fileName = 'down.json';
+  static readonly bypassHeader = 'x-maintenance-bypass';
+  static readonly defaultRetry = 60;
+  static readonly defaultMessage =
+    'The service is temporarily down for maintenance.';
+
+  private readonly _path: string;
+
+  constructor(app: Application) {
+    this._path = join(app.bootstrapPath(), MaintenanceMode.fileName);
+  }
+
+  /**
+   * Get the path of the marker file
+   */
+  path(): string {
+    return this._path;
+  }
+
+  /**
+   * Determine if the application is in maintenance mode
+   */
+  isDown(): boolean {
+    return existsSync(this._path);
+  }
+
+  /**
+   * Get the payload of the marker, or null while the application is up
+   */
+  data(): MaintenancePayload | null {
+    if (!this.isDown()) {
+      return null;
+    }
+
+    try {
+      return {
+        retry: MaintenanceMode.defaultRetry,
+        except: [],
+        ...JSON.parse(readFileSync(this._path, 'utf-8')),
+      };
+    } catch (error) {
+      // A half-written or broken marker still means the application is down
+      Log.warning('Failed to read the maintenance marker', { error });
+      return {
+        time: new Date().toISOString(),
+        retry: MaintenanceMode.defaultRetry,
+        except: [],
+      };
+    }
+  }
+
+  /**
+   * Put the application into maintenance mode
+   */
+  activate(payload: Omit<MaintenancePayload, 'time'>): MaintenancePayload {
+    const data: MaintenancePayload = {
+      time: new Date().toISOString(),
+      ...payload,
+    };
+
+    mkdirSync(dirname(this._path), { recursive: true });
+    writeFileSync(this._path, JSON.stringify(data, null, 2), 'utf-8');
+
+    return data;
+  }
+
+  /**
+   * Bring the application out of maintenance mode
+   */
+  deactivate(): boolean {
+    if (!this.isDown()) {
+      return false;
+    }
+
+    unlinkSync(this._path);
+    return true;
+  }
+
+  /**
+   * Determine if the request may pass while the application is down
+   */
+  allows(payload: MaintenancePayload, request: MaintenanceRequest): boolean {
+    return (
+      this.isExcepted(payload.except, request.url) ||
+      this.hasValidBypass(payload.secret, request.headers)
+    );
+  }
+
+  /**
+   * Match the request path against the allow-list, both as-is and relative
+   * to API_BASE_PATH, so '/health' also lets '/api/health' through
+   */
+  private isExcepted(except: string[], url: string): boolean {
+    const path = url.split('?')[0];
+    const basePath = (process.env.API_BASE_PATH ?? '').replace(/\/$/, '');
+    const paths = [path];
+
+    if (basePath && path.startsWith(`${basePath}/`)) {
+      paths.push(path.slice(basePath.length));
+    }
+
+    return except.some((entry) => {
+      const allowed = entry.replace(/\/$/, '');
+      return paths.some(
+        (candidate) =>
+          candidate === allowed || candidate.startsWith(`${allowed}/`),
+      );
+    });
+  }
+
+  private hasValidBypass(
+    secret: string | undefined,
+    headers: MaintenanceRequest['headers'],
+  ): boolean {
+    const given = headers[MaintenanceMode.bypassHeader];
+
+    if (!secret || typeof given !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(secret);
+    const actual = Buffer.from(given);
+
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
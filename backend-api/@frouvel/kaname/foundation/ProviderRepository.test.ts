@@ -0,0 +1,157 @@
+/**
+ * Provider Repository Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Application, type ServiceProvider } from './Application';
+import { ProviderRepository } from './ProviderRepository';
+import { createToken } from '../container/ServiceToken';
+import type { ServiceIdentifier } from '../container/Container';
+
+const REPORTS = createToken<{ name: string }>('reports');
+
+const events: string[] = [];
+
+class EagerProvider implements ServiceProvider {
+  register(): void {
+    events.push('eager:register');
+  }
+}
+
+class ReportServiceProvider implements ServiceProvider {
+  constructor() {
+    events.push('deferred:construct');
+  }
+
+  provides(): ServiceIdentifier[] {
+    return [REPORTS];
+  }
+
+  register(app: Application): void {
+    events.push('deferred:register');
+    app.singleton(REPORTS, () => ({ name: 'reports' }));
+  }
+
+  boot(): void {
+    events.push('deferred:boot');
+  }
+}
+
+describe('ProviderRepository', () => {
+  let basePath: string;
+  let app: Application;
+
+  beforeEach(() => {
+    basePath = mkdtempSync(join(tmpdir(), 'kaname-providers-'));
+    app = new Application(basePath);
+    events.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(basePath, { recursive: true, force: true });
+  });
+
+  it('should register deferred providers on first resolution', () => {
+    app.registerProviders([EagerProvider, ReportServiceProvider]);
+    events.length = 0;
+
+    expect(app.has(REPORTS)).toBe(true);
+    expect(app.deferredServices()).toEqual(['reports']);
+
+    expect(app.make(REPORTS).name).toBe('reports');
+    expect(app.make(REPORTS)).toBe(app.make(REPORTS));
+    expect(app.deferredServices()).toEqual([]);
+    expect(events).toEqual(['deferred:construct', 'deferred:register']);
+  });
+
+  it('should write a manifest of eager and deferred providers', () => {
+    app.registerProviders([EagerProvider, ReportServiceProvider]);
+
+    const manifest = JSON.parse(
+      readFileSync(ProviderRepository.manifestPath(app), 'utf-8'),
+    );
+
+    expect(manifest).toEqual({
+      providers: ['EagerProvider', 'ReportServiceProvider'],
+      eager: ['EagerProvider'],
+      deferred: { reports: 'ReportServiceProvider' },
+    });
+  });
+
+  it('should not instantiate deferred providers when the manifest is cached', () => {
+    app.registerProviders([EagerProvider, ReportServiceProvider]);
+    events.length = 0;
+
+    new Application(basePath).registerProviders([
+      EagerProvider,
+      ReportServiceProvider,
+    ]);
+
+    expect(events).toEqual(['eager:register']);
+  });
+
+  it('should recompile the manifest when the providers change', () => {
+    app.registerProviders([EagerProvider]);
+
+    new Application(basePath).registerProviders([
+      EagerProvider,
+      ReportServiceProvider,
+    ]);
+
+    const manifest = JSON.parse(
+      readFileSync(ProviderRepository.manifestPath(app), 'utf-8'),
+    );
+    expect(manifest.deferred).toEqual({ reports: 'ReportServiceProvider' });
+  });
+
+  it('should boot deferred providers loaded after the application booted', async () => {
+    app.registerProviders([ReportServiceProvider]);
+    await app.boot();
+    events.length = 0;
+
+    app.make(REPORTS);
+    await vi.waitFor(() => expect(events).toContain('deferred:boot'));
+
+    expect(events).toEqual([
+      'deferred:construct',
+      'deferred:register',
+      'deferred:boot',
+    ]);
+  });
+
+  it('should await the async boot of deferred providers in makeAsync', async () => {
+    class AsyncReportServiceProvider extends ReportServiceProvider {
+      async boot(): Promise<void> {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push('deferred:boot');
+      }
+    }
+
+    app.registerProviders([AsyncReportServiceProvider]);
+    await app.boot();
+    events.length = 0;
+
+    const [first, again] = await Promise.all([
+      app.makeAsync(REPORTS),
+      app.createScope().makeAsync(REPORTS),
+    ]);
+
+    expect(events).toEqual([
+      'deferred:construct',
+      'deferred:register',
+      'deferred:boot',
+    ]);
+    expect(again).toBe(first);
+  });
+
+  it('should clear the manifest', () => {
+    app.registerProviders([EagerProvider]);
+
+    expect(ProviderRepository.clearManifest(app)).toBe(true);
+    expect(existsSync(ProviderRepository.manifestPath(app))).toBe(false);
+    expect(ProviderRepository.clearManifest(app)).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Provider Repository
+ *
+ * Registers service providers, deferring the ones that declare the services
+ * they provide until one of those services is first resolved.
+ * Inspired by Laravel's Illuminate\Foundation\ProviderRepository.
+ *
+ * Which providers are deferred is cached in a manifest in bootstrap/cache,
+ * so deferred providers are not even instantiated on startup. The manifest
+ * is recompiled whenever the list of providers changes.
+ */
+
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  unlinkSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import type { Application, ServiceProvider } from './Application';
+import { keyName } from '../container/Container';
+import type { Injectable } from '../container/Container';
+import { Log } from '../log/Log';
+
+/**
+ * A provider class, constructed by the container
+ *
+ * Providers are constructed while bootstrap/app.ts runs, so their `inject`
+ * list can only contain services bound before registration (e.g. 'app').
+ */
+export type ServiceProviderClass = Injectable<ServiceProvider>;
+
+interface ProviderManifest {
+  providers: string[];
+  eager: string[];
+  deferred: Record<string, string>;
+}
+
+export class ProviderRepository {
+  static readonly manifestFileName = 'services.cache.json';
+
+  private readonly _app: Application;
+  private readonly _manifestPath: string;
+
+  constructor(app: Application) {
+    this._app = app;
+    this._manifestPath = ProviderRepository.manifestPath(app);
+  }
+
+  /**
+   * Get the path of the provider manifest
+   */
+  static manifestPath(app: Application): string {
+    return join(app.bootstrapPath(), ProviderRepository.manifestFileName);
+  }
+
+  /**
+   * Remove the provider manifest
+   */
+  static clearManifest(app: Application): boolean {
+    const manifestPath = ProviderRepository.manifestPath(app);
+    if (!existsSync(manifestPath)) {
+      return false;
+    }
+
+    unlinkSync(manifestPath);
+    return true;
+  }
+
+  /**
+   * Register the given providers with the application
+   */
+  load(providers: ServiceProviderClass[]): void {
+    const manifest = this.loadManifest(providers) ?? this.compile(providers);
+
+    for (const Provider of providers) {
+      if (manifest.eager.includes(Provider.name)) {
+        this._app.register(Provider);
+        continue;
+      }
+
+      const keys = Object.keys(manifest.deferred).filter(
+        (key) => manifest.deferred[key] === Provider.name,
+      );
+      this._app.addDeferredProvider(
+        keys,
+        () => this._app.make(Provider),
+        Provider.name,
+      );
+    }
+  }
+
+  /**
+   * Load the manifest if it matches the given providers
+   */
+  private loadManifest(
+    providers: ServiceProviderClass[],
+  ): ProviderManifest | null {
+    if (!existsSync(this._manifestPath)) {
+      return null;
+    }
+
+    try {
+      const manifest: ProviderManifest = JSON.parse(
+        readFileSync(this._manifestPath, 'utf-8'),
+      );
+      const names = providers.map((Provider) => Provider.name);
+
+      return manifest.providers.join(',') === names.join(',') ? manifest : null;
+    } catch (error) {
+      Log.warning('Failed to read the provider manifest', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Compile and write a fresh manifest
+   */
+  private compile(providers: ServiceProviderClass[]): ProviderManifest {
+    const manifest: ProviderManifest = {
+      providers: providers.map((Provider) => Provider.name),
+      eager: [],
+      deferred: {},
+    };
+
+    for (const Provider of providers) {
+      const provider = this._app.make(Provider);
+
+      if (!provider.provides) {
+        manifest.eager.push(Provider.name);
+        continue;
+      }
+
+      for (const key of provider.provides()) {
+        manifest.deferred[keyName(key)] = Provider.name;
+      }
+    }
+
+    this.writeManifest(manifest);
+
+    return manifest;
+  }
+
+  private writeManifest(manifest: ProviderManifest): void {
+    try {
+      mkdirSync(dirname(this._manifestPath), { recursive: true });
+      writeFileSync(
+        this._manifestPath,
+        JSON.stringify(manifest, null, 2),
+        'utf-8',
+      );
+    } catch (error) {
+      // A read-only filesystem only costs us the cache
+      Log.warning('Failed to write the provider manifest', { error });
+    }
+  }
+}
@@ -7,12 +7,13 @@
 
 import type { Bootstrapper } from '../Bootstrapper.interface';
 import type { Application } from '../Application';
+import { Log } from '../../log/Log';
 
 export class BootProviders implements Bootstrapper {
   async bootstrap(app: Application): Promise<void> {
     // Boot the application which will call boot() on all registered providers
     await app.boot();
 
-    console.log('[Bootstrap] Service providers booted');
+    Log.debug('Service providers booted');
   }
 }
\ No newline at end of file
@@ -1,69 +1,90 @@
 /**
  * Handle Exceptions Bootstrapper
- * 
+ *
  * Sets up global exception handlers for the application.
  * Ensures uncaught exceptions and unhandled rejections are properly logged.
+ *
+ * The process listeners are registered once per application and removed
+ * when it terminates, so applications booted one after another (e.g. by
+ * createTestApp) do not pile them up.
  */
 
 import type { Bootstrapper } from '../Bootstrapper.interface';
 import type { Application } from '../Application';
+import { Log } from '../../log/Log';
+
+/**
+ * Applications whose process listeners are registered
+ * @internal
+ */
+const handled = new WeakSet<Application>();
 
 export class HandleExceptions implements Bootstrapper {
   bootstrap(app: Application): void {
+    if (handled.has(app)) {
+      return;
+    }
+    handled.add(app);
+
     // Handle uncaught exceptions
-    process.on('uncaughtException', (error: Error) => {
-      console.error('[Bootstrap] Uncaught Exception:', error);
-      
+    const onUncaughtException = (error: Error) => {
+      Log.critical('Uncaught exception', { error });
+
       // In production, you might want to send this to a logging service
       // like Sentry, Datadog, etc.
       if (app.isProduction()) {
         // Log to external service
         // Sentry.captureException(error);
       }
-      
+
       // Exit gracefully
       process.exit(1);
-    });
+    };
 
     // Handle unhandled promise rejections
-    process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
-      console.error('[Bootstrap] Unhandled Rejection at:', promise, 'reason:', reason);
-      
+    const onUnhandledRejection = (reason: any, promise: Promise<any>) => {
+      Log.error('Unhandled rejection', { reason, promise });
+
       if (app.isProduction()) {
         // Log to external service
         // Sentry.captureException(reason);
       }
-    });
+    };
 
     // Handle process termination signals
-    process.on('SIGTERM', () => {
-      console.log('[Bootstrap] SIGTERM signal received: closing application');
-      this.gracefulShutdown(app);
-    });
+    const onSigterm = () => this.gracefulShutdown(app, 'SIGTERM');
+    const onSigint = () => this.gracefulShutdown(app, 'SIGINT');
+
+    process.on('uncaughtException', onUncaughtException);
+    process.on('unhandledRejection', onUnhandledRejection);
+    process.once('SIGTERM', onSigterm);
+    process.once('SIGINT', onSigint);
 
-    process.on('SIGINT', () => {
-      console.log('[Bootstrap] SIGINT signal received: closing application');
-      this.gracefulShutdown(app);
+    app.terminating(() => {
+      process.off('uncaughtException', onUncaughtException);
+      process.off('unhandledRejection', onUnhandledRejection);
+      process.off('SIGTERM', onSigterm);
+      process.off('SIGINT', onSigint);
+      handled.delete(app);
     });
 
-    console.log('[Bootstrap] Exception handlers registered');
+    Log.debug('Exception handlers registered');
   }
 
-  private async gracefulShutdown(app: Application): Promise<void> {
-    try {
-      // Close Fastify server if running
-      const fastify = app.getFastifyInstance();
-      if (fastify) {
-        await fastify.close();
-        console.log('[Bootstrap] Fastify server closed');
-      }
+  private async gracefulShutdown(
+    app: Application,
+    signal: NodeJS.Signals,
+  ): Promise<void> {
+    Log.info(`${signal} signal received: closing application`);
 
-      // Additional cleanup can be added here
-      // e.g., close database connections, flush logs, etc.
+    try {
+      // Runs the terminating callbacks (e.g. closing Fastify), then
+      // terminates providers (e.g. disconnecting Prisma) in reverse order
+      await app.terminate();
 
       process.exit(0);
     } catch (error) {
-      console.error('[Bootstrap] Error during graceful shutdown:', error);
+      Log.error('Error during graceful shutdown', { error });
       process.exit(1);
     }
   }
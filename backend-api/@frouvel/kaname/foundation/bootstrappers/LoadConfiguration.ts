@@ -17,6 +17,13 @@ import { join, extname, basename } from 'path';
 import type { Bootstrapper } from '../Bootstrapper.interface';
 import type { Application } from '../Application';
 import { ConfigTypesGenerator } from '../../generator/ConfigTypesGenerator';
+import { Log } from '../../log/Log';
+
+declare module '../../container/ServiceMap' {
+  interface ServiceMap {
+    config: Record<string, any>;
+  }
+}
 
 export class LoadConfiguration implements Bootstrapper {
   private readonly _cacheFileName = 'config.cache.json';
@@ -27,13 +34,13 @@ export class LoadConfiguration implements Bootstrapper {
     // Try to load from cache first in production
     if (app.isProduction() && existsSync(cachePath)) {
       await this.loadFromCache(app, cachePath);
-      console.log('[Bootstrap] Configuration loaded from cache');
+      Log.debug('Configuration loaded from cache');
       return;
     }
 
     // Load configuration from files
     await this.loadFromFiles(app);
-    console.log('[Bootstrap] Configuration loaded from files');
+    Log.debug('Configuration loaded from files');
   }
 
   private async loadFromCache(
@@ -44,10 +51,9 @@ export class LoadConfiguration implements Bootstrapper {
       const cached = JSON.parse(readFileSync(cachePath, 'utf-8'));
       app.singleton('config', () => cached);
     } catch (error) {
-      console.warn(
-        '[Bootstrap] Failed to load config cache, falling back to files:',
+      Log.warning('Failed to load config cache, falling back to files', {
         error,
-      );
+      });
       await this.loadFromFiles(app);
     }
   }
@@ -58,7 +64,7 @@ export class LoadConfiguration implements Bootstrapper {
 
     // Auto-discover all config files in the config directory
     if (!existsSync(configPath)) {
-      console.warn(`[Bootstrap] Config directory not found: ${configPath}`);
+      Log.warning(`Config directory not found: ${configPath}`);
       app.singleton('config', () => configs);
       return;
     }
@@ -81,9 +87,9 @@ export class LoadConfiguration implements Bootstrapper {
       })
       .map((file) => basename(file, '.ts'));
 
-    console.log(
-      `[Bootstrap] Discovered ${configFiles.length} config files: ${configFiles.join(', ')}`,
-    );
+    Log.debug(`Discovered ${configFiles.length} config files`, {
+      files: configFiles,
+    });
 
     // Auto-generate types.ts file using generator
     const generator = new ConfigTypesGenerator(configPath);
@@ -95,10 +101,7 @@ export class LoadConfiguration implements Bootstrapper {
         const configModule = await import(join(configPath, `${file}.ts`));
         configs[file] = configModule.default || configModule;
       } catch (error) {
-        console.warn(
-          `[Bootstrap] Failed to load config file: ${file}.ts`,
-          error,
-        );
+        Log.warning(`Failed to load config file: ${file}.ts`, { error });
       }
     }
 
@@ -106,15 +109,26 @@ export class LoadConfiguration implements Bootstrapper {
   }
 
 
+  /**
+   * Get the path of the configuration cache
+   */
+  static cachePath(app: Application): string {
+    return join(app.bootstrapPath(), new LoadConfiguration()._cacheFileName);
+  }
+
+  /**
+   * Determine if the configuration is cached
+   */
+  static isCached(app: Application): boolean {
+    return existsSync(LoadConfiguration.cachePath(app));
+  }
+
   /**
    * Cache the current configuration to disk
    * This should be called during deployment or build process
    */
   static async cacheConfig(app: Application): Promise<void> {
-    const cachePath = join(
-      app.bootstrapPath(),
-      new LoadConfiguration()._cacheFileName,
-    );
+    const cachePath = LoadConfiguration.cachePath(app);
     const cacheDir = app.bootstrapPath();
 
     // Ensure cache directory exists
@@ -122,24 +136,21 @@ export class LoadConfiguration implements Bootstrapper {
       mkdirSync(cacheDir, { recursive: true });
     }
 
-    const config = app.make<Record<string, any>>('config');
+    const config = app.make('config');
     writeFileSync(cachePath, JSON.stringify(config, null, 2), 'utf-8');
 
-    console.log(`[Bootstrap] Configuration cached to ${cachePath}`);
+    Log.debug(`Configuration cached to ${cachePath}`);
   }
 
   /**
    * Clear the configuration cache
    */
   static clearCache(app: Application): void {
-    const cachePath = join(
-      app.bootstrapPath(),
-      new LoadConfiguration()._cacheFileName,
-    );
+    const cachePath = LoadConfiguration.cachePath(app);
 
     if (existsSync(cachePath)) {
       unlinkSync(cachePath);
-      console.log('[Bootstrap] Configuration cache cleared');
+      Log.debug('Configuration cache cleared');
     }
   }
 }
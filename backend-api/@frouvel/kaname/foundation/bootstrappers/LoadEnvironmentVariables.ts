@@ -8,6 +8,7 @@
 import { config } from 'dotenv';
 import type { Bootstrapper } from '../Bootstrapper.interface';
 import type { Application } from '../Application';
+import { Log } from '../../log/Log';
 
 export class LoadEnvironmentVariables implements Bootstrapper {
   bootstrap(app: Application): void {
@@ -17,6 +18,6 @@ export class LoadEnvironmentVariables implements Bootstrapper {
 
     config({ path: envPath });
 
-    console.log(`[Bootstrap] Environment variables loaded from ${envPath}`);
+    Log.debug('Environment variables loaded', { path: envPath });
   }
 }
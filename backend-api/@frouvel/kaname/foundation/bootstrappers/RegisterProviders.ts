@@ -6,7 +6,9 @@
  */
 
 import type { Bootstrapper } from '../Bootstrapper.interface';
-import type { Application, ServiceProvider } from '../Application';
+import type { Application } from '../Application';
+import type { ServiceProviderClass } from '../ProviderRepository';
+import { Log } from '../../log/Log';
 
 export class RegisterProviders implements Bootstrapper {
   async bootstrap(app: Application): Promise<void> {
@@ -15,18 +17,17 @@ export class RegisterProviders implements Bootstrapper {
 
     // Register each provider
     for (const Provider of providers) {
-      const provider = new Provider();
-      app.register(provider);
+      app.register(Provider);
     }
 
-    console.log(`[Bootstrap] Registered ${providers.length} service providers`);
+    Log.debug(`Registered ${providers.length} service providers`);
   }
 
   /**
    * Get the service providers to register
    * In a real application, this might come from a config file
    */
-  private getProviders(): Array<new () => ServiceProvider> {
+  private getProviders(): ServiceProviderClass[] {
     // Service providers should be registered in the application's bootstrap/app.ts
     // This method can be overridden in your application's custom RegisterProviders
     return [];
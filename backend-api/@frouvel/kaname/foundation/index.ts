@@ -6,6 +6,16 @@
 
 export { Application } from './Application';
 export type { ServiceProvider } from './Application';
+export { ProviderRepository } from './ProviderRepository';
+export type { ServiceProviderClass } from './ProviderRepository';
+export { ExceptionHandler } from './ExceptionHandler';
+export type {
+  ErrorClass,
+  ErrorRenderer,
+  ErrorReporter,
+} from './ExceptionHandler';
+export { MaintenanceMode } from './MaintenanceMode';
+export type { MaintenancePayload, MaintenanceRequest } from './MaintenanceMode';
 
 export { Kernel } from './Kernel';
 export { HttpKernel } from './HttpKernel';
@@ -22,7 +32,11 @@ export {
 } from './bootstrappers';
 
 export {
+  AuthServiceProvider,
   ConsoleServiceProvider,
   DatabaseServiceProvider,
+  HealthServiceProvider,
+  MailServiceProvider,
+  RateLimitServiceProvider,
   SwaggerServiceProvider,
 } from './providers';
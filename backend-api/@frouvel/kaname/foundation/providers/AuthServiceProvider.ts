@@ -0,0 +1,34 @@
+/**
+ * Auth Service Provider
+ *
+ * Framework-level service provider that registers the AuthManager, the
+ * refresh token repository, the password broker, the access gate and the
+ * `auth` and `can` middleware. Guards are configured in config/auth.ts,
+ * abilities and policies by the application.
+ */
+
+import type { Application, ServiceProvider } from '../Application';
+import { aliasMiddleware } from '../../http/middleware/aliasMiddleware';
+import { AccessGate } from '../../auth/AccessGate';
+import { AuthManager } from '../../auth/AuthManager';
+import { Authenticate } from '../../auth/Authenticate';
+import { Authorize } from '../../auth/Authorize';
+import { PasswordBroker } from '../../auth/PasswordBroker';
+import { RefreshTokenRepository } from '../../auth/RefreshTokenRepository';
+import { Log } from '../../log/Log';
+
+export class AuthServiceProvider implements ServiceProvider {
+  register(app: Application): void {
+    app.singleton('auth', AuthManager);
+    app.singleton('refreshTokens', RefreshTokenRepository);
+    app.singleton('passwords', PasswordBroker);
+    app.singleton('gate', AccessGate);
+
+    aliasMiddleware(app, {
+      auth: Authenticate,
+      can: Authorize,
+    });
+
+    Log.debug('Auth services registered');
+  }
+}
@@ -8,34 +8,60 @@ import type {
   Application,
   ServiceProvider,
 } from '$/@frouvel/kaname/foundation';
-import type { ConsoleKernel } from '$/@frouvel/kaname/foundation';
+import type { ServiceIdentifier } from '$/@frouvel/kaname/container';
+import {
+  COMMANDS_TAG,
+  tagCommands,
+  type Command,
+} from '$/@frouvel/kaname/console';
 import {
   ConfigCacheCommand,
   ConfigClearCommand,
+  ClearCompiledCommand,
+  DownCommand,
+  UpCommand,
   GenerateConfigTypesCommand,
   InspireCommand,
   GreetCommand,
+  ProviderListCommand,
+  ContainerListCommand,
+  AboutCommand,
+  HealthCommand,
+  RouteListCommand,
+  AuthPruneTokensCommand,
   TinkerCommand,
 } from '$/@frouvel/kaname/console/commands';
 
 export class ConsoleServiceProvider implements ServiceProvider {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  register(_app: Application): void {
-    // Registration logic if needed
+  dependsOn(): ServiceIdentifier[] {
+    return ['ConsoleKernel'];
   }
 
-  async boot(app: Application): Promise<void> {
-    // Get the console kernel
-    const kernel = app.make<ConsoleKernel>('ConsoleKernel');
-
-    // Register built-in commands
-    kernel.registerCommands([
-      new ConfigCacheCommand(app),
-      new ConfigClearCommand(app),
-      new GenerateConfigTypesCommand(app),
-      new InspireCommand(app),
-      new GreetCommand(app),
-      new TinkerCommand(app),
+  register(app: Application): void {
+    // Built-in commands
+    tagCommands(app, [
+      ConfigCacheCommand,
+      ConfigClearCommand,
+      ClearCompiledCommand,
+      DownCommand,
+      UpCommand,
+      GenerateConfigTypesCommand,
+      InspireCommand,
+      GreetCommand,
+      ProviderListCommand,
+      ContainerListCommand,
+      AboutCommand,
+      HealthCommand,
+      RouteListCommand,
+      AuthPruneTokensCommand,
+      TinkerCommand,
     ]);
   }
+
+  async boot(app: Application): Promise<void> {
+    // Register every command tagged by any provider
+    app
+      .make('ConsoleKernel')
+      .registerCommands(app.tagged<Command>(COMMANDS_TAG));
+  }
 }
@@ -2,40 +2,59 @@
  * Database Service Provider
  *
  * Framework-level service provider that registers database services.
- * Registers Prisma client as a singleton and handles connection setup.
+ * Registers Prisma client as an async singleton that connects on resolution.
+ *
+ * Deferred: commands and requests that never resolve 'prisma' do not
+ * connect to the database.
  */
 
 import type { Application, ServiceProvider } from '../Application';
-import type { PrismaClient } from '@prisma/client';
-import { getPrismaClient } from '../../database';
+import type { ServiceIdentifier } from '../../container/Container';
+import { getPrismaClient, disconnectPrismaClient } from '../../database';
+import { Log } from '../../log/Log';
+
+declare module '../../container/ServiceMap' {
+  interface ServiceMap {
+    prisma: ReturnType<typeof getPrismaClient>;
+  }
+}
 
 export class DatabaseServiceProvider implements ServiceProvider {
+  /**
+   * Services provided by this deferred provider
+   */
+  provides(): ServiceIdentifier[] {
+    return ['prisma'];
+  }
+
   /**
    * Register database services
    */
   register(app: Application): void {
-    // Register Prisma client as a singleton
-    app.singleton('prisma', () => getPrismaClient());
+    // Register Prisma client as an async singleton, connected on first
+    // resolution (pre-warmed by the HttpKernel)
+    app.singletonAsync('prisma', async () => {
+      const prisma = getPrismaClient();
+
+      try {
+        await prisma.$connect();
+        Log.info('Database connection established');
+      } catch (error) {
+        Log.error('Failed to connect to database', { error });
+        throw error;
+      }
+
+      return prisma;
+    });
 
-    console.log('[DatabaseServiceProvider] Database services registered');
+    Log.debug('Database services registered');
   }
 
   /**
-   * Boot database services
+   * Disconnect from the database when the application terminates
    */
-  async boot(app: Application): Promise<void> {
-    // Connect to database on boot
-    const prisma = app.make<PrismaClient>('prisma');
-
-    try {
-      await prisma.$connect();
-      console.log('[DatabaseServiceProvider] Database connection established');
-    } catch (error) {
-      console.error(
-        '[DatabaseServiceProvider] Failed to connect to database:',
-        error,
-      );
-      throw error;
-    }
+  async terminate(): Promise<void> {
+    await disconnectPrismaClient();
+    Log.info('Database connection closed');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,56 @@
+/**
+ * Health Service Provider
+ *
+ * Framework-level service provider that registers the HealthCheck registry
+ * and the built-in checks enabled in config/health.ts. Applications add
+ * their own checks in the boot() of a provider.
+ */
+
+import type { Application, ServiceProvider } from '../Application';
+import { HealthCheck } from '../../health/HealthCheck';
+import {
+  configCacheCheck,
+  databaseCheck,
+  diskSpaceCheck,
+} from '../../health/checks';
+import { Log } from '../../log/Log';
+
+/**
+ * The parts of config/health.ts read by the provider
+ */
+interface HealthConfig {
+  checks?: string[];
+  disk?: {
+    path: string;
+    warnFreePercent: number;
+    failFreePercent: number;
+  };
+}
+
+export class HealthServiceProvider implements ServiceProvider {
+  register(app: Application): void {
+    app.singleton('health', HealthCheck);
+
+    Log.debug('Health services registered');
+  }
+
+  boot(app: Application): void {
+    const config: HealthConfig = app.has('config')
+      ? (app.make('config').health ?? {})
+      : {};
+    const enabled = new Set(config.checks ?? []);
+    const health = app.make('health');
+
+    if (enabled.has('database')) {
+      health.register('database', databaseCheck(app));
+    }
+
+    if (enabled.has('disk') && config.disk) {
+      health.register('disk', diskSpaceCheck(config.disk));
+    }
+
+    if (enabled.has('configCache')) {
+      health.register('configCache', configCacheCheck(app));
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Mail Service Provider
+ *
+ * Framework-level service provider that registers the MailManager.
+ * Mailers are configured in config/mail.ts.
+ *
+ * Deferred: the manager is only registered once 'mail' is resolved.
+ */
+
+import type { Application, ServiceProvider } from '../Application';
+import type { ServiceIdentifier } from '../../container/Container';
+import { MailManager } from '../../mail/MailManager';
+import { Log } from '../../log/Log';
+
+export class MailServiceProvider implements ServiceProvider {
+  /**
+   * Services provided by this deferred provider
+   */
+  provides(): ServiceIdentifier[] {
+    return ['mail'];
+  }
+
+  register(app: Application): void {
+    app.singleton('mail', MailManager);
+
+    Log.debug('Mail services registered');
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Rate Limit Service Provider
+ *
+ * Framework-level service provider that registers the RateLimiter and the
+ * `throttle` middleware. Named limiters are defined by the application,
+ * e.g. in the boot() of its AppServiceProvider.
+ */
+
+import type { Application, ServiceProvider } from '../Application';
+import { aliasMiddleware } from '../../http/middleware/aliasMiddleware';
+import { RateLimiter } from '../../ratelimit/RateLimiter';
+import { ThrottleRequests } from '../../ratelimit/ThrottleRequests';
+import { Log } from '../../log/Log';
+
+export class RateLimitServiceProvider implements ServiceProvider {
+  register(app: Application): void {
+    app.singleton('rateLimiter', RateLimiter);
+
+    aliasMiddleware(app, {
+      throttle: ThrottleRequests,
+    });
+
+    Log.debug('Rate limit services registered');
+  }
+}
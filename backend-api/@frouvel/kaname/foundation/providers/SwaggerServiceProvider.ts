@@ -4,13 +4,30 @@
  * Framework-level service provider that registers Swagger/OpenAPI documentation.
  * Registers the OpenApiGenerator in the container. The actual Swagger/SwaggerUI
  * plugin registration happens in HttpKernel during Fastify initialization.
+ *
+ * Deferred: the generator is only registered once 'swagger' is resolved.
  */
 
 import type { Application, ServiceProvider } from '../Application';
+import type { ServiceIdentifier } from '../../container/Container';
 import { OpenApiGenerator } from '../../swagger/OpenApiGenerator';
 import { config } from '../../config';
+import { Log } from '../../log/Log';
+
+declare module '../../container/ServiceMap' {
+  interface ServiceMap {
+    swagger: OpenApiGenerator;
+  }
+}
 
 export class SwaggerServiceProvider implements ServiceProvider {
+  /**
+   * Services provided by this deferred provider
+   */
+  provides(): ServiceIdentifier[] {
+    return ['swagger'];
+  }
+
   /**
    * Register Swagger services
    */
@@ -34,7 +51,7 @@ export class SwaggerServiceProvider implements ServiceProvider {
       );
     });
 
-    console.log('[SwaggerServiceProvider] Swagger services registered');
+    Log.debug('Swagger services registered');
   }
 
   /**
@@ -46,8 +63,6 @@ export class SwaggerServiceProvider implements ServiceProvider {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async boot(_app: Application): Promise<void> {
     // No-op: Swagger plugins are registered in HttpKernel
-    console.log(
-      '[SwaggerServiceProvider] Swagger configured (registration deferred to HttpKernel)',
-    );
+    Log.debug('Swagger configured (registration deferred to HttpKernel)');
   }
 }
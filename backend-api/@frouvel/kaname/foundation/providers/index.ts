@@ -4,6 +4,10 @@
  * Framework-level service providers
  */
 
+export { AuthServiceProvider } from './AuthServiceProvider';
 export { ConsoleServiceProvider } from './ConsoleServiceProvider';
 export { DatabaseServiceProvider } from './DatabaseServiceProvider';
-export { SwaggerServiceProvider } from './SwaggerServiceProvider';
\ No newline at end of file
+export { HealthServiceProvider } from './HealthServiceProvider';
+export { MailServiceProvider } from './MailServiceProvider';
+export { RateLimitServiceProvider } from './RateLimitServiceProvider';
+export { SwaggerServiceProvider } from './SwaggerServiceProvider';
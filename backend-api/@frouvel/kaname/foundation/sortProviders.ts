@@ -0,0 +1,51 @@
+/**
+ * Provider Sorting
+ *
+ * Orders service providers so every provider comes after the providers it
+ * depends on. Providers without a dependency between them keep their
+ * registration order.
+ */
+
+import type { ServiceProvider } from './Application';
+
+/**
+ * Sort providers topologically
+ *
+ * Throws when the dependencies form a cycle, naming every provider on it.
+ */
+export function sortProviders(
+  providers: ServiceProvider[],
+  dependenciesOf: (provider: ServiceProvider) => ServiceProvider[],
+): ServiceProvider[] {
+  const sorted: ServiceProvider[] = [];
+  const visiting: ServiceProvider[] = [];
+
+  const visit = (provider: ServiceProvider): void => {
+    if (sorted.includes(provider)) {
+      return;
+    }
+
+    if (visiting.includes(provider)) {
+      const cycle = [...visiting.slice(visiting.indexOf(provider)), provider];
+      throw new Error(
+        `Circular provider dependency: ${cycle.map(providerName).join(' -> ')}`,
+      );
+    }
+
+    visiting.push(provider);
+    dependenciesOf(provider).forEach(visit);
+    visiting.pop();
+    sorted.push(provider);
+  };
+
+  providers.forEach(visit);
+
+  return sorted;
+}
+
+/**
+ * Get the display name of a provider
+ */
+export function providerName(provider: ServiceProvider): string {
+  return provider.constructor.name;
+}
@@ -0,0 +1,192 @@
+/**
+ * Health Check Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Application } from '../foundation/Application';
+import { HealthServiceProvider } from '../foundation/providers/HealthServiceProvider';
+import { Log } from '../log/Log';
+import { HealthCheck } from './HealthCheck';
+import { healthResponse } from './healthResponse';
+import { configCacheCheck } from './checks/configCacheCheck';
+import { diskSpaceCheck } from './checks/diskSpaceCheck';
+
+describe('HealthCheck', () => {
+  let app: Application;
+  let health: HealthCheck;
+
+  beforeEach(() => {
+    Log.fake();
+    app = new Application('/tmp');
+    health = new HealthCheck(app);
+  });
+
+  afterEach(() => {
+    Log.setManager(null);
+  });
+
+  it('should report every check with its status and latency', async () => {
+    health
+      .register('plain', () => {})
+      .register('boolean', () => true)
+      .register('detailed', async () => ({
+        status: 'ok',
+        meta: { connections: 3 },
+      }));
+
+    const report = await health.run();
+
+    expect(report.status).toBe('ok');
+    expect(Object.keys(report.checks)).toEqual([
+      'plain',
+      'boolean',
+      'detailed',
+    ]);
+    expect(report.checks.detailed).toMatchObject({
+      status: 'ok',
+      meta: { connections: 3 },
+    });
+    expect(report.checks.plain.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(report.timestamp)).not.toBeNaN();
+  });
+
+  it('should fail checks that throw or return false', async () => {
+    health
+      .register('ok', () => true)
+      .register('false', () => false)
+      .register('throws', async () => {
+        throw new Error('Connection refused');
+      });
+
+    const report = await health.run();
+
+    expect(report.status).toBe('failed');
+    expect(report.checks.false.status).toBe('failed');
+    expect(report.checks.throws).toMatchObject({
+      status: 'failed',
+      message: 'Connection refused',
+    });
+  });
+
+  it('should report the worst status', async () => {
+    health
+      .register('ok', () => true)
+      .register('slow', () => ({ status: 'warning', message: 'Slow' }));
+
+    expect((await health.run()).status).toBe('warning');
+  });
+
+  it('should fail checks exceeding the timeout', async () => {
+    app.instance('config', { health: { timeout: 20 } });
+    health.register('hanging', () => new Promise<void>(() => {}));
+
+    const report = await health.run();
+
+    expect(report.checks.hanging).toMatchObject({
+      status: 'failed',
+      message: 'Timed out after 20ms',
+    });
+  });
+
+  it('should run the checks of a probe only', async () => {
+    health
+      .register('database', () => true)
+      .register('eventLoop', () => true, { probes: ['live', 'ready'] });
+
+    expect(Object.keys((await health.run('live')).checks)).toEqual([
+      'eventLoop',
+    ]);
+    expect(Object.keys((await health.run('ready')).checks)).toEqual([
+      'database',
+      'eventLoop',
+    ]);
+    expect(health.checks()).toEqual({
+      database: ['ready'],
+      eventLoop: ['live', 'ready'],
+    });
+  });
+
+  it('should forget checks', async () => {
+    health.register('database', () => false).forget('database');
+
+    expect(await health.run()).toMatchObject({ status: 'ok', checks: {} });
+  });
+
+  it('should answer 503 once a check failed', async () => {
+    health.register('database', () => ({ status: 'warning' }));
+    expect(healthResponse(await health.run()).status).toBe(200);
+
+    health.register('database', () => false);
+    expect(healthResponse(await health.run()).status).toBe(503);
+  });
+});
+
+describe('HealthServiceProvider', () => {
+  it('should register the built-in checks enabled in the config', async () => {
+    const app = new Application('/tmp');
+    app.instance('config', {
+      health: {
+        checks: ['database', 'disk'],
+        disk: { path: '/tmp', warnFreePercent: 0, failFreePercent: 0 },
+      },
+    });
+    app.register(HealthServiceProvider);
+    await app.boot();
+
+    expect(app.make('health').checks()).toEqual({
+      database: ['ready'],
+      disk: ['ready'],
+    });
+  });
+});
+
+describe('built-in checks', () => {
+  let basePath: string;
+  let app: Application;
+
+  beforeEach(() => {
+    basePath = mkdtempSync(join(tmpdir(), 'kaname-health-'));
+    app = new Application(basePath);
+  });
+
+  afterEach(() => {
+    rmSync(basePath, { recursive: true, force: true });
+  });
+
+  it('should warn when a config file changed after caching', async () => {
+    mkdirSync(join(basePath, 'config'));
+    mkdirSync(join(basePath, 'bootstrap/cache'), { recursive: true });
+    writeFileSync(join(basePath, 'config/app.ts'), '');
+    writeFileSync(join(basePath, 'bootstrap/cache/config.cache.json'), '{}');
+
+    const check = configCacheCheck(app);
+    expect(await check()).toEqual({ status: 'ok' });
+
+    const later = new Date(Date.now() + 60_000);
+    utimesSync(join(basePath, 'config/app.ts'), later, later);
+
+    expect(await check()).toMatchObject({
+      status: 'warning',
+      meta: { changed: ['app.ts'] },
+    });
+  });
+
+  it('should pass when the configuration is not cached', async () => {
+    expect(await configCacheCheck(app)()).toMatchObject({ status: 'ok' });
+  });
+
+  it('should compare the free disk space with the thresholds', async () => {
+    const check = (warnFreePercent: number, failFreePercent: number) =>
+      diskSpaceCheck({ path: basePath, warnFreePercent, failFreePercent })();
+
+    expect(await check(0, 0)).toMatchObject({
+      status: 'ok',
+      meta: { path: basePath },
+    });
+    expect(await check(101, 0)).toMatchObject({ status: 'warning' });
+    expect(await check(101, 101)).toMatchObject({ status: 'failed' });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Health Check
+ *
+ * Registry of named checks run by the `/health` routes and the `health`
+ * command. Providers contribute checks; each one belongs to one or more
+ * probes:
+ *
+ * - `live`: the process is able to serve at all (restart it otherwise)
+ * - `ready`: the process can take traffic, e.g. its database is reachable
+ *
+ * Checks run in parallel, each within the timeout of config/health.ts. A
+ * check fails when it throws, returns false or times out.
+ *
+ * @example
+ * app.make('health').register('queue', async () => {
+ *   const waiting = await queue.count();
+ *   return waiting > 1000
+ *     ? { status: 'warning', message: `${waiting} jobs waiting` }
+ *     : true;
+ * });
+ */
+
+import type { Application } from '../foundation/Application';
+import { Log } from '../log/Log';
+import type {
+  HealthCheckCallback,
+  HealthCheckOptions,
+  HealthCheckOutcome,
+  HealthCheckResult,
+  HealthProbe,
+  HealthReport,
+  HealthStatus,
+} from './types';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    health: HealthCheck;
+  }
+}
+
+/**
+ * The parts of config/health.ts read by the registry
+ */
+interface HealthConfig {
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 3000;
+
+const SEVERITY: Record<HealthStatus, number> = {
+  ok: 0,
+  warning: 1,
+  failed: 2,
+};
+
+export class HealthCheck {
+  static readonly inject = ['app'] as const;
+
+  private readonly _checks: Map<
+    string,
+    { callback: HealthCheckCallback; probes: HealthProbe[] }
+  > = new Map();
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Register a check, replacing any check of the same name
+   *
+   * Checks belong to the `ready` probe unless told otherwise.
+   */
+  register(
+    name: string,
+    callback: HealthCheckCallback,
+    options: HealthCheckOptions = {},
+  ): this {
+    this._checks.set(name, {
+      callback,
+      probes: options.probes ?? ['ready'],
+    });
+    return this;
+  }
+
+  /**
+   * Remove a check
+   */
+  forget(name: string): this {
+    this._checks.delete(name);
+    return this;
+  }
+
+  /**
+   * Get the registered checks and their probes
+   */
+  checks(): Record<string, HealthProbe[]> {
+    return Object.fromEntries(
+      [...this._checks].map(([name, { probes }]) => [name, [...probes]]),
+    );
+  }
+
+  /**
+   * Run the checks of a probe, or every check without one
+   */
+  async run(probe?: HealthProbe): Promise<HealthReport> {
+    const selected = [...this._checks].filter(
+      ([, check]) => probe === undefined || check.probes.includes(probe),
+    );
+
+    const results = await Promise.all(
+      selected.map(
+        async ([name, { callback }]) =>
+          [name, await this.runCheck(name, callback)] as const,
+      ),
+    );
+
+    const checks = Object.fromEntries(results);
+
+    return {
+      status: worst(Object.values(checks).map((result) => result.status)),
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  private async runCheck(
+    name: string,
+    callback: HealthCheckCallback,
+  ): Promise<HealthCheckResult> {
+    const started = performance.now();
+    let outcome: HealthCheckOutcome;
+
+    try {
+      outcome = normalize(await this.withTimeout(callback));
+    } catch (error) {
+      outcome = {
+        status: 'failed',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const latencyMs = Math.round(performance.now() - started);
+
+    if (outcome.status === 'failed') {
+      Log.warning(`Health check [${name}] failed`, {
+        message: outcome.message,
+        latencyMs,
+      });
+    }
+
+    return { ...outcome, latencyMs };
+  }
+
+  private async withTimeout(
+    callback: HealthCheckCallback,
+  ): Promise<Awaited<ReturnType<HealthCheckCallback>>> {
+    const timeout = this.config().timeout ?? DEFAULT_TIMEOUT;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await Promise.race([
+        Promise.resolve().then(callback),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${timeout}ms`)),
+            timeout,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private config(): HealthConfig {
+    return this._app.has('config')
+      ? (this._app.make('config').health ?? {})
+      : {};
+  }
+}
+
+function normalize(
+  value: Awaited<ReturnType<HealthCheckCallback>>,
+): HealthCheckOutcome {
+  if (value === undefined || value === true) {
+    return { status: 'ok' };
+  }
+
+  if (value === false) {
+    return { status: 'failed' };
+  }
+
+  return value;
+}
+
+function worst(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>(
+    (current, status) =>
+      SEVERITY[status] > SEVERITY[current] ? status : current,
+    'ok',
+  );
+}
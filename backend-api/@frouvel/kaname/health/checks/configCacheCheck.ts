@@ -0,0 +1,43 @@
+/**
+ * Config Cache Check
+ *
+ * Warns when the configuration cache is older than a file of the config
+ * directory, i.e. `config:cache` was not run again after a change.
+ * Passes when the configuration is not cached. Generated files such as
+ * `$types.ts` are ignored.
+ */
+
+import { existsSync, readdirSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import type { Application } from '../../foundation/Application';
+import { LoadConfiguration } from '../../foundation/bootstrappers/LoadConfiguration';
+import type { HealthCheckCallback } from '../types';
+
+export function configCacheCheck(app: Application): HealthCheckCallback {
+  return () => {
+    if (!LoadConfiguration.isCached(app)) {
+      return { status: 'ok', message: 'Not cached' };
+    }
+
+    const cachedAt = statSync(LoadConfiguration.cachePath(app)).mtimeMs;
+    const configPath = app.configPath();
+    const stale = existsSync(configPath)
+      ? readdirSync(configPath).filter(
+          (file) =>
+            extname(file) === '.ts' &&
+            !file.startsWith('$') &&
+            statSync(join(configPath, file)).mtimeMs > cachedAt,
+        )
+      : [];
+
+    if (stale.length > 0) {
+      return {
+        status: 'warning',
+        message: 'Configuration changed since it was cached. Run config:cache.',
+        meta: { changed: stale },
+      };
+    }
+
+    return { status: 'ok' };
+  };
+}
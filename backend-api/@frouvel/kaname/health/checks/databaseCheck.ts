@@ -0,0 +1,15 @@
+/**
+ * Database Check
+ *
+ * Fails when the database does not answer a `SELECT 1`.
+ */
+
+import type { Application } from '../../foundation/Application';
+import type { HealthCheckCallback } from '../types';
+
+export function databaseCheck(app: Application): HealthCheckCallback {
+  return async () => {
+    const prisma = await app.makeAsync('prisma');
+    await prisma.$queryRaw`SELECT 1`;
+  };
+}
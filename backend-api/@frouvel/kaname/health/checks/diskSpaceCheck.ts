@@ -0,0 +1,43 @@
+/**
+ * Disk Space Check
+ *
+ * Warns, then fails, as the free space of the disk holding `path` runs
+ * low.
+ */
+
+import { statfs } from 'fs/promises';
+import type { HealthCheckCallback } from '../types';
+
+export interface DiskSpaceOptions {
+  path: string;
+  /**
+   * Warn below this percentage of free space
+   */
+  warnFreePercent: number;
+  /**
+   * Fail below this percentage of free space
+   */
+  failFreePercent: number;
+}
+
+export function diskSpaceCheck(options: DiskSpaceOptions): HealthCheckCallback {
+  return async () => {
+    const stats = await statfs(options.path);
+    const freeBytes = stats.bavail * stats.bsize;
+    const freePercent =
+      stats.blocks > 0
+        ? Math.round((stats.bavail / stats.blocks) * 1000) / 10
+        : 100;
+    const meta = { path: options.path, freeBytes, freePercent };
+
+    if (freePercent < options.failFreePercent) {
+      return { status: 'failed', message: `${freePercent}% free`, meta };
+    }
+
+    if (freePercent < options.warnFreePercent) {
+      return { status: 'warning', message: `${freePercent}% free`, meta };
+    }
+
+    return { status: 'ok', meta };
+  };
+}
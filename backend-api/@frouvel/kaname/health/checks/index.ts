@@ -0,0 +1,8 @@
+/**
+ * Built-in Health Checks
+ */
+
+export { databaseCheck } from './databaseCheck';
+export { diskSpaceCheck } from './diskSpaceCheck';
+export type { DiskSpaceOptions } from './diskSpaceCheck';
+export { configCacheCheck } from './configCacheCheck';
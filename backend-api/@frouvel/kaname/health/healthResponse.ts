@@ -0,0 +1,15 @@
+/**
+ * Health Response
+ *
+ * Turn a health report into a controller response: 200 while healthy or
+ * degraded, 503 once a check failed so load balancers and orchestrators
+ * take the instance out of rotation.
+ */
+
+import type { HealthReport } from './types';
+
+export function healthResponse(report: HealthReport) {
+  return report.status === 'failed'
+    ? { status: 503 as const, body: report }
+    : { status: 200 as const, body: report };
+}
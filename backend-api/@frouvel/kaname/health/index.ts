@@ -0,0 +1,20 @@
+/**
+ * Health Module
+ *
+ * Registry of named health checks for the liveness and readiness probes,
+ * and the built-in database, disk space and config cache checks.
+ */
+
+export { HealthCheck } from './HealthCheck';
+export { healthResponse } from './healthResponse';
+export type {
+  HealthCheckCallback,
+  HealthCheckOptions,
+  HealthCheckOutcome,
+  HealthCheckResult,
+  HealthProbe,
+  HealthReport,
+  HealthStatus,
+} from './types';
+export { databaseCheck, diskSpaceCheck, configCacheCheck } from './checks';
+export type { DiskSpaceOptions } from './checks';
@@ -0,0 +1,46 @@
+/**
+ * Health Types
+ *
+ * The report types are shared with the frontend through
+ * commonTypesWithClient.
+ */
+
+import type { HealthStatus } from '$/commonTypesWithClient/health.types';
+
+export type {
+  HealthCheckResult,
+  HealthReport,
+  HealthStatus,
+} from '$/commonTypesWithClient/health.types';
+
+/**
+ * live: the process is able to serve at all
+ * ready: the process can take traffic
+ */
+export type HealthProbe = 'live' | 'ready';
+
+/**
+ * What a check reports, before its latency is measured
+ */
+export interface HealthCheckOutcome {
+  status: HealthStatus;
+  message?: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A check: passes when it returns nothing or true, fails when it throws
+ * or returns false
+ */
+export type HealthCheckCallback = () =>
+  | void
+  | boolean
+  | HealthCheckOutcome
+  | Promise<void | boolean | HealthCheckOutcome>;
+
+export interface HealthCheckOptions {
+  /**
+   * Probes running the check, `['ready']` by default
+   */
+  probes?: HealthProbe[];
+}
@@ -14,6 +14,7 @@ import type {
 } from './type/nfc9457';
 import { DEFAULT_PROBLEM_TYPE } from './type/nfc9457';
 import { AbstractFrourioFrameworkError } from '../error/FrourioFrameworkError';
+import { Context } from '../context/Context';
 
 // ============================================================================
 // Core Response Helpers
@@ -36,6 +37,12 @@ export function createProblemDetails(
     problemDetails.instance = options.instance;
   }
 
+  // Correlate the response with the logs of the request
+  const requestId = Context.requestId();
+  if (requestId) {
+    problemDetails.requestId = requestId;
+  }
+
   if (options.extensions) {
     Object.entries(options.extensions).forEach(([key, value]) => {
       problemDetails[key] = value;
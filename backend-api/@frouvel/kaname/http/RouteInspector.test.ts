@@ -0,0 +1,118 @@
+/**
+ * Route Inspector Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OpenApiGenerator } from '../swagger/OpenApiGenerator';
+import { RouteInspector } from './RouteInspector';
+
+describe('RouteInspector', () => {
+  let basePath: string;
+
+  const write = (path: string, content: string) => {
+    mkdirSync(join(basePath, path, '..'), { recursive: true });
+    writeFileSync(join(basePath, path), content);
+  };
+
+  const describeRoutes = () => {
+    const inspector = new RouteInspector(basePath, ['throttle:api']);
+
+    return OpenApiGenerator.create(
+      { title: 'Test', version: '1.0.0', apiBasePath: '/api' },
+      basePath,
+    )
+      .routes()
+      .map((route) => inspector.describe(route));
+  };
+
+  beforeEach(() => {
+    basePath = mkdtempSync(join(tmpdir(), 'kaname-routes-'));
+
+    write(
+      'api/admin/hooks.ts',
+      `export default defineHooks(() => ({
+  onRequest: middleware('auth', 'throttle:login'),
+}));`,
+    );
+    write(
+      'api/admin/users/_id@string/index.ts',
+      `export type Methods = DefineMethods<{
+  /**
+   * Find a user
+   * @summary Get a single user
+   * @tag Users
+   */
+  get: {
+    resBody: User;
+  };
+  patch: {
+    reqBody: UpdateUser;
+    resBody: User;
+  };
+}>;`,
+    );
+    write(
+      'api/admin/users/_id@string/validators.ts',
+      `export default defineValidators(() => ({
+  params: z.object({ id: z.string() }),
+}));`,
+    );
+    write(
+      'api/admin/users/_id@string/controller.ts',
+      `export default defineController(() => ({
+  get: ({ params }) => ApiResponse.success(find(params.id)),
+  patch: {
+    validators: { body: updateUserSchema },
+    hooks: { preHandler: middleware('can:update,user') },
+    handler: ({ params, body }) => ApiResponse.success(update(params.id, body)),
+  },
+}));`,
+    );
+    write(
+      'api/health/index.ts',
+      `export type Methods = DefineMethods<{
+  get: {
+    resBody: string;
+  };
+}>;`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(basePath, { recursive: true, force: true });
+  });
+
+  it('should describe the routes scanned from the api directory', () => {
+    const [get, patch, health] = describeRoutes();
+
+    expect(get).toEqual({
+      method: 'GET',
+      path: '/api/admin/users/{id}',
+      controller: 'api/admin/users/_id@string/controller.ts',
+      validators: ['params'],
+      hooks: ['onRequest'],
+      middleware: ['throttle:api', 'auth', 'throttle:login'],
+      summary: 'Get a single user',
+      tags: ['Users'],
+      deprecated: false,
+    });
+    expect(patch).toMatchObject({
+      method: 'PATCH',
+      validators: ['params', 'body'],
+      hooks: ['onRequest', 'preHandler'],
+      middleware: ['throttle:api', 'auth', 'throttle:login', 'can:update,user'],
+      summary: null,
+    });
+    expect(health).toMatchObject({
+      method: 'GET',
+      path: '/api/health',
+      controller: null,
+      validators: [],
+      hooks: [],
+      middleware: ['throttle:api'],
+    });
+  });
+});
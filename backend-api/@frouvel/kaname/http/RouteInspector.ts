@@ -0,0 +1,167 @@
+/**
+ * Route Inspector
+ *
+ * Describes the routes frourio builds from the api directory: the files
+ * handling them, their validators, hooks and middleware. Routes come from
+ * the scan of the OpenApiGenerator, so `route:list` and the OpenAPI
+ * document always agree.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import type { ApiRoute } from '../swagger/OpenApiGenerator';
+
+export interface RouteDescription {
+  /**
+   * Uppercase HTTP method, e.g. `GET`
+   */
+  method: string;
+  path: string;
+  /**
+   * controller.ts of the route, relative to the base path
+   */
+  controller: string | null;
+  /**
+   * Validated parts of the request: params, query, body, headers
+   */
+  validators: string[];
+  /**
+   * Fastify hooks of hooks.ts files and of the controller method
+   */
+  hooks: string[];
+  /**
+   * Global middleware followed by the middleware attached in hooks
+   */
+  middleware: string[];
+  summary: string | null;
+  tags: string[];
+  deprecated: boolean;
+}
+
+const HOOK_NAMES = [
+  'onRequest',
+  'preParsing',
+  'preValidation',
+  'preHandler',
+  'preSerialization',
+  'onSend',
+  'onResponse',
+  'onError',
+];
+
+const VALIDATED_PARTS = ['params', 'query', 'body', 'headers'];
+
+export class RouteInspector {
+  private readonly _files: Map<string, string | null> = new Map();
+
+  constructor(
+    private readonly _basePath: string,
+    private readonly _globalMiddleware: string[] = [],
+  ) {}
+
+  describe(route: ApiRoute): RouteDescription {
+    const controllerPath = join(route.directory, 'controller.ts');
+    const controller = this.read(controllerPath);
+    // Methods defined as `get: { hooks, validators, handler }`
+    const handler = objectBlock(controller, route.method);
+    const hookFiles = this.hookFiles(route.directory);
+
+    return {
+      method: route.method.toUpperCase(),
+      path: route.path,
+      controller: controller ? relative(this._basePath, controllerPath) : null,
+      validators: VALIDATED_PARTS.filter(
+        (part) =>
+          keys(this.read(join(route.directory, 'validators.ts'))).includes(
+            part,
+          ) || keys(objectBlock(handler, 'validators')).includes(part),
+      ),
+      hooks: unique([
+        ...hookFiles.flatMap((content) => keys(content)),
+        ...keys(objectBlock(handler, 'hooks')),
+      ]).filter((name) => HOOK_NAMES.includes(name)),
+      middleware: unique([
+        ...this._globalMiddleware,
+        ...hookFiles.flatMap(middlewareNames),
+        ...middlewareNames(objectBlock(handler, 'hooks')),
+      ]),
+      summary: route.jsDoc?.summary ?? null,
+      tags: route.jsDoc?.tags ?? [],
+      deprecated: route.jsDoc?.deprecated ?? false,
+    };
+  }
+
+  /**
+   * Get the hooks.ts files applying to a directory, from the api root down
+   */
+  private hookFiles(directory: string): string[] {
+    const apiPath = join(this._basePath, 'api');
+    const files: string[] = [];
+
+    for (
+      let current = directory;
+      current.startsWith(apiPath);
+      current = dirname(current)
+    ) {
+      const content = this.read(join(current, 'hooks.ts'));
+      if (content) {
+        files.unshift(content);
+      }
+    }
+
+    return files;
+  }
+
+  private read(path: string): string | null {
+    if (!this._files.has(path)) {
+      this._files.set(
+        path,
+        existsSync(path) ? readFileSync(path, 'utf-8') : null,
+      );
+    }
+    return this._files.get(path) ?? null;
+  }
+}
+
+/**
+ * Get the object literal following `name: {`, braces included
+ */
+function objectBlock(content: string | null, name: string): string {
+  const match = content?.match(new RegExp(`\\b${name}\\s*:\\s*\\{`));
+  if (!content || !match || match.index === undefined) {
+    return '';
+  }
+
+  const start = match.index + match[0].length - 1;
+  let depth = 0;
+
+  for (let i = start; i < content.length; i++) {
+    if (content[i] === '{') depth++;
+    if (content[i] === '}') depth--;
+    if (depth === 0) {
+      return content.substring(start, i + 1);
+    }
+  }
+
+  return content.substring(start);
+}
+
+/**
+ * Get the property names used in a piece of code
+ */
+function keys(content: string | null): string[] {
+  return [...(content ?? '').matchAll(/\b(\w+)\s*:/g)].map((m) => m[1]);
+}
+
+/**
+ * Get the names given to middleware() calls
+ */
+function middlewareNames(content: string): string[] {
+  return [...content.matchAll(/\bmiddleware\(([^)]*)\)/g)].flatMap((call) =>
+    [...call[1].matchAll(/['"`]([^'"`]+)['"`]/g)].map((name) => name[1]),
+  );
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
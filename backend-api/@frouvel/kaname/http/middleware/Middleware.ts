@@ -0,0 +1,38 @@
+/**
+ * Middleware Contract
+ *
+ * Laravel-style HTTP middleware, run by the MiddlewarePipeline before the
+ * controller. Named middleware receive their parameters after the reply,
+ * e.g. `throttle:60,1` calls handle(request, reply, '60', '1').
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Injectable } from '../../container/Container';
+
+/**
+ * A response ending the request, e.g. `ApiResponse.unauthorized('...')`
+ */
+export interface MiddlewareResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string | number>;
+}
+
+export interface Middleware {
+  /**
+   * Handle the request
+   *
+   * Return a response to short-circuit the request, or nothing to pass it
+   * on to the next middleware.
+   */
+  handle(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    ...parameters: string[]
+  ): MiddlewareResponse | void | Promise<MiddlewareResponse | void>;
+}
+
+/**
+ * A middleware class, constructed by the container
+ */
+export type MiddlewareClass = Injectable<Middleware>;
@@ -0,0 +1,143 @@
+/**
+ * Middleware Pipeline Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Application } from '../../foundation/Application';
+import { ApiResponse } from '../ApiResponse';
+import { MiddlewarePipeline, parseMiddleware } from './MiddlewarePipeline';
+import { aliasMiddleware } from './aliasMiddleware';
+import { middleware } from './routeMiddleware';
+import type { Middleware } from './Middleware';
+
+const calls: string[] = [];
+
+class RecordCall implements Middleware {
+  handle(_request: FastifyRequest, _reply: FastifyReply, label = 'record') {
+    calls.push(label);
+  }
+}
+
+class RequireToken implements Middleware {
+  handle(request: FastifyRequest) {
+    calls.push('token');
+    if (request.headers['x-token'] !== 'secret') {
+      return ApiResponse.unauthorized('Missing token');
+    }
+  }
+}
+
+describe('MiddlewarePipeline', () => {
+  let app: Application;
+  let fastify: FastifyInstance;
+
+  beforeEach(async () => {
+    calls.length = 0;
+    app = new Application('/tmp');
+    app.instance('config', {
+      http: {
+        middleware: ['record:global'],
+        middlewareGroups: {
+          secured: ['record:group', 'token'],
+          admin: ['secured', 'record:admin'],
+        },
+      },
+    });
+    app.singleton('middleware', MiddlewarePipeline);
+    aliasMiddleware(app, { record: RecordCall, token: RequireToken });
+
+    fastify = Fastify();
+    fastify.addHook('onRequest', (request, _reply, done) => {
+      request.container = app.createScope();
+      done();
+    });
+    fastify.get('/open', { onRequest: middleware('record') }, async () => ({
+      ok: true,
+    }));
+    fastify.get('/admin', { onRequest: middleware('admin') }, async () => {
+      calls.push('controller');
+      return { ok: true };
+    });
+    fastify.get('/missing', { onRequest: middleware('nope') }, async () => ({
+      ok: true,
+    }));
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it('should parse names and parameters', () => {
+    expect(parseMiddleware('auth')).toEqual({ name: 'auth', parameters: [] });
+    expect(parseMiddleware('throttle:60,1')).toEqual({
+      name: 'throttle',
+      parameters: ['60', '1'],
+    });
+  });
+
+  it('should expand nested groups in order', () => {
+    const pipeline = app.make('middleware');
+
+    expect(pipeline.global()).toEqual(['record:global']);
+    expect(pipeline.expand(['admin', 'record'])).toEqual([
+      'record:group',
+      'token',
+      'record:admin',
+      'record',
+    ]);
+  });
+
+  it('should report groups including themselves', () => {
+    app.instance('config', {
+      http: { middlewareGroups: { loop: ['record', 'loop'] } },
+    });
+
+    expect(() => app.make('middleware').expand(['loop'])).toThrow(
+      'Middleware group [loop] includes itself: loop -> loop',
+    );
+  });
+
+  it('should run route middleware with their parameters', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/open' });
+
+    expect(response.statusCode).toBe(200);
+    expect(calls).toEqual(['record']);
+  });
+
+  it('should run groups and reach the controller', async () => {
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/admin',
+      headers: { 'x-token': 'secret' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(calls).toEqual(['group', 'token', 'admin', 'controller']);
+  });
+
+  it('should short-circuit with the returned problem response', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/admin' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.headers['content-type']).toContain(
+      'application/problem+json',
+    );
+    expect(response.json()).toMatchObject({
+      status: 401,
+      detail: 'Missing token',
+    });
+    expect(calls).toEqual(['group', 'token']);
+  });
+
+  it('should fail for middleware that is not defined', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/missing' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json().message).toBe(
+      'Middleware [nope] is not defined. Register it with aliasMiddleware().',
+    );
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Middleware Pipeline
+ *
+ * Runs named middleware and middleware groups against a request.
+ * The global stack and the groups come from config/http.ts; the names are
+ * resolved through the request-scoped container (see aliasMiddleware()).
+ *
+ * Groups may contain other groups. A middleware that returns a response
+ * stops the pipeline and the response is sent, so neither the remaining
+ * middleware nor the controller run.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Application } from '../../foundation/Application';
+import { PROBLEM_DETAILS_MEDIA_TYPE } from '../type/nfc9457';
+import { middlewareToken } from './aliasMiddleware';
+import type { MiddlewareResponse } from './Middleware';
+
+declare module '../../container/ServiceMap' {
+  interface ServiceMap {
+    middleware: MiddlewarePipeline;
+  }
+}
+
+/**
+ * The middleware settings of config/http.ts
+ */
+export interface MiddlewareConfig {
+  middleware?: string[];
+  middlewareGroups?: Record<string, string[]>;
+}
+
+export class MiddlewarePipeline {
+  static readonly inject = ['app'] as const;
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Get the middleware run on every request
+   */
+  global(): string[] {
+    return this.config().middleware ?? [];
+  }
+
+  /**
+   * Replace group names with the middleware they contain
+   *
+   * @example pipeline.expand(['admin']) // ['throttle:60,1', 'auth:admin']
+   */
+  expand(names: string[], expanding: string[] = []): string[] {
+    const groups = this.config().middlewareGroups ?? {};
+
+    return names.flatMap((name) => {
+      const group = groups[name];
+      if (!group) {
+        return [name];
+      }
+
+      if (expanding.includes(name)) {
+        throw new Error(
+          `Middleware group [${name}] includes itself: ${[...expanding, name].join(' -> ')}`,
+        );
+      }
+
+      return this.expand(group, [...expanding, name]);
+    });
+  }
+
+  /**
+   * Run the given middleware and groups in order
+   *
+   * Returns true when a middleware has responded to the request.
+   */
+  async run(
+    names: string[],
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): Promise<boolean> {
+    const container = request.container ?? this._app;
+
+    for (const definition of this.expand(names)) {
+      const { name, parameters } = parseMiddleware(definition);
+      const token = middlewareToken(name);
+
+      if (!container.has(token)) {
+        throw new Error(
+          `Middleware [${name}] is not defined. Register it with aliasMiddleware().`,
+        );
+      }
+
+      const response = await container
+        .make(token)
+        .handle(request, reply, ...parameters);
+
+      if (response) {
+        this.send(reply, response);
+      }
+
+      if (reply.sent) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private send(reply: FastifyReply, response: MiddlewareResponse): void {
+    reply.status(response.status);
+
+    if (response.headers) {
+      reply.headers(response.headers);
+    }
+
+    if (response.status >= 400 && !reply.hasHeader('Content-Type')) {
+      reply.header('Content-Type', PROBLEM_DETAILS_MEDIA_TYPE);
+    }
+
+    reply.send(response.body);
+  }
+
+  private config(): MiddlewareConfig {
+    return this._app.has('config') ? (this._app.make('config').http ?? {}) : {};
+  }
+}
+
+/**
+ * Split a middleware definition into its name and parameters
+ *
+ * @example parseMiddleware('throttle:60,1') // { name: 'throttle', parameters: ['60', '1'] }
+ */
+export function parseMiddleware(definition: string): {
+  name: string;
+  parameters: string[];
+} {
+  const separator = definition.indexOf(':');
+  if (separator === -1) {
+    return { name: definition, parameters: [] };
+  }
+
+  return {
+    name: definition.slice(0, separator),
+    parameters: definition.slice(separator + 1).split(','),
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Middleware Aliases
+ *
+ * Service providers make middleware available by name. Every alias is
+ * bound in the container as a singleton, so middleware classes can declare
+ * their dependencies in a static `inject` list.
+ */
+
+import type { Application } from '../../foundation/Application';
+import { createToken } from '../../container/ServiceToken';
+import type { ServiceToken } from '../../container/ServiceToken';
+import type { Middleware, MiddlewareClass } from './Middleware';
+
+/**
+ * Get the container key of a middleware alias
+ */
+export function middlewareToken(name: string): ServiceToken<Middleware> {
+  return createToken<Middleware>(`middleware.${name}`);
+}
+
+/**
+ * Bind the given middleware classes under their aliases
+ *
+ * @example
+ * aliasMiddleware(app, { auth: Authenticate, throttle: ThrottleRequests });
+ */
+export function aliasMiddleware(
+  app: Application,
+  aliases: Record<string, MiddlewareClass>,
+): void {
+  Object.entries(aliases).forEach(([name, MiddlewareClass]) =>
+    app.singleton(middlewareToken(name), MiddlewareClass),
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * HTTP Middleware Module
+ *
+ * Laravel-style middleware: a global stack, named middleware with
+ * parameters and groups, resolved through the service container.
+ */
+
+export { MiddlewarePipeline, parseMiddleware } from './MiddlewarePipeline';
+export type { MiddlewareConfig } from './MiddlewarePipeline';
+export { aliasMiddleware, middlewareToken } from './aliasMiddleware';
+export { middleware } from './routeMiddleware';
+export type {
+  Middleware,
+  MiddlewareClass,
+  MiddlewareResponse,
+} from './Middleware';
@@ -0,0 +1,34 @@
+/**
+ * Route Middleware
+ *
+ * Attaches middleware to every route of a directory through frourio's
+ * hooks.ts, which applies to the directory and its subdirectories.
+ *
+ * @example
+ * // api/admin/hooks.ts
+ * import { middleware } from '$/@frouvel/kaname/http/middleware';
+ * import { defineHooks } from './$relay';
+ *
+ * export default defineHooks(() => ({
+ *   onRequest: middleware('admin', 'throttle:30,1'),
+ * }));
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+/**
+ * Create a hook running the given middleware and groups
+ */
+export function middleware(...names: string[]) {
+  return async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): Promise<FastifyReply | undefined> => {
+    const responded = await request.container
+      .make('middleware')
+      .run(names, request, reply);
+
+    // Returning the reply tells Fastify the request has been answered
+    return responded ? reply : undefined;
+  };
+}
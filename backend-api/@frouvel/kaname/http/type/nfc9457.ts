@@ -40,6 +40,12 @@ export interface ProblemDetails {
    */
   instance?: string;
 
+  /**
+   * The id of the request (X-Request-Id), to correlate the problem with
+   * the server logs
+   */
+  requestId?: string;
+
   /**
    * Additional extension members
    * Problem type definitions MAY extend the problem details object with additional members.
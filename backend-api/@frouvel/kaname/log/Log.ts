@@ -0,0 +1,99 @@
+/**
+ * Log Facade
+ *
+ * Logs to the channels of config/logging.ts from anywhere, including code
+ * without access to the container. Inspired by Laravel's Log facade.
+ *
+ * @example
+ * Log.info('User registered', { userId: user.id });
+ * Log.channel('daily').warning('Disk almost full');
+ * Log.withContext({ job: 'import' }).error('Import failed', { error });
+ */
+
+import { LogManager } from './LogManager';
+import type { MemoryChannel } from './channels/MemoryChannel';
+import type { Logger } from './Logger';
+import type { LogContext, LogLevel } from './types';
+
+/**
+ * The manager of the running application
+ * @internal
+ */
+let manager: LogManager | null = null;
+
+const root = (): LogManager => (manager ??= new LogManager());
+
+export const Log = {
+  /**
+   * Get the logger of a channel
+   */
+  channel: (name?: string): Logger => root().channel(name),
+
+  /**
+   * Get a logger writing to several channels at once
+   */
+  stack: (channels: string[]): Logger => root().stack(channels),
+
+  /**
+   * Get a logger of the default channel adding the given fields
+   */
+  withContext: (context: LogContext): Logger =>
+    root().channel().withContext(context),
+
+  /**
+   * Log a message at the given level
+   */
+  log: (level: LogLevel, message: string, context?: LogContext): void =>
+    root().channel().log(level, message, context),
+
+  debug: (message: string, context?: LogContext): void =>
+    root().channel().debug(message, context),
+
+  info: (message: string, context?: LogContext): void =>
+    root().channel().info(message, context),
+
+  notice: (message: string, context?: LogContext): void =>
+    root().channel().notice(message, context),
+
+  warning: (message: string, context?: LogContext): void =>
+    root().channel().warning(message, context),
+
+  error: (message: string, context?: LogContext): void =>
+    root().channel().error(message, context),
+
+  critical: (message: string, context?: LogContext): void =>
+    root().channel().critical(message, context),
+
+  alert: (message: string, context?: LogContext): void =>
+    root().channel().alert(message, context),
+
+  emergency: (message: string, context?: LogContext): void =>
+    root().channel().emergency(message, context),
+
+  /**
+   * Use the manager of an application (done by the kernels)
+   *
+   * Passing null goes back to a manager without configuration.
+   */
+  setManager: (logManager: LogManager | null): void => {
+    manager = logManager;
+  },
+
+  /**
+   * Get the manager the facade logs through
+   */
+  getManager: (): LogManager => root(),
+
+  /**
+   * Keep every record in memory, to silence logs in tests and assert on
+   * them
+   *
+   * @example
+   * const logs = Log.fake();
+   * expect(logs.has('error', 'Payment failed')).toBe(true);
+   */
+  fake: (): MemoryChannel => {
+    manager = new LogManager();
+    return manager.fake();
+  },
+};
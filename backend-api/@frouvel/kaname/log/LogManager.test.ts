@@ -0,0 +1,166 @@
+/**
+ * Log Manager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { Application } from '../foundation/Application';
+import { Log } from './Log';
+import { LogManager } from './LogManager';
+import { MemoryChannel } from './channels/MemoryChannel';
+import { NullChannel } from './channels/NullChannel';
+import { StackChannel } from './channels/StackChannel';
+import { createFastifyLogger } from './fastifyLogger';
+import type { LoggingConfig } from './types';
+
+const logging: LoggingConfig = {
+  default: 'stack',
+  channels: {
+    stack: { driver: 'stack', channels: ['audit', 'errors'] },
+    audit: { driver: 'memory' },
+    errors: { driver: 'memory', level: 'error' },
+    loop: { driver: 'stack', channels: ['loop'] },
+    broken: { driver: 'papertrail' },
+  },
+};
+
+describe('LogManager', () => {
+  let app: Application;
+  let manager: LogManager;
+
+  beforeEach(() => {
+    app = new Application('/tmp');
+    app.instance('config', { logging });
+    manager = app.make('log');
+  });
+
+  afterEach(() => {
+    Log.setManager(null);
+  });
+
+  it('should create and reuse the loggers of config/logging.ts', () => {
+    expect(manager.getDefaultChannel()).toBe('stack');
+    expect(manager.channel()).toBe(manager.channel('stack'));
+    expect(manager.channel('stack').getChannel()).toBeInstanceOf(StackChannel);
+  });
+
+  it('should send stacked records to every channel of the stack', () => {
+    const audit = manager.channel('audit').getChannel() as MemoryChannel;
+    const errors = manager.channel('errors').getChannel() as MemoryChannel;
+
+    manager.stack(['audit', 'errors']).info('Order placed');
+    manager.stack(['audit', 'errors']).error('Payment failed');
+
+    expect(audit.records.map(({ message }) => message)).toEqual([
+      'Order placed',
+      'Payment failed',
+    ]);
+    expect(errors.records.map(({ message }) => message)).toEqual([
+      'Payment failed',
+    ]);
+  });
+
+  it('should fall back for channels that cannot be created', () => {
+    for (const channel of ['missing', 'loop', 'broken']) {
+      expect(manager.channel(channel).getChannel()).toBeInstanceOf(NullChannel);
+    }
+  });
+
+  it('should create channels of custom drivers', () => {
+    const logs = new MemoryChannel();
+    manager.extend('papertrail', (config) => {
+      expect(config.driver).toBe('papertrail');
+      return logs;
+    });
+
+    manager.channel('broken').notice('Deployed');
+
+    expect(logs.has('notice', 'Deployed')).toBe(true);
+  });
+
+  it('should use the fallback channel until the configuration is loaded', () => {
+    const unconfigured = new LogManager(new Application('/tmp'));
+
+    expect(unconfigured.getDefaultChannel()).toBe('fallback');
+    // NODE_ENV is 'test' under vitest
+    expect(unconfigured.channel().getChannel()).toBeInstanceOf(NullChannel);
+  });
+
+  it('should send everything to memory when faked', () => {
+    const logs = manager.fake();
+
+    manager.channel('errors').debug('Kept');
+
+    expect(logs.has('debug', 'Kept')).toBe(true);
+  });
+});
+
+describe('Log', () => {
+  afterEach(() => {
+    Log.setManager(null);
+  });
+
+  it('should log through the manager of the application', () => {
+    const app = new Application('/tmp');
+    app.instance('config', { logging });
+    Log.setManager(app.make('log'));
+
+    Log.withContext({ orderId: 7 }).error('Payment failed');
+
+    const errors = app.make('log').channel('errors').getChannel();
+    expect((errors as MemoryChannel).records).toMatchObject([
+      { message: 'Payment failed', context: { orderId: 7 } },
+    ]);
+  });
+
+  it('should keep records in memory when faked', () => {
+    const logs = Log.fake();
+
+    Log.info('User registered', { userId: 1 });
+    Log.channel('daily').critical('Disk full');
+
+    expect(logs.records).toMatchObject([
+      { level: 'info', message: 'User registered', context: { userId: 1 } },
+      { level: 'critical', channel: 'daily', message: 'Disk full' },
+    ]);
+  });
+});
+
+describe('createFastifyLogger', () => {
+  it('should write Fastify request logs to the logger', async () => {
+    const manager = new LogManager();
+    const channel = manager.fake();
+    const app = Fastify({
+      loggerInstance: createFastifyLogger(manager.channel('http')),
+      requestIdLogLabel: 'requestId',
+      genReqId: () => 'req-1',
+    });
+    app.get('/users', async (request) => {
+      request.log.warn({ userId: 1 }, 'Slow query');
+      return [];
+    });
+
+    await app.inject({ method: 'GET', url: '/users' });
+
+    expect(channel.records).toMatchObject([
+      {
+        level: 'info',
+        channel: 'http',
+        message: 'incoming request',
+        context: { requestId: 'req-1', method: 'GET', url: '/users' },
+      },
+      {
+        level: 'warning',
+        message: 'Slow query',
+        context: { requestId: 'req-1', userId: 1 },
+      },
+      {
+        level: 'info',
+        message: 'request completed',
+        context: { requestId: 'req-1', statusCode: 200 },
+      },
+    ]);
+
+    await app.close();
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Log Manager
+ *
+ * Creates the loggers of the channels defined in config/logging.ts.
+ * Inspired by Laravel's Illuminate\Log\LogManager.
+ *
+ * Built-in drivers: stdout (JSON lines), pretty, daily (JSON files),
+ * memory, stack and null. More drivers are added with extend().
+ *
+ * Every logger masks sensitive values with the redactor configured in the
+ * `redact` section of config/logging.ts.
+ */
+
+import { isAbsolute } from 'path';
+import type { Application } from '../foundation/Application';
+import { Logger } from './Logger';
+import { Redactor } from './Redactor';
+import {
+  DailyFileChannel,
+  MemoryChannel,
+  NullChannel,
+  PrettyChannel,
+  StackChannel,
+  StdoutChannel,
+} from './channels';
+import type {
+  ChannelConfig,
+  LogChannel,
+  LoggingConfig,
+  LogLevel,
+} from './types';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    log: LogManager;
+  }
+}
+
+/**
+ * Create the channel of a driver from its configuration
+ */
+export type ChannelFactory = (
+  config: ChannelConfig,
+  manager: LogManager,
+) => LogChannel;
+
+export class LogManager {
+  static readonly inject = ['app'] as const;
+
+  private readonly _loggers: Map<string, Logger> = new Map();
+  private readonly _channels: Map<string, LogChannel> = new Map();
+  private readonly _drivers: Map<string, ChannelFactory> = new Map();
+  private _redactor: Redactor | null = null;
+  private _fake: MemoryChannel | null = null;
+
+  /**
+   * Without an application (or before the configuration is loaded),
+   * records go to the fallback channel
+   */
+  constructor(private readonly _app: Application | null = null) {}
+
+  /**
+   * Get the logger of a channel, by default the `default` channel
+   */
+  channel(name?: string): Logger {
+    const channel = name ?? this.getDefaultChannel();
+
+    if (this._fake) {
+      return new Logger(this._fake, channel, {}, this.redactor());
+    }
+
+    const config = this.config();
+    if (!config) {
+      return new Logger(this.fallbackChannel(), channel, {}, this.redactor());
+    }
+
+    const cached = this._loggers.get(channel);
+    if (cached) {
+      return cached;
+    }
+
+    let logger: Logger;
+    try {
+      logger = new Logger(
+        this.resolve(channel, config, []),
+        channel,
+        {},
+        this.redactor(),
+      );
+    } catch (error) {
+      logger = new Logger(this.fallbackChannel(), channel, {}, this.redactor());
+      logger.emergency('Unable to create the configured logger', { error });
+    }
+
+    this._loggers.set(channel, logger);
+    return logger;
+  }
+
+  /**
+   * Get a logger writing to several channels at once
+   */
+  stack(channels: string[], name: string = 'stack'): Logger {
+    return new Logger(
+      new StackChannel(
+        channels.map((channel) => this.channel(channel).getChannel()),
+      ),
+      name,
+      {},
+      this.redactor(),
+    );
+  }
+
+  /**
+   * Get the redactor masking sensitive values of every record
+   */
+  redactor(): Redactor {
+    return (this._redactor ??= new Redactor(this.config()?.redact));
+  }
+
+  /**
+   * Register a custom driver
+   *
+   * @example
+   * app.make('log').extend('sentry', (config) => new SentryChannel(config));
+   */
+  extend(driver: string, factory: ChannelFactory): this {
+    this._drivers.set(driver, factory);
+    this.forgetChannels();
+    return this;
+  }
+
+  /**
+   * Send every record to memory instead of the configured channels
+   */
+  fake(): MemoryChannel {
+    this._fake = new MemoryChannel();
+    return this._fake;
+  }
+
+  /**
+   * Get the name of the default channel
+   */
+  getDefaultChannel(): string {
+    return this.config()?.default ?? 'fallback';
+  }
+
+  /**
+   * Forget the created loggers, e.g. after the configuration changed
+   */
+  forgetChannels(): void {
+    this._loggers.clear();
+    this._channels.clear();
+    this._redactor = null;
+  }
+
+  private config(): LoggingConfig | null {
+    return this._app?.has('config')
+      ? (this._app.make('config').logging ?? null)
+      : null;
+  }
+
+  /**
+   * Get the channel of a name, shared by its logger and the stacks using it
+   */
+  private resolve(
+    name: string,
+    config: LoggingConfig,
+    resolving: string[],
+  ): LogChannel {
+    const cached = this._channels.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const channel = this.create(name, config, resolving);
+    this._channels.set(name, channel);
+    return channel;
+  }
+
+  private create(
+    name: string,
+    config: LoggingConfig,
+    resolving: string[],
+  ): LogChannel {
+    const channel = config.channels?.[name];
+    if (!channel) {
+      throw new Error(`Log channel [${name}] is not defined.`);
+    }
+    if (resolving.includes(name)) {
+      throw new Error(
+        `Log stack [${[...resolving, name].join(' -> ')}] is circular.`,
+      );
+    }
+
+    const custom = this._drivers.get(channel.driver);
+    if (custom) {
+      return custom(channel, this);
+    }
+
+    switch (channel.driver) {
+      case 'stdout':
+        return new StdoutChannel(channel.level);
+      case 'pretty':
+        return new PrettyChannel(channel.level);
+      case 'daily':
+        return new DailyFileChannel({
+          path: this.path(String(channel.path ?? 'storage/logs/kaname.log')),
+          days: channel.days as number | undefined,
+          level: channel.level,
+        });
+      case 'memory':
+        return new MemoryChannel(channel.level);
+      case 'null':
+        return new NullChannel();
+      case 'stack':
+        return new StackChannel(
+          ((channel.channels as string[] | undefined) ?? []).map((child) =>
+            this.resolve(child, config, [...resolving, name]),
+          ),
+        );
+      default:
+        throw new Error(
+          `Log driver [${channel.driver}] of channel [${name}] is not supported.`,
+        );
+    }
+  }
+
+  /**
+   * The channel used until config/logging.ts is loaded: JSON in
+   * production, nothing in tests, pretty output otherwise
+   */
+  private fallbackChannel(): LogChannel {
+    const level = (process.env.LOG_LEVEL as LogLevel | undefined) ?? 'info';
+
+    switch (process.env.NODE_ENV) {
+      case 'production':
+        return new StdoutChannel(level);
+      case 'test':
+        return new NullChannel();
+      default:
+        return new PrettyChannel(level);
+    }
+  }
+
+  private path(path: string): string {
+    return isAbsolute(path) || !this._app ? path : this._app.basePath(path);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Logger Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Logger } from './Logger';
+import { MemoryChannel } from './channels/MemoryChannel';
+import { formatJson, formatPretty } from './formatters';
+import { Context } from '../context/Context';
+import type { LogRecord } from './types';
+
+const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+  time: new Date('2025-01-31T12:00:00.000Z'),
+  level: 'info',
+  channel: 'stdout',
+  message: 'User registered',
+  context: {},
+  ...overrides,
+});
+
+describe('Logger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write records with the level and context', () => {
+    const channel = new MemoryChannel();
+    const logger = new Logger(channel, 'app');
+
+    logger.info('User registered', { userId: 1 });
+    logger.error('Payment failed');
+
+    expect(channel.records).toMatchObject([
+      {
+        level: 'info',
+        channel: 'app',
+        message: 'User registered',
+        context: { userId: 1 },
+      },
+      { level: 'error', message: 'Payment failed', context: {} },
+    ]);
+    expect(channel.has('error', /Payment/)).toBe(true);
+    expect(channel.has('warning')).toBe(false);
+  });
+
+  it('should add the current context and the fields of withContext()', () => {
+    const channel = new MemoryChannel();
+    const logger = new Logger(channel, 'app').withContext({ job: 'import' });
+
+    Context.run({ requestId: 'req-1' }, () =>
+      logger.warning('Row skipped', { row: 3 }),
+    );
+
+    expect(channel.records[0].context).toEqual({
+      requestId: 'req-1',
+      job: 'import',
+      row: 3,
+    });
+  });
+
+  it('should skip records below the minimum level of the channel', () => {
+    const channel = new MemoryChannel('warning');
+    const logger = new Logger(channel, 'app');
+
+    logger.debug('Noise');
+    logger.info('Noise');
+    logger.warning('Disk almost full');
+    logger.emergency('Disk full');
+
+    expect(channel.records.map(({ level }) => level)).toEqual([
+      'warning',
+      'emergency',
+    ]);
+  });
+
+  it('should not throw when a channel fails', () => {
+    const write = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+    const logger = new Logger(
+      {
+        handle: () => {
+          throw new Error('disk full');
+        },
+      },
+      'daily',
+    );
+
+    expect(() => logger.error('Payment failed')).not.toThrow();
+    expect(String(write.mock.calls[0][0])).toContain(
+      'Failed to write to channel [daily]: Error: disk full',
+    );
+  });
+});
+
+describe('formatters', () => {
+  it('should format JSON lines with context fields and errors', () => {
+    const error = new Error('boom');
+    const line = JSON.parse(
+      formatJson(record({ context: { requestId: 'req-1', error } })),
+    );
+
+    expect(line).toMatchObject({
+      time: '2025-01-31T12:00:00.000Z',
+      level: 'info',
+      channel: 'stdout',
+      message: 'User registered',
+      requestId: 'req-1',
+      error: { name: 'Error', message: 'boom' },
+    });
+    expect(line.error.stack).toContain('boom');
+  });
+
+  it('should survive circular references and bigints', () => {
+    const payload: Record<string, unknown> = { id: 1n };
+    payload.self = payload;
+
+    expect(JSON.parse(formatJson(record({ context: { payload } })))).toEqual(
+      expect.objectContaining({
+        payload: { id: '1', self: '[Circular]' },
+      }),
+    );
+  });
+
+  it('should format readable lines with the request id', () => {
+    expect(
+      formatPretty(record({ context: { requestId: 'req-1', userId: 1 } })),
+    ).toBe(
+      '2025-01-31 12:00:00.000 INFO      [req-1] User registered { userId: 1 }',
+    );
+    expect(formatPretty(record())).toBe(
+      '2025-01-31 12:00:00.000 INFO      User registered',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Logger
+ *
+ * Writes records to a channel. Every record carries the values of the
+ * current Context (e.g. `requestId`), the fields of the logger and the
+ * fields given to the call, with sensitive values masked by the redactor.
+ */
+
+import { Context } from '../context/Context';
+import type { Redactor } from './Redactor';
+import type { LogChannel, LogContext, LogLevel } from './types';
+
+export class Logger {
+  constructor(
+    private readonly _channel: LogChannel,
+    readonly name: string,
+    private readonly _context: LogContext = {},
+    private readonly _redactor: Redactor | null = null,
+  ) {}
+
+  /**
+   * Get a logger adding the given fields to every record
+   */
+  withContext(context: LogContext): Logger {
+    return new Logger(
+      this._channel,
+      this.name,
+      { ...this._context, ...context },
+      this._redactor,
+    );
+  }
+
+  /**
+   * Get the channel records are written to
+   */
+  getChannel(): LogChannel {
+    return this._channel;
+  }
+
+  /**
+   * Log a message at the given level
+   *
+   * Logging never throws: a failing channel is reported on stderr.
+   */
+  log(level: LogLevel, message: string, context: LogContext = {}): void {
+    try {
+      const fields = { ...Context.all(), ...this._context, ...context };
+
+      this._channel.handle({
+        time: new Date(),
+        level,
+        channel: this.name,
+        message,
+        context: this._redactor ? this._redactor.redact(fields) : fields,
+      });
+    } catch (error) {
+      process.stderr.write(
+        `[Log] Failed to write to channel [${this.name}]: ${String(error)}\n${message}\n`,
+      );
+    }
+  }
+
+  /**
+   * Detailed debug information
+   */
+  debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context);
+  }
+
+  /**
+   * Interesting events, e.g. a user logging in
+   */
+  info(message: string, context?: LogContext): void {
+    this.log('info', message, context);
+  }
+
+  /**
+   * Normal but significant events
+   */
+  notice(message: string, context?: LogContext): void {
+    this.log('notice', message, context);
+  }
+
+  /**
+   * Exceptional occurrences that are not errors, e.g. deprecated APIs
+   */
+  warning(message: string, context?: LogContext): void {
+    this.log('warning', message, context);
+  }
+
+  /**
+   * Runtime errors that do not require immediate action
+   */
+  error(message: string, context?: LogContext): void {
+    this.log('error', message, context);
+  }
+
+  /**
+   * Critical conditions, e.g. an unavailable component
+   */
+  critical(message: string, context?: LogContext): void {
+    this.log('critical', message, context);
+  }
+
+  /**
+   * Action must be taken immediately, e.g. the database is down
+   */
+  alert(message: string, context?: LogContext): void {
+    this.log('alert', message, context);
+  }
+
+  /**
+   * The system is unusable
+   */
+  emergency(message: string, context?: LogContext): void {
+    this.log('emergency', message, context);
+  }
+}
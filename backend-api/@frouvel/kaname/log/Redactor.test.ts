@@ -0,0 +1,191 @@
+/**
+ * Redactor Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Redactor } from './Redactor';
+import { Logger } from './Logger';
+import { LogManager } from './LogManager';
+import { MemoryChannel } from './channels/MemoryChannel';
+import { Application } from '../foundation/Application';
+
+describe('Redactor', () => {
+  const redactor = new Redactor();
+
+  it('should mask sensitive keys ignoring case and separators', () => {
+    expect(
+      redactor.redact({
+        email: 'taro@example.com',
+        password: 'secret123',
+        passwordConfirmation: 'secret123',
+        access_token: 'abc',
+        refreshToken: 'def',
+        'X-API-KEY': 'ghi',
+      }),
+    ).toEqual({
+      email: 'taro@example.com',
+      password: '[REDACTED]',
+      passwordConfirmation: '[REDACTED]',
+      access_token: '[REDACTED]',
+      refreshToken: '[REDACTED]',
+      'X-API-KEY': '[REDACTED]',
+    });
+  });
+
+  it('should mask nested objects and arrays', () => {
+    expect(
+      redactor.redact({
+        body: {
+          user: { name: 'Taro', credentials: { password: 'p' } },
+          sessions: [
+            { id: 1, token: 't1' },
+            { id: 2, token: 't2' },
+          ],
+        },
+        args: { data: [{ password: 'p1' }, { password: 'p2' }] },
+      }),
+    ).toEqual({
+      body: {
+        user: { name: 'Taro', credentials: { password: '[REDACTED]' } },
+        sessions: [
+          { id: 1, token: '[REDACTED]' },
+          { id: 2, token: '[REDACTED]' },
+        ],
+      },
+      args: { data: [{ password: '[REDACTED]' }, { password: '[REDACTED]' }] },
+    });
+  });
+
+  it('should mask whole values of sensitive keys, including objects', () => {
+    expect(redactor.redact({ secret: { key: 'k', iv: 'v' } })).toEqual({
+      secret: '[REDACTED]',
+    });
+  });
+
+  it('should mask sensitive headers', () => {
+    expect(
+      redactor.redact({
+        headers: {
+          authorization: 'Bearer abc',
+          cookie: 'session=1',
+          'x-maintenance-bypass': 'let-me-in',
+          'content-type': 'application/json',
+        },
+      }),
+    ).toEqual({
+      headers: {
+        authorization: '[REDACTED]',
+        cookie: '[REDACTED]',
+        'x-maintenance-bypass': '[REDACTED]',
+        'content-type': 'application/json',
+      },
+    });
+  });
+
+  it('should mask sensitive query parameters of urls', () => {
+    expect(
+      redactor.redact({ url: '/api/reset?token=abc&email=a%40b.c&api_key=1' }),
+    ).toEqual({
+      url: '/api/reset?token=%5BREDACTED%5D&email=a%40b.c&api_key=%5BREDACTED%5D',
+    });
+    expect(redactor.redactUrl('/api/users')).toBe('/api/users');
+  });
+
+  it('should not modify the given values', () => {
+    const body = { password: 'p', nested: { token: 't' } };
+
+    redactor.redact({ body });
+
+    expect(body).toEqual({ password: 'p', nested: { token: 't' } });
+  });
+
+  it('should keep errors, dates and null-prototype objects usable', () => {
+    const error = new Error('boom');
+    const time = new Date(0);
+    const query = Object.assign(Object.create(null), { token: 't', page: 1 });
+
+    const result = redactor.redact({ error, time, query, missing: null });
+
+    expect(result.error).toBe(error);
+    expect(result.time).toBe(time);
+    expect(result.query).toEqual({ token: '[REDACTED]', page: 1 });
+    expect(result.missing).toBeNull();
+  });
+
+  it('should handle circular references', () => {
+    const user: Record<string, unknown> = { name: 'Taro', password: 'p' };
+    user.self = user;
+
+    const result = redactor.redact({ user }) as {
+      user: Record<string, unknown>;
+    };
+
+    expect(result.user.password).toBe('[REDACTED]');
+    expect(result.user.self).toBe(result.user);
+  });
+
+  it('should use the configured keys, headers and replacement', () => {
+    const custom = new Redactor({
+      keys: ['ssn'],
+      headers: ['x-tenant-secret'],
+      replacement: '***',
+    });
+
+    expect(
+      custom.redact({
+        ssn: '123',
+        password: 'p',
+        headers: { 'x-tenant-secret': 's' },
+      }),
+    ).toEqual({
+      ssn: '***',
+      password: 'p',
+      headers: { 'x-tenant-secret': '***' },
+    });
+  });
+});
+
+describe('Redaction in loggers', () => {
+  it('should mask the context, logger fields and call fields', () => {
+    const channel = new MemoryChannel();
+    const logger = new Logger(channel, 'app', {}, new Redactor()).withContext({
+      apiKey: 'k',
+    });
+
+    logger.error('Login failed', { body: { email: 'a@b.c', password: 'p' } });
+
+    expect(channel.records[0].context).toEqual({
+      apiKey: '[REDACTED]',
+      body: { email: 'a@b.c', password: '[REDACTED]' },
+    });
+  });
+
+  it('should use the redact section of config/logging.ts', () => {
+    const app = new Application('/tmp');
+    app.instance('config', {
+      logging: {
+        default: 'memory',
+        channels: { memory: { driver: 'memory' } },
+        redact: { keys: ['pin'], replacement: '<hidden>' },
+      },
+    });
+    const manager = new LogManager(app);
+
+    manager.channel().info('Card added', { pin: '0000', password: 'p' });
+
+    const channel = manager.channel().getChannel() as MemoryChannel;
+    expect(channel.records[0].context).toEqual({
+      pin: '<hidden>',
+      password: 'p',
+    });
+  });
+
+  it('should redact faked records', () => {
+    const manager = new LogManager();
+    const logs = manager.fake();
+
+    manager.channel().info('Registered', { password: 'p' });
+
+    expect(logs.records[0].context).toEqual({ password: '[REDACTED]' });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Redactor
+ *
+ * Masks sensitive values (passwords, tokens, credentials) before they are
+ * written to a log. Every logger redacts the context of its records, so
+ * request bodies, headers and query arguments can be logged safely.
+ *
+ * - keys: a field is masked when its name contains one of the patterns,
+ *   ignoring case and separators ('token' masks `accessToken` and
+ *   `refresh_token`)
+ * - headers: exact header names, ignoring case
+ * - query strings of `url` fields are masked with the same rules
+ */
+
+import type { LogContext } from './types';
+
+export interface RedactOptions {
+  keys?: string[];
+  headers?: string[];
+  replacement?: string;
+}
+
+export const DEFAULT_REDACTED_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'authorization',
+  'cookie',
+  'apiKey',
+  'privateKey',
+  'creditCard',
+  'cvv',
+];
+
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-maintenance-bypass',
+];
+
+export const DEFAULT_REPLACEMENT = '[REDACTED]';
+
+const normalize = (key: string): string =>
+  key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export class Redactor {
+  private readonly _keys: string[];
+  private readonly _headers: Set<string>;
+  private readonly _replacement: string;
+
+  constructor(options: RedactOptions = {}) {
+    this._keys = (options.keys ?? DEFAULT_REDACTED_KEYS)
+      .map(normalize)
+      .filter((key) => key !== '');
+    this._headers = new Set(
+      (options.headers ?? DEFAULT_REDACTED_HEADERS).map((header) =>
+        header.toLowerCase(),
+      ),
+    );
+    this._replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  }
+
+  /**
+   * Determine if the value of the field must be masked
+   */
+  isSensitive(key: string): boolean {
+    if (this._headers.has(key.toLowerCase())) {
+      return true;
+    }
+
+    const normalized = normalize(key);
+    return this._keys.some((pattern) => normalized.includes(pattern));
+  }
+
+  /**
+   * Mask the sensitive fields of a log context
+   */
+  redact(context: LogContext): LogContext {
+    return this.value(context, new WeakMap()) as LogContext;
+  }
+
+  /**
+   * Mask the values of sensitive query parameters of a URL
+   */
+  redactUrl(url: string): string {
+    const index = url.indexOf('?');
+    if (index === -1) {
+      return url;
+    }
+
+    const query = url
+      .slice(index + 1)
+      .split('&')
+      .map((pair) => {
+        const [name] = pair.split('=', 1);
+        return this.isSensitive(safeDecode(name))
+          ? `${name}=${encodeURIComponent(this._replacement)}`
+          : pair;
+      })
+      .join('&');
+
+    return `${url.slice(0, index + 1)}${query}`;
+  }
+
+  /**
+   * Copy plain objects and arrays with sensitive fields masked; other
+   * values (errors, dates, buffers) are kept as they are
+   */
+  private value(value: unknown, seen: WeakMap<object, unknown>): unknown {
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    const copied = seen.get(value);
+    if (copied) {
+      return copied;
+    }
+
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      seen.set(value, result);
+      value.forEach((item) => result.push(this.value(item, seen)));
+      return result;
+    }
+
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    seen.set(value, result);
+
+    Object.entries(value).forEach(([key, item]) => {
+      if (this.isSensitive(key)) {
+        result[key] = this._replacement;
+      } else if (key === 'url' && typeof item === 'string') {
+        result[key] = this.redactUrl(item);
+      } else {
+        result[key] = this.value(item, seen);
+      }
+    });
+
+    return result;
+  }
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
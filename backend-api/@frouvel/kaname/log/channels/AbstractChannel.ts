@@ -0,0 +1,18 @@
+/**
+ * Base class of channels writing records of a minimum level
+ */
+
+import { isLevelEnabled } from '../types';
+import type { LogChannel, LogLevel, LogRecord } from '../types';
+
+export abstract class AbstractChannel implements LogChannel {
+  constructor(protected readonly level: LogLevel = 'debug') {}
+
+  handle(record: LogRecord): void {
+    if (isLevelEnabled(record.level, this.level)) {
+      this.write(record);
+    }
+  }
+
+  protected abstract write(record: LogRecord): void;
+}
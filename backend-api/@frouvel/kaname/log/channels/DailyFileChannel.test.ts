@@ -0,0 +1,92 @@
+/**
+ * Daily File Channel Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DailyFileChannel } from './DailyFileChannel';
+import type { LogRecord } from '../types';
+
+const record = (time: string, message = 'User registered'): LogRecord => ({
+  time: new Date(time),
+  level: 'info',
+  channel: 'daily',
+  message,
+  context: { userId: 1 },
+});
+
+describe('DailyFileChannel', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'kaname-log-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should append JSON lines to the file of the day', () => {
+    const channel = new DailyFileChannel({
+      path: join(directory, 'logs/kaname.log'),
+    });
+
+    channel.handle(record('2025-01-31T08:00:00Z'));
+    channel.handle(record('2025-01-31T09:00:00Z', 'Order placed'));
+    channel.handle(record('2025-02-01T00:00:00Z'));
+
+    const lines = readFileSync(
+      join(directory, 'logs/kaname-2025-01-31.log'),
+      'utf-8',
+    )
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(lines).toMatchObject([
+      { message: 'User registered', userId: 1 },
+      { message: 'Order placed' },
+    ]);
+    expect(existsSync(join(directory, 'logs/kaname-2025-02-01.log'))).toBe(
+      true,
+    );
+  });
+
+  it('should delete files older than the retention', () => {
+    ['2025-01-01', '2025-01-29', '2025-01-30'].forEach((date) =>
+      writeFileSync(join(directory, `kaname-${date}.log`), ''),
+    );
+    writeFileSync(join(directory, 'other-2025-01-01.log'), '');
+
+    new DailyFileChannel({
+      path: join(directory, 'kaname.log'),
+      days: 2,
+    }).handle(record('2025-01-31T08:00:00Z'));
+
+    expect(readdirSync(directory).sort()).toEqual([
+      'kaname-2025-01-30.log',
+      'kaname-2025-01-31.log',
+      'other-2025-01-01.log',
+    ]);
+  });
+
+  it('should skip records below its level', () => {
+    const channel = new DailyFileChannel({
+      path: join(directory, 'kaname.log'),
+      level: 'error',
+    });
+
+    channel.handle(record('2025-01-31T08:00:00Z'));
+
+    expect(readdirSync(directory)).toEqual([]);
+  });
+});
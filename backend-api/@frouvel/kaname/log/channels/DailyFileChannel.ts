@@ -0,0 +1,94 @@
+/**
+ * Daily File Channel
+ *
+ * Writes JSON lines to one file per day (`kaname.log` becomes
+ * `kaname-2025-01-31.log`) and deletes the files older than `days`.
+ */
+
+import { appendFileSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { AbstractChannel } from './AbstractChannel';
+import { formatJson } from '../formatters';
+import type { LogLevel, LogRecord } from '../types';
+
+const DAY = 86_400_000;
+
+export interface DailyFileChannelOptions {
+  /**
+   * Absolute path of the log file, before the date is added
+   */
+  path: string;
+  /**
+   * Number of daily files to keep (0 keeps all of them)
+   */
+  days?: number;
+  level?: LogLevel;
+}
+
+export class DailyFileChannel extends AbstractChannel {
+  private readonly _path: string;
+  private readonly _days: number;
+  private _currentDate: string | null = null;
+
+  constructor(options: DailyFileChannelOptions) {
+    super(options.level);
+    this._path = options.path;
+    this._days = options.days ?? 14;
+  }
+
+  /**
+   * Get the file records of the given day are written to
+   */
+  pathFor(time: Date): string {
+    const extension = extname(this._path);
+    const name = basename(this._path, extension);
+
+    return join(
+      dirname(this._path),
+      `${name}-${dateOf(time)}${extension || '.log'}`,
+    );
+  }
+
+  protected write(record: LogRecord): void {
+    const date = dateOf(record.time);
+
+    if (date !== this._currentDate) {
+      mkdirSync(dirname(this._path), { recursive: true });
+      this._currentDate = date;
+      this.prune(record.time);
+    }
+
+    appendFileSync(this.pathFor(record.time), `${formatJson(record)}\n`);
+  }
+
+  /**
+   * Delete the files falling out of the retention window
+   */
+  private prune(now: Date): void {
+    if (this._days <= 0) {
+      return;
+    }
+
+    const directory = dirname(this._path);
+    const extension = extname(this._path);
+    const pattern = new RegExp(
+      `^${escape(basename(this._path, extension))}-(\\d{4}-\\d{2}-\\d{2})${escape(extension || '.log')}$`,
+    );
+    const oldest = dateOf(new Date(now.getTime() - (this._days - 1) * DAY));
+
+    readdirSync(directory).forEach((file) => {
+      const date = pattern.exec(file)?.[1];
+      if (date && date < oldest) {
+        unlinkSync(join(directory, file));
+      }
+    });
+  }
+}
+
+function dateOf(time: Date): string {
+  return time.toISOString().slice(0, 10);
+}
+
+function escape(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,49 @@
+/**
+ * Memory Channel
+ *
+ * Keeps records in memory, so tests can silence logs and assert on them.
+ *
+ * @example
+ * const logs = Log.fake();
+ * await service.run();
+ * expect(logs.has('error', /Failed to send/)).toBe(true);
+ */
+
+import { AbstractChannel } from './AbstractChannel';
+import type { LogLevel, LogRecord } from '../types';
+
+export class MemoryChannel extends AbstractChannel {
+  readonly records: LogRecord[] = [];
+
+  /**
+   * Determine if a record of the level with a matching message was logged
+   */
+  has(level: LogLevel, message?: string | RegExp): boolean {
+    return this.records.some(
+      (record) =>
+        record.level === level &&
+        (message === undefined ||
+          (typeof message === 'string'
+            ? record.message === message
+            : message.test(record.message))),
+    );
+  }
+
+  /**
+   * Get the records of a level
+   */
+  logged(level: LogLevel): LogRecord[] {
+    return this.records.filter((record) => record.level === level);
+  }
+
+  /**
+   * Forget all records
+   */
+  clear(): void {
+    this.records.splice(0);
+  }
+
+  protected write(record: LogRecord): void {
+    this.records.push(record);
+  }
+}
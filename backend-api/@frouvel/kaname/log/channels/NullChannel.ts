@@ -0,0 +1,11 @@
+/**
+ * Null Channel
+ *
+ * Discards every record.
+ */
+
+import type { LogChannel } from '../types';
+
+export class NullChannel implements LogChannel {
+  handle(): void {}
+}
@@ -0,0 +1,17 @@
+/**
+ * Pretty Channel
+ *
+ * Writes human readable, colored lines to stdout, for development.
+ */
+
+import { AbstractChannel } from './AbstractChannel';
+import { formatPretty } from '../formatters';
+import type { LogRecord } from '../types';
+
+export class PrettyChannel extends AbstractChannel {
+  protected write(record: LogRecord): void {
+    process.stdout.write(
+      `${formatPretty(record, process.stdout.isTTY === true)}\n`,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Stack Channel
+ *
+ * Sends every record to several channels, e.g. stdout and a daily file.
+ */
+
+import type { LogChannel, LogRecord } from '../types';
+
+export class StackChannel implements LogChannel {
+  constructor(private readonly _channels: LogChannel[]) {}
+
+  handle(record: LogRecord): void {
+    this._channels.forEach((channel) => channel.handle(record));
+  }
+}
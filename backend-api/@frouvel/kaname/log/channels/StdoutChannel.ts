@@ -0,0 +1,15 @@
+/**
+ * Stdout Channel
+ *
+ * Writes JSON lines to stdout, for log collectors in production.
+ */
+
+import { AbstractChannel } from './AbstractChannel';
+import { formatJson } from '../formatters';
+import type { LogRecord } from '../types';
+
+export class StdoutChannel extends AbstractChannel {
+  protected write(record: LogRecord): void {
+    process.stdout.write(`${formatJson(record)}\n`);
+  }
+}
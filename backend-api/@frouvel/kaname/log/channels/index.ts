@@ -0,0 +1,12 @@
+/**
+ * Log Channels
+ */
+
+export { AbstractChannel } from './AbstractChannel';
+export { StdoutChannel } from './StdoutChannel';
+export { PrettyChannel } from './PrettyChannel';
+export { DailyFileChannel } from './DailyFileChannel';
+export type { DailyFileChannelOptions } from './DailyFileChannel';
+export { MemoryChannel } from './MemoryChannel';
+export { StackChannel } from './StackChannel';
+export { NullChannel } from './NullChannel';
@@ -0,0 +1,102 @@
+/**
+ * Fastify Logger
+ *
+ * Adapts a Logger to the pino interface Fastify expects, so request logs
+ * go through the same channels as the rest of the application.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { Logger } from './Logger';
+import type { LogContext, LogLevel } from './types';
+
+type PinoMethod = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+const LEVELS: Record<PinoMethod, LogLevel> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  fatal: 'critical',
+};
+
+/**
+ * Create a Fastify logger writing to the given logger
+ */
+export function createFastifyLogger(
+  logger: Logger,
+  level: string = 'info',
+): FastifyBaseLogger {
+  const write =
+    (method: PinoMethod) =>
+    (first?: unknown, second?: unknown): void => {
+      const { message, context } = parseArguments(first, second);
+      logger.log(LEVELS[method], message, context);
+    };
+
+  return {
+    level,
+    trace: write('trace'),
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    fatal: write('fatal'),
+    silent: () => {},
+    child: (bindings: LogContext, options?: { level?: string }) =>
+      createFastifyLogger(
+        logger.withContext(bindings),
+        options?.level ?? level,
+      ),
+  } as FastifyBaseLogger;
+}
+
+/**
+ * Read pino's `(message)`, `(object, message)` and `(error, message)` call
+ * styles
+ */
+function parseArguments(
+  first: unknown,
+  second: unknown,
+): { message: string; context: LogContext } {
+  if (typeof first === 'string') {
+    return { message: first, context: {} };
+  }
+
+  if (first instanceof Error) {
+    return {
+      message: typeof second === 'string' ? second : first.message,
+      context: { error: first },
+    };
+  }
+
+  const { msg, req, res, err, ...rest } = (first ?? {}) as LogContext;
+  const context: LogContext = { ...rest };
+
+  if (isRequest(req)) {
+    context.method = req.method;
+    context.url = req.url;
+    context.remoteAddress = req.ip;
+  }
+  if (isReply(res)) {
+    context.statusCode = res.statusCode;
+  }
+  if (err !== undefined) {
+    context.error = err;
+  }
+
+  return {
+    message: typeof second === 'string' ? second : String(msg ?? ''),
+    context,
+  };
+}
+
+function isRequest(
+  value: unknown,
+): value is { method: string; url: string; ip?: string } {
+  return typeof value === 'object' && value !== null && 'method' in value;
+}
+
+function isReply(value: unknown): value is { statusCode: number } {
+  return typeof value === 'object' && value !== null && 'statusCode' in value;
+}
@@ -0,0 +1,108 @@
+/**
+ * Log Formatters
+ *
+ * Turn log records into JSON lines or human readable lines.
+ */
+
+import { inspect } from 'util';
+import type { LogContext, LogLevel, LogRecord } from './types';
+
+const COLORS: Record<LogLevel, number> = {
+  debug: 90,
+  info: 32,
+  notice: 36,
+  warning: 33,
+  error: 31,
+  critical: 31,
+  alert: 35,
+  emergency: 35,
+};
+
+/**
+ * Format a record as a single JSON line
+ *
+ * Context fields are merged into the top level, so log processors can
+ * index them (`requestId`, `userId`, …).
+ */
+export function formatJson(record: LogRecord): string {
+  return JSON.stringify(
+    {
+      time: record.time.toISOString(),
+      level: record.level,
+      channel: record.channel,
+      message: record.message,
+      ...serializeContext(record.context),
+    },
+    jsonReplacer(),
+  );
+}
+
+/**
+ * Format a record as a human readable line, colored if requested
+ */
+export function formatPretty(record: LogRecord, colors = false): string {
+  const level = record.level.toUpperCase().padEnd(9);
+  const time = record.time.toISOString().replace('T', ' ').replace('Z', '');
+  const { requestId, ...context } = record.context;
+  const label = colors
+    ? `\u001b[${COLORS[record.level]}m${level}\u001b[39m`
+    : level;
+  const prefix = requestId ? `[${String(requestId)}] ` : '';
+  const line = `${time} ${label} ${prefix}${record.message}`;
+
+  if (Object.keys(context).length === 0) {
+    return line;
+  }
+
+  return `${line} ${inspect(serializeContext(context), {
+    colors,
+    depth: 6,
+    compact: true,
+    breakLength: Infinity,
+  })}`;
+}
+
+/**
+ * Convert errors in the context to plain objects
+ */
+export function serializeContext(context: LogContext): LogContext {
+  return Object.fromEntries(
+    Object.entries(context).map(([key, value]) => [
+      key,
+      value instanceof Error ? serializeError(value) : value,
+    ]),
+  );
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return {
+    ...error,
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+}
+
+/**
+ * Serialize bigints, nested errors and circular references
+ */
+function jsonReplacer(): (key: string, value: unknown) => unknown {
+  const seen = new WeakSet<object>();
+
+  return (_key, value) => {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (value instanceof Error) {
+      return serializeError(value);
+    }
+    if (typeof value === 'object' && value !== null) {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+    }
+
+    return value;
+  };
+}
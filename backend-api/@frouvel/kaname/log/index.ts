@@ -0,0 +1,39 @@
+/**
+ * Log Module
+ *
+ * Laravel-style logging: a Log facade writing structured records to the
+ * channels of config/logging.ts.
+ */
+
+export { Log } from './Log';
+export { Logger } from './Logger';
+export { LogManager } from './LogManager';
+export type { ChannelFactory } from './LogManager';
+export {
+  Redactor,
+  DEFAULT_REDACTED_HEADERS,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REPLACEMENT,
+} from './Redactor';
+export type { RedactOptions } from './Redactor';
+export { createFastifyLogger } from './fastifyLogger';
+export { formatJson, formatPretty } from './formatters';
+export { LOG_LEVELS, isLevelEnabled } from './types';
+export type {
+  ChannelConfig,
+  LogChannel,
+  LogContext,
+  LoggingConfig,
+  LogLevel,
+  LogRecord,
+} from './types';
+export {
+  AbstractChannel,
+  DailyFileChannel,
+  MemoryChannel,
+  NullChannel,
+  PrettyChannel,
+  StackChannel,
+  StdoutChannel,
+} from './channels';
+export type { DailyFileChannelOptions } from './channels';
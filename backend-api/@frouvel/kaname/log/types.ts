@@ -0,0 +1,75 @@
+/**
+ * Log Types
+ */
+
+import type { RedactOptions } from './Redactor';
+
+/**
+ * RFC 5424 severities, from least to most severe
+ */
+export const LOG_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Structured fields attached to a log record
+ */
+export type LogContext = Record<string, unknown>;
+
+export interface LogRecord {
+  time: Date;
+  level: LogLevel;
+  /**
+   * Name of the channel the record was logged to
+   */
+  channel: string;
+  message: string;
+  context: LogContext;
+}
+
+/**
+ * Destination of log records
+ */
+export interface LogChannel {
+  handle(record: LogRecord): void;
+}
+
+/**
+ * A channel of config/logging.ts
+ */
+export interface ChannelConfig {
+  driver: string;
+  /**
+   * Minimum level written by the channel
+   */
+  level?: LogLevel;
+  [option: string]: unknown;
+}
+
+/**
+ * The parts of config/logging.ts read by the LogManager
+ */
+export interface LoggingConfig {
+  default?: string;
+  channels?: Record<string, ChannelConfig>;
+  /**
+   * Fields and headers masked in every record
+   */
+  redact?: RedactOptions;
+}
+
+/**
+ * Determine if a record of the given level passes the minimum level
+ */
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
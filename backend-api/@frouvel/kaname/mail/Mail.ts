@@ -0,0 +1,42 @@
+/**
+ * Mail Facade
+ *
+ * Sends messages with the mailers of config/mail.ts through the `mail`
+ * manager of the running application. Inspired by Laravel's Mail facade.
+ *
+ * @example
+ * await Mail.send({
+ *   to: user.email,
+ *   subject: 'Welcome',
+ *   text: 'Thanks for signing up.',
+ * });
+ *
+ * const mails = Mail.fake();
+ * expect(mails.sentTo(user.email)).toHaveLength(1);
+ */
+
+import { Application } from '../foundation/Application';
+import type { MailManager } from './MailManager';
+import type { MemoryMailer } from './mailers/MemoryMailer';
+import type { Mailer, MailMessage } from './types';
+
+const manager = (): MailManager => Application.getInstance().make('mail');
+
+export const Mail = {
+  /**
+   * Send a message with a mailer, by default the `default` mailer
+   */
+  send: (message: MailMessage, mailer?: string): Promise<void> =>
+    manager().send(message, mailer),
+
+  /**
+   * Get a mailer of config/mail.ts
+   */
+  mailer: (name?: string): Mailer => manager().mailer(name),
+
+  /**
+   * Keep every message in memory instead of sending it, so tests can
+   * assert on them
+   */
+  fake: (): MemoryMailer => manager().fake(),
+};
@@ -0,0 +1,135 @@
+/**
+ * Mail Manager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Application } from '../foundation/Application';
+import { MailServiceProvider } from '../foundation/providers/MailServiceProvider';
+import { Log } from '../log/Log';
+import { Mail } from './Mail';
+import type { MailManager } from './MailManager';
+import { LogMailer, MemoryMailer } from './mailers';
+import type { MailConfig, Mailer, OutgoingMessage } from './types';
+
+const mail: MailConfig = {
+  default: 'memory',
+  from: { address: 'noreply@example.com', name: 'Kaname' },
+  mailers: {
+    memory: { driver: 'memory' },
+    log: { driver: 'log' },
+    sendgrid: { driver: 'sendgrid' },
+    broken: { driver: 'carrier-pigeon' },
+  },
+};
+
+describe('MailManager', () => {
+  let app: Application;
+  let manager: MailManager;
+
+  beforeEach(() => {
+    app = new Application('/tmp');
+    app.instance('config', { mail });
+    app.register(MailServiceProvider);
+    manager = app.make('mail');
+  });
+
+  afterEach(() => {
+    Log.setManager(null);
+  });
+
+  it('should create and reuse the mailers of config/mail.ts', () => {
+    expect(manager.getDefaultMailer()).toBe('memory');
+    expect(manager.mailer()).toBe(manager.mailer('memory'));
+    expect(manager.mailer()).toBeInstanceOf(MemoryMailer);
+    expect(manager.mailer('log')).toBeInstanceOf(LogMailer);
+  });
+
+  it('should send messages from the configured sender', async () => {
+    await manager.send({
+      to: ['jane@example.com', { address: 'john@example.com', name: 'John' }],
+      subject: 'Welcome',
+      text: 'Hello',
+    });
+
+    expect((manager.mailer() as MemoryMailer).sent).toEqual([
+      {
+        from: { address: 'noreply@example.com', name: 'Kaname' },
+        to: [
+          { address: 'jane@example.com' },
+          { address: 'john@example.com', name: 'John' },
+        ],
+        subject: 'Welcome',
+        text: 'Hello',
+      },
+    ]);
+  });
+
+  it('should write messages of the log mailer to the log', async () => {
+    const logs = Log.fake();
+
+    await manager.send(
+      { to: 'jane@example.com', subject: 'Welcome', text: 'Hello' },
+      'log',
+    );
+
+    expect(logs.has('info', 'Mail: Welcome')).toBe(true);
+    expect(logs.logged('info')[0].context).toMatchObject({
+      to: ['jane@example.com'],
+      text: 'Hello',
+    });
+  });
+
+  it('should mask the parameters of links in the log', async () => {
+    const logs = Log.fake();
+
+    await manager.send(
+      {
+        to: 'jane@example.com',
+        subject: 'Reset Password',
+        text: 'Open https://app.test/reset-password?token=abc#top to reset.',
+      },
+      'log',
+    );
+
+    expect(logs.logged('info')[0].context?.text).toBe(
+      'Open https://app.test/reset-password?[masked] to reset.',
+    );
+  });
+
+  it('should keep every message in memory once faked', async () => {
+    const mails = Mail.fake();
+
+    await Mail.send({ to: 'jane@example.com', subject: 'A', text: 'a' }, 'log');
+    await Mail.send({ to: 'john@example.com', subject: 'B', text: 'b' });
+
+    expect(mails.sent).toHaveLength(2);
+    expect(mails.sentTo('jane@example.com').map((m) => m.subject)).toEqual([
+      'A',
+    ]);
+  });
+
+  it('should create the mailers of custom drivers', async () => {
+    const sent: OutgoingMessage[] = [];
+    const pigeon: Mailer = { send: async (message) => void sent.push(message) };
+    manager.extend('carrier-pigeon', () => pigeon);
+
+    await manager.send(
+      { to: 'jane@example.com', subject: 'Coo', text: 'Coo' },
+      'broken',
+    );
+
+    expect(sent).toHaveLength(1);
+  });
+
+  it('should fail for mailers missing from the config or misconfigured', () => {
+    expect(() => manager.mailer('nope')).toThrow(
+      'Mailer [nope] is not defined in config/mail.ts.',
+    );
+    expect(() => manager.mailer('sendgrid')).toThrow(
+      'Mailer [sendgrid] requires an apiKey.',
+    );
+    expect(() => manager.mailer('broken')).toThrow(
+      'Mail driver [carrier-pigeon] of mailer [broken] is not supported.',
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Mail Manager
+ *
+ * Creates the mailers defined in config/mail.ts and sends messages from
+ * the configured sender. Inspired by Laravel's Illuminate\Mail\MailManager.
+ *
+ * Built-in drivers: log (writes messages to a log channel), memory (kept
+ * for tests) and sendgrid. More drivers are added with extend().
+ */
+
+import type { Application } from '../foundation/Application';
+import { Log } from '../log/Log';
+import { LogMailer, MemoryMailer, SendGridMailer } from './mailers';
+import type {
+  MailAddress,
+  MailConfig,
+  Mailer,
+  MailerConfig,
+  MailMessage,
+  OutgoingMessage,
+} from './types';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    mail: MailManager;
+  }
+}
+
+/**
+ * Create the mailer of a driver from its configuration
+ */
+export type MailerFactory = (
+  config: MailerConfig,
+  manager: MailManager,
+) => Mailer;
+
+const DEFAULT_FROM: MailAddress = { address: 'noreply@example.com' };
+
+export class MailManager {
+  static readonly inject = ['app'] as const;
+
+  private readonly _mailers: Map<string, Mailer> = new Map();
+  private readonly _drivers: Map<string, MailerFactory> = new Map();
+  private _fake: MemoryMailer | null = null;
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Get a mailer, by default the `default` mailer
+   */
+  mailer(name: string = this.getDefaultMailer()): Mailer {
+    if (this._fake) {
+      return this._fake;
+    }
+
+    let mailer = this._mailers.get(name);
+    if (!mailer) {
+      mailer = this.create(name);
+      this._mailers.set(name, mailer);
+    }
+    return mailer;
+  }
+
+  /**
+   * Send a message with a mailer, by default the `default` mailer
+   */
+  async send(message: MailMessage, mailer?: string): Promise<void> {
+    await this.mailer(mailer).send(this.prepare(message));
+
+    Log.debug('Mail sent', {
+      mailer: mailer ?? this.getDefaultMailer(),
+      subject: message.subject,
+    });
+  }
+
+  /**
+   * Register a custom driver
+   *
+   * @example
+   * app.make('mail').extend('ses', (config) => new SesMailer(config));
+   */
+  extend(driver: string, factory: MailerFactory): this {
+    this._drivers.set(driver, factory);
+    this._mailers.clear();
+    return this;
+  }
+
+  /**
+   * Keep every message in memory instead of sending it
+   */
+  fake(): MemoryMailer {
+    this._fake = new MemoryMailer();
+    return this._fake;
+  }
+
+  /**
+   * Get the name of the default mailer
+   */
+  getDefaultMailer(): string {
+    return this.config().default ?? 'log';
+  }
+
+  private prepare(message: MailMessage): OutgoingMessage {
+    const to = Array.isArray(message.to) ? message.to : [message.to];
+
+    return {
+      from: message.from ?? this.config().from ?? DEFAULT_FROM,
+      to: to.map((recipient) =>
+        typeof recipient === 'string' ? { address: recipient } : recipient,
+      ),
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+    };
+  }
+
+  private create(name: string): Mailer {
+    const config = this.config().mailers?.[name];
+    if (!config) {
+      throw new Error(`Mailer [${name}] is not defined in config/mail.ts.`);
+    }
+
+    const custom = this._drivers.get(config.driver);
+    if (custom) {
+      return custom(config, this);
+    }
+
+    switch (config.driver) {
+      case 'log':
+        return new LogMailer(config.channel as string | undefined);
+      case 'memory':
+        return new MemoryMailer();
+      case 'sendgrid':
+        if (!config.apiKey) {
+          throw new Error(`Mailer [${name}] requires an apiKey.`);
+        }
+        return new SendGridMailer(String(config.apiKey));
+      default:
+        throw new Error(
+          `Mail driver [${config.driver}] of mailer [${name}] is not supported.`,
+        );
+    }
+  }
+
+  private config(): MailConfig {
+    return this._app.has('config') ? (this._app.make('config').mail ?? {}) : {};
+  }
+}
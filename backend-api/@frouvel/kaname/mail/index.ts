@@ -0,0 +1,19 @@
+/**
+ * Mail Module
+ *
+ * Laravel-style mail: a Mail facade sending messages with the mailers of
+ * config/mail.ts, swappable for an in-memory fake in tests.
+ */
+
+export { Mail } from './Mail';
+export { MailManager } from './MailManager';
+export type { MailerFactory } from './MailManager';
+export { LogMailer, MemoryMailer, SendGridMailer } from './mailers';
+export type {
+  MailAddress,
+  MailConfig,
+  Mailer,
+  MailerConfig,
+  MailMessage,
+  OutgoingMessage,
+} from './types';
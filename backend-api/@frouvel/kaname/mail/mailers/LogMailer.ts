@@ -0,0 +1,24 @@
+/**
+ * Log Mailer
+ *
+ * Writes messages to a log channel instead of delivering them, for local
+ * development. The query strings and fragments of links are masked, as
+ * they carry tokens such as the one of a password reset.
+ */
+
+import { Log } from '../../log/Log';
+import type { Mailer, OutgoingMessage } from '../types';
+
+const LINK_PARAMETERS = /(https?:\/\/[^\s?#]+)[?#]\S*/g;
+
+export class LogMailer implements Mailer {
+  constructor(private readonly _channel?: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    Log.channel(this._channel).info(`Mail: ${message.subject}`, {
+      from: message.from.address,
+      to: message.to.map((recipient) => recipient.address),
+      text: message.text.replace(LINK_PARAMETERS, '$1?[masked]'),
+    });
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Memory Mailer
+ *
+ * Keeps messages in memory, so tests can assert on them without sending
+ * anything.
+ *
+ * @example
+ * const mails = Mail.fake();
+ * await passwords.sendResetLink('admin', 'admin@example.com');
+ * expect(mails.sentTo('admin@example.com')).toHaveLength(1);
+ */
+
+import type { Mailer, OutgoingMessage } from '../types';
+
+export class MemoryMailer implements Mailer {
+  readonly sent: OutgoingMessage[] = [];
+
+  async send(message: OutgoingMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  /**
+   * Get the messages sent to an address
+   */
+  sentTo(address: string): OutgoingMessage[] {
+    return this.sent.filter((message) =>
+      message.to.some((recipient) => recipient.address === address),
+    );
+  }
+
+  /**
+   * Forget all messages
+   */
+  clear(): void {
+    this.sent.splice(0);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * SendGrid Mailer
+ *
+ * Delivers messages through the SendGrid v3 Mail Send API.
+ */
+
+import { MailService } from '@sendgrid/mail';
+import type { MailAddress, Mailer, OutgoingMessage } from '../types';
+
+export class SendGridMailer implements Mailer {
+  private readonly _client = new MailService();
+
+  constructor(apiKey: string) {
+    this._client.setApiKey(apiKey);
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await this._client.send({
+      from: toSendGrid(message.from),
+      to: message.to.map(toSendGrid),
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+    });
+  }
+}
+
+function toSendGrid(address: MailAddress): { email: string; name?: string } {
+  return { email: address.address, name: address.name };
+}
@@ -0,0 +1,7 @@
+/**
+ * Mailers
+ */
+
+export { LogMailer } from './LogMailer';
+export { MemoryMailer } from './MemoryMailer';
+export { SendGridMailer } from './SendGridMailer';
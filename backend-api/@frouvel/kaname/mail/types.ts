@@ -0,0 +1,57 @@
+/**
+ * Mail Types
+ */
+
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+/**
+ * A message to send, e.g. with Mail.send()
+ */
+export interface MailMessage {
+  to: string | MailAddress | Array<string | MailAddress>;
+  /**
+   * Sender, the `from` of config/mail.ts by default
+   */
+  from?: MailAddress;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A message as handed to the mailers, with its addresses resolved
+ */
+export interface OutgoingMessage {
+  from: MailAddress;
+  to: MailAddress[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers messages, e.g. through an email API
+ */
+export interface Mailer {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+/**
+ * A mailer of config/mail.ts
+ */
+export interface MailerConfig {
+  driver: string;
+  [option: string]: unknown;
+}
+
+/**
+ * The parts of config/mail.ts read by the mail manager
+ */
+export interface MailConfig {
+  default?: string;
+  from?: MailAddress;
+  mailers?: Record<string, MailerConfig>;
+}
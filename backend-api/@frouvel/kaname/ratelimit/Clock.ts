@@ -0,0 +1,53 @@
+/**
+ * Clock
+ *
+ * Source of the current time for the RateLimiter. Tests swap in a
+ * FakeClock to move through rate limit windows without waiting.
+ */
+
+export interface Clock {
+  /**
+   * Current time in milliseconds since the epoch
+   */
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * A clock that only moves when told to
+ *
+ * @example
+ * const clock = new FakeClock();
+ * rateLimiter.useClock(clock);
+ * clock.advance(60_000);
+ */
+export class FakeClock implements Clock {
+  private _now: number;
+
+  constructor(now: Date | number = Date.now()) {
+    this._now = typeof now === 'number' ? now : now.getTime();
+  }
+
+  now(): number {
+    return this._now;
+  }
+
+  /**
+   * Move the clock forward by the given milliseconds
+   */
+  advance(milliseconds: number): this {
+    this._now += milliseconds;
+    return this;
+  }
+
+  /**
+   * Set the current time
+   */
+  set(now: Date | number): this {
+    this._now = typeof now === 'number' ? now : now.getTime();
+    return this;
+  }
+}
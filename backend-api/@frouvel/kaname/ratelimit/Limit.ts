@@ -0,0 +1,81 @@
+/**
+ * Limit
+ *
+ * How many attempts are allowed per window, and who they are counted for.
+ * Inspired by Laravel's Illuminate\Cache\RateLimiting\Limit.
+ *
+ * @example
+ * Limit.perMinute(5).by(request.ip);
+ * Limit.perHour(1000).by(`user:${userId}`).sliding();
+ */
+
+/**
+ * - fixed: attempts are counted per window (e.g. per calendar minute)
+ * - sliding: the previous window is weighted in, so bursts across a window
+ *   boundary are limited as well
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
+export class Limit {
+  /**
+   * Who the attempts are counted for; limiters used by the throttle
+   * middleware default to the user or the IP address
+   */
+  key: string = '';
+
+  algorithm: RateLimitAlgorithm = 'fixed';
+
+  constructor(
+    readonly maxAttempts: number,
+    readonly decaySeconds: number = 60,
+  ) {
+    if (!(maxAttempts >= 0) || !(decaySeconds > 0)) {
+      throw new Error(
+        `Invalid rate limit: ${maxAttempts} attempts per ${decaySeconds} seconds.`,
+      );
+    }
+  }
+
+  static perSecond(maxAttempts: number, seconds: number = 1): Limit {
+    return new Limit(maxAttempts, seconds);
+  }
+
+  static perMinute(maxAttempts: number, minutes: number = 1): Limit {
+    return new Limit(maxAttempts, minutes * 60);
+  }
+
+  static perHour(maxAttempts: number, hours: number = 1): Limit {
+    return new Limit(maxAttempts, hours * 60 * 60);
+  }
+
+  static perDay(maxAttempts: number, days: number = 1): Limit {
+    return new Limit(maxAttempts, days * 60 * 60 * 24);
+  }
+
+  /**
+   * A limit that never blocks
+   */
+  static none(): Limit {
+    return new Limit(Infinity);
+  }
+
+  /**
+   * Count the attempts for the given key (an IP address, a user id, …)
+   */
+  by(key: string | number): this {
+    this.key = String(key);
+    return this;
+  }
+
+  /**
+   * Use the sliding window algorithm
+   */
+  sliding(): this {
+    this.algorithm = 'sliding';
+    return this;
+  }
+
+  isUnlimited(): boolean {
+    return this.maxAttempts === Infinity;
+  }
+}
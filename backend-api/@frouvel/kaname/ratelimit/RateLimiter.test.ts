@@ -0,0 +1,222 @@
+/**
+ * Rate Limiter Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Application } from '../foundation/Application';
+import { RateLimiter } from './RateLimiter';
+import { Limit } from './Limit';
+import { FakeClock } from './Clock';
+import { MemoryStore } from './stores/MemoryStore';
+import { PrismaStore, type RateLimitDelegate } from './stores/PrismaStore';
+
+/**
+ * In-memory stand-in for the generated `prisma.rateLimit` delegate
+ */
+function fakeRateLimitTable() {
+  const rows = new Map<string, { count: number; expiresAt: Date }>();
+
+  const rateLimit: RateLimitDelegate = {
+    upsert: async ({ where, create }) => {
+      const row = rows.get(where.key);
+      if (row) {
+        row.count += 1;
+        return { count: row.count };
+      }
+      rows.set(where.key, { count: create.count, expiresAt: create.expiresAt });
+      return { count: create.count };
+    },
+    findUnique: async ({ where }) => {
+      const row = rows.get(where.key);
+      return row ? { count: row.count } : null;
+    },
+    deleteMany: async ({ where }) => {
+      rows.forEach((row, key) => {
+        const matches =
+          'key' in where
+            ? where.key.in.includes(key)
+            : row.expiresAt <= where.expiresAt.lte;
+        if (matches) {
+          rows.delete(key);
+        }
+      });
+    },
+  };
+
+  return { rows, rateLimit };
+}
+
+describe('RateLimiter', () => {
+  let app: Application;
+  let limiter: RateLimiter;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    app = new Application('/tmp');
+    clock = new FakeClock(new Date('2025-01-01T00:00:00.000Z'));
+    limiter = new RateLimiter(app).useClock(clock);
+  });
+
+  describe('fixed window', () => {
+    it('should allow attempts up to the limit and block the rest', async () => {
+      const limit = () => Limit.perMinute(3).by('ip:127.0.0.1');
+
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.hit(limit()));
+      }
+
+      expect(results.map((r) => [r.allowed, r.remaining])).toEqual([
+        [true, 2],
+        [true, 1],
+        [true, 0],
+        [false, 0],
+      ]);
+      expect(results[3]).toMatchObject({ limit: 3, retryAfter: 60 });
+    });
+
+    it('should reset when the window ends', async () => {
+      const limit = () => Limit.perMinute(1).by('ip:127.0.0.1');
+
+      await limiter.hit(limit());
+      clock.advance(30_000);
+      expect(await limiter.hit(limit())).toMatchObject({
+        allowed: false,
+        retryAfter: 30,
+        resetIn: 30,
+      });
+
+      clock.advance(30_000);
+      expect(await limiter.hit(limit())).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      });
+    });
+  });
+
+  describe('sliding window', () => {
+    it('should weigh in the attempts of the previous window', async () => {
+      const limit = () => Limit.perMinute(4).by('user:1').sliding();
+
+      for (let i = 0; i < 4; i++) {
+        expect((await limiter.hit(limit())).allowed).toBe(true);
+      }
+
+      // A fixed window would allow 4 more attempts right away
+      clock.advance(60_000);
+      const blocked = await limiter.hit(limit());
+      expect(blocked).toMatchObject({ allowed: false, retryAfter: 16 });
+
+      clock.advance(16_000);
+      expect(await limiter.hit(limit())).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      });
+    });
+
+    it('should forget the previous window once it is out of range', async () => {
+      const limit = () => Limit.perMinute(2).by('user:1').sliding();
+
+      await limiter.hit(limit());
+      await limiter.hit(limit());
+      clock.advance(120_000);
+
+      expect(await limiter.hit(limit())).toMatchObject({
+        allowed: true,
+        remaining: 1,
+      });
+    });
+  });
+
+  it('should count keys and window sizes separately', async () => {
+    await limiter.hit(Limit.perMinute(1).by('ip:1'));
+
+    expect((await limiter.hit(Limit.perMinute(1).by('ip:2'))).allowed).toBe(
+      true,
+    );
+    expect((await limiter.hit(Limit.perHour(1).by('ip:1'))).allowed).toBe(true);
+  });
+
+  it('should check limits without counting an attempt', async () => {
+    const limit = () => Limit.perMinute(1).by('login:taro');
+
+    expect(await limiter.tooManyAttempts(limit())).toBe(false);
+    expect(await limiter.check(limit())).toMatchObject({ remaining: 1 });
+
+    await limiter.hit(limit());
+    expect(await limiter.tooManyAttempts(limit())).toBe(true);
+
+    await limiter.clear(limit());
+    expect(await limiter.tooManyAttempts(limit())).toBe(false);
+  });
+
+  it('should run attempts within the limit only', async () => {
+    const limit = () => Limit.perMinute(1).by('reset:taro');
+
+    expect(await limiter.attempt(limit(), () => 'sent')).toBe('sent');
+    expect(await limiter.attempt(limit(), () => 'sent')).toBe(false);
+  });
+
+  it('should never block unlimited limits', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await limiter.hit(Limit.none())).toMatchObject({
+        allowed: true,
+        remaining: Infinity,
+      });
+    }
+  });
+
+  it('should keep named limiters', () => {
+    const callback = () => Limit.perMinute(5);
+
+    limiter.for('login', callback);
+
+    expect(limiter.limiter('login')).toBe(callback);
+    expect(limiter.limiter('api')).toBeUndefined();
+  });
+
+  it('should prune expired counters', async () => {
+    const store = new MemoryStore();
+    limiter.useStore(store);
+
+    await limiter.hit(Limit.perMinute(1).by('ip:1'));
+    expect(store.size()).toBe(1);
+
+    clock.advance(120_000);
+    await limiter.hit(Limit.perMinute(1).by('ip:2'));
+
+    expect(store.size()).toBe(1);
+  });
+
+  it('should use the database store when configured', async () => {
+    const table = fakeRateLimitTable();
+    app.instance('config', { rateLimit: { store: 'database' } });
+    app.instance('prisma', { rateLimit: table.rateLimit });
+
+    await limiter.hit(Limit.perMinute(1).by('ip:1'));
+    const blocked = await limiter.hit(Limit.perMinute(1).by('ip:1'));
+
+    expect(blocked.allowed).toBe(false);
+    expect([...table.rows.values()]).toMatchObject([{ count: 2 }]);
+
+    await limiter.clear(Limit.perMinute(1).by('ip:1'));
+    expect(table.rows.size).toBe(0);
+  });
+
+  it('should retry creating a counter created concurrently', async () => {
+    const table = fakeRateLimitTable();
+    const upsert = table.rateLimit.upsert;
+    let calls = 0;
+    table.rateLimit.upsert = async (args) => {
+      if (calls++ === 0) {
+        await upsert(args);
+        throw Object.assign(new Error('Unique constraint'), { code: 'P2002' });
+      }
+      return upsert(args);
+    };
+
+    const store = new PrismaStore(table);
+
+    expect(await store.increment('ip:1', Date.now())).toBe(2);
+  });
+});
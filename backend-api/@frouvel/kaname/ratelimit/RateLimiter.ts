@@ -0,0 +1,281 @@
+/**
+ * Rate Limiter
+ *
+ * Counts attempts per key and window, and tells when a key has made too
+ * many. Inspired by Laravel's Illuminate\Cache\RateLimiter.
+ *
+ * Counters are kept in the store of config/rateLimit.ts: `memory` (per
+ * process) or `database` (the RateLimit table, shared by every instance).
+ *
+ * @example
+ * // Named limiter, used by the `throttle:login` middleware. Hooked in
+ * // onRequest, it runs before the body is parsed: key by the ip or a
+ * // header, not by body fields
+ * rateLimiter.for('login', (request) =>
+ *   Limit.perMinute(5).by(`login:${request.ip}`),
+ * );
+ *
+ * // Counting attempts by hand
+ * const result = await rateLimiter.hit(Limit.perHour(3).by(`reset:${email}`));
+ * if (!result.allowed) throw TooManyRequestsError.create('Try again later');
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { Application } from '../foundation/Application';
+import { Log } from '../log/Log';
+import { systemClock, type Clock } from './Clock';
+import type { Limit } from './Limit';
+import { MemoryStore } from './stores/MemoryStore';
+import { PrismaStore } from './stores/PrismaStore';
+import type { RateLimitStore } from './stores/RateLimitStore';
+
+declare module '../container/ServiceMap' {
+  interface ServiceMap {
+    rateLimiter: RateLimiter;
+  }
+}
+
+/**
+ * Build the limits of a request
+ */
+export type LimiterCallback = (
+  request: FastifyRequest,
+) => Limit | Limit[] | Promise<Limit | Limit[]>;
+
+export interface RateLimitResult {
+  /**
+   * Whether the attempt is within the limit
+   */
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /**
+   * Seconds until the current window ends
+   */
+  resetIn: number;
+  /**
+   * Seconds until another attempt is allowed, 0 when allowed
+   */
+  retryAfter: number;
+}
+
+/**
+ * The parts of config/rateLimit.ts read by the limiter
+ */
+interface RateLimitConfig {
+  store?: 'memory' | 'database';
+  pruneInterval?: number;
+}
+
+export class RateLimiter {
+  static readonly inject = ['app'] as const;
+
+  private readonly _limiters: Map<string, LimiterCallback> = new Map();
+  private _store: Promise<RateLimitStore> | null = null;
+  private _clock: Clock = systemClock;
+  private _lastPrune: number = 0;
+
+  constructor(private readonly _app: Application) {}
+
+  /**
+   * Register a named limiter
+   */
+  for(name: string, callback: LimiterCallback): this {
+    this._limiters.set(name, callback);
+    return this;
+  }
+
+  /**
+   * Get a named limiter
+   */
+  limiter(name: string): LimiterCallback | undefined {
+    return this._limiters.get(name);
+  }
+
+  /**
+   * Count an attempt
+   */
+  hit(limit: Limit): Promise<RateLimitResult> {
+    return this.measure(limit, true);
+  }
+
+  /**
+   * Get the state of a limit without counting an attempt
+   */
+  check(limit: Limit): Promise<RateLimitResult> {
+    return this.measure(limit, false);
+  }
+
+  /**
+   * Determine if another attempt would exceed the limit
+   */
+  async tooManyAttempts(limit: Limit): Promise<boolean> {
+    return !(await this.check(limit)).allowed;
+  }
+
+  /**
+   * Run the callback if the attempt is within the limit
+   *
+   * Returns false without running it otherwise.
+   */
+  async attempt<T>(
+    limit: Limit,
+    callback: () => T | Promise<T>,
+  ): Promise<T | false> {
+    return (await this.hit(limit)).allowed ? callback() : false;
+  }
+
+  /**
+   * Forget the attempts of a limit, e.g. after a successful login
+   */
+  async clear(limit: Limit): Promise<void> {
+    const index = this.windowIndex(limit, this._clock.now());
+
+    await (
+      await this.store()
+    ).delete([
+      this.counterKey(limit, index),
+      this.counterKey(limit, index - 1),
+    ]);
+  }
+
+  /**
+   * Use the given store instead of the configured one
+   */
+  useStore(store: RateLimitStore): this {
+    this._store = Promise.resolve(store);
+    return this;
+  }
+
+  /**
+   * Use the given clock, e.g. a FakeClock in tests
+   */
+  useClock(clock: Clock): this {
+    this._clock = clock;
+    return this;
+  }
+
+  private async measure(
+    limit: Limit,
+    increment: boolean,
+  ): Promise<RateLimitResult> {
+    if (limit.isUnlimited()) {
+      return {
+        allowed: true,
+        limit: Infinity,
+        remaining: Infinity,
+        resetIn: 0,
+        retryAfter: 0,
+      };
+    }
+
+    const store = await this.store();
+    const now = this._clock.now();
+    const window = limit.decaySeconds * 1000;
+    const index = this.windowIndex(limit, now);
+    const start = index * window;
+    const key = this.counterKey(limit, index);
+
+    const current = increment
+      ? await store.increment(key, start + 2 * window)
+      : await store.get(key);
+    const previous =
+      limit.algorithm === 'sliding'
+        ? await store.get(this.counterKey(limit, index - 1))
+        : 0;
+
+    // The previous window counts for the part of it still in the last
+    // `decaySeconds`
+    const used =
+      Math.floor((previous * (start + window - now)) / window) + current;
+    const allowed = increment
+      ? used <= limit.maxAttempts
+      : used < limit.maxAttempts;
+
+    if (increment) {
+      this.prune(store, now);
+    }
+
+    return {
+      allowed,
+      limit: limit.maxAttempts,
+      remaining: Math.max(0, limit.maxAttempts - used),
+      resetIn: Math.ceil((start + window - now) / 1000),
+      retryAfter: allowed
+        ? 0
+        : Math.max(
+            1,
+            Math.ceil(
+              (retryAt(limit, start, window, current, previous) - now) / 1000,
+            ),
+          ),
+    };
+  }
+
+  private windowIndex(limit: Limit, now: number): number {
+    return Math.floor(now / (limit.decaySeconds * 1000));
+  }
+
+  private counterKey(limit: Limit, index: number): string {
+    return `${limit.key}:${limit.decaySeconds}:${index}`;
+  }
+
+  private store(): Promise<RateLimitStore> {
+    this._store ??= (async () =>
+      this.config().store === 'database'
+        ? new PrismaStore(await this._app.makeAsync('prisma'))
+        : new MemoryStore())();
+
+    return this._store;
+  }
+
+  /**
+   * Remove expired counters, at most once per `pruneInterval` seconds
+   */
+  private prune(store: RateLimitStore, now: number): void {
+    const interval = (this.config().pruneInterval ?? 60) * 1000;
+    if (now - this._lastPrune < interval) {
+      return;
+    }
+
+    this._lastPrune = now;
+    store.prune(now).catch((error) => {
+      Log.warning('Failed to prune rate limit counters', { error });
+    });
+  }
+
+  private config(): RateLimitConfig {
+    return this._app.has('config')
+      ? (this._app.make('config').rateLimit ?? {})
+      : {};
+  }
+}
+
+/**
+ * When the next attempt is allowed (ms since the epoch)
+ */
+function retryAt(
+  limit: Limit,
+  start: number,
+  window: number,
+  current: number,
+  previous: number,
+): number {
+  if (limit.algorithm === 'fixed') {
+    return start + window;
+  }
+
+  // Nothing is ever allowed; report the end of the next window
+  if (limit.maxAttempts === 0) {
+    return start + 2 * window;
+  }
+
+  // Wait for the previous window to weigh less than the attempts left
+  // (+1: the weight has to drop below the threshold, not reach it)
+  if (current < limit.maxAttempts) {
+    return start + window * (1 - (limit.maxAttempts - current) / previous) + 1;
+  }
+
+  // Wait for the next window, where the current one becomes the previous
+  return start + window * (2 - limit.maxAttempts / current) + 1;
+}
@@ -0,0 +1,160 @@
+/**
+ * Throttle Requests Middleware Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { Application } from '../foundation/Application';
+import { RateLimitServiceProvider } from '../foundation/providers/RateLimitServiceProvider';
+import { MiddlewarePipeline } from '../http/middleware/MiddlewarePipeline';
+import { middleware } from '../http/middleware/routeMiddleware';
+import { Limit } from './Limit';
+import { FakeClock } from './Clock';
+
+describe('ThrottleRequests', () => {
+  let app: Application;
+  let fastify: FastifyInstance;
+  let clock: FakeClock;
+
+  beforeEach(async () => {
+    app = new Application('/tmp');
+    app.register(RateLimitServiceProvider);
+    app.singleton('middleware', MiddlewarePipeline);
+
+    clock = new FakeClock(new Date('2025-01-01T00:00:00.000Z'));
+    app
+      .make('rateLimiter')
+      .useClock(clock)
+      .for('login', () => Limit.perMinute(1))
+      .for('search', () => [
+        Limit.perMinute(3),
+        Limit.perMinute(1).by('everyone'),
+      ])
+      .for('open', () => Limit.none());
+
+    fastify = Fastify();
+    fastify.addHook('onRequest', (request, _reply, done) => {
+      request.container = app.createScope();
+      const user = request.headers['x-user'];
+      if (typeof user === 'string') {
+        request.user = { id: user, scope: [], claims: {} };
+      }
+      done();
+    });
+
+    const ok = async () => ({ ok: true });
+    fastify.get('/posts', { onRequest: middleware('throttle:2,1') }, ok);
+    fastify.post('/login', { onRequest: middleware('throttle:login') }, ok);
+    fastify.get('/search', { onRequest: middleware('throttle:search') }, ok);
+    fastify.get('/open', { onRequest: middleware('throttle:open') }, ok);
+    fastify.get('/missing', { onRequest: middleware('throttle:nope') }, ok);
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it('should send rate limit headers', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/posts' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers).toMatchObject({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+      'ratelimit-reset': '60',
+    });
+  });
+
+  it('should answer with a 429 problem once the limit is exceeded', async () => {
+    await fastify.inject({ method: 'GET', url: '/posts' });
+    await fastify.inject({ method: 'GET', url: '/posts' });
+    clock.advance(20_000);
+
+    const response = await fastify.inject({ method: 'GET', url: '/posts' });
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers['content-type']).toContain(
+      'application/problem+json',
+    );
+    expect(response.headers).toMatchObject({
+      'retry-after': '40',
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '0',
+      'ratelimit-reset': '40',
+    });
+    expect(response.json()).toMatchObject({
+      status: 429,
+      code: 'TOO_MANY_REQUESTS',
+      retryAfter: 40,
+      instance: '/posts',
+    });
+
+    clock.advance(40_000);
+    expect(
+      (await fastify.inject({ method: 'GET', url: '/posts' })).statusCode,
+    ).toBe(200);
+  });
+
+  it('should count users separately from anonymous clients', async () => {
+    await fastify.inject({ method: 'POST', url: '/login' });
+    expect(
+      (await fastify.inject({ method: 'POST', url: '/login' })).statusCode,
+    ).toBe(429);
+
+    const asUser = (id: string) =>
+      fastify.inject({
+        method: 'POST',
+        url: '/login',
+        headers: { 'x-user': id },
+      });
+
+    expect((await asUser('1')).statusCode).toBe(200);
+    expect((await asUser('2')).statusCode).toBe(200);
+    expect((await asUser('1')).statusCode).toBe(429);
+  });
+
+  it('should keep the counters of named limiters apart', async () => {
+    await fastify.inject({ method: 'POST', url: '/login' });
+
+    expect(
+      (await fastify.inject({ method: 'GET', url: '/posts' })).statusCode,
+    ).toBe(200);
+  });
+
+  it('should apply every limit of a limiter and report the lowest', async () => {
+    const first = await fastify.inject({
+      method: 'GET',
+      url: '/search',
+      headers: { 'x-user': '1' },
+    });
+    expect(first.headers).toMatchObject({
+      'ratelimit-limit': '1',
+      'ratelimit-remaining': '0',
+    });
+
+    // The shared limit blocks other users too
+    const second = await fastify.inject({
+      method: 'GET',
+      url: '/search',
+      headers: { 'x-user': '2' },
+    });
+    expect(second.statusCode).toBe(429);
+  });
+
+  it('should not limit nor send headers for unlimited limiters', async () => {
+    for (let i = 0; i < 3; i++) {
+      const response = await fastify.inject({ method: 'GET', url: '/open' });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['ratelimit-limit']).toBeUndefined();
+    }
+  });
+
+  it('should fail on unknown limiters', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/missing' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json().message).toContain('Rate limiter [nope]');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Throttle Requests Middleware
+ *
+ * Limits requests with the RateLimiter, registered as `throttle`:
+ *
+ * - `throttle:login` uses the named limiter `login`
+ * - `throttle:60,1` allows 60 requests per minute
+ * - `throttle:60,1,sliding` does the same with a sliding window
+ *
+ * Requests are counted per user once authenticated (when an `auth`
+ * middleware ran before), per IP address otherwise, unless the limit sets
+ * its own key. Every response carries the RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset headers; blocked requests get a
+ * 429 problem response with Retry-After.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type {
+  Middleware,
+  MiddlewareResponse,
+} from '../http/middleware/Middleware';
+import { TooManyRequestsError } from '../error/CommonErrors';
+import { Limit } from './Limit';
+import type { RateLimiter, RateLimitResult } from './RateLimiter';
+
+export class ThrottleRequests implements Middleware {
+  static readonly inject = ['rateLimiter'] as const;
+
+  constructor(private readonly _limiter: RateLimiter) {}
+
+  async handle(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    ...parameters: string[]
+  ): Promise<MiddlewareResponse | void> {
+    const limits = await this.limits(request, parameters);
+    const results: RateLimitResult[] = [];
+
+    for (const limit of limits) {
+      results.push(await this._limiter.hit(limit));
+    }
+
+    const limited = results.filter((result) => Number.isFinite(result.limit));
+    if (limited.length === 0) {
+      return;
+    }
+
+    const blocked = limited.filter((result) => !result.allowed);
+    if (blocked.length > 0) {
+      const retryAfter = Math.max(...blocked.map((r) => r.retryAfter));
+
+      return {
+        status: 429,
+        headers: {
+          ...headers(blocked[0]),
+          'RateLimit-Reset': retryAfter,
+          'Retry-After': retryAfter,
+        },
+        body: new TooManyRequestsError({
+          message: `Too many requests. Retry after ${retryAfter} seconds.`,
+          details: { retryAfter },
+          instance: request.url,
+        }).toProblemDetails(),
+      };
+    }
+
+    // Report the limit closest to being exceeded
+    reply.headers(
+      headers(
+        limited.reduce((lowest, result) =>
+          result.remaining < lowest.remaining ? result : lowest,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the limits of the request, keyed per limiter and client
+   */
+  private async limits(
+    request: FastifyRequest,
+    [name, decayMinutes, algorithm]: string[],
+  ): Promise<Limit[]> {
+    if (name === undefined || /^\d+$/.test(name)) {
+      const limit = Limit.perMinute(
+        Number(name ?? 60),
+        Number(decayMinutes ?? 1),
+      ).by(`throttle:${signature(request)}`);
+
+      return [algorithm === 'sliding' ? limit.sliding() : limit];
+    }
+
+    const callback = this._limiter.limiter(name);
+    if (!callback) {
+      throw new Error(
+        `Rate limiter [${name}] is not defined. Register it with rateLimiter.for().`,
+      );
+    }
+
+    return [await callback(request)].flat().map((limit) => {
+      const keyed = new Limit(limit.maxAttempts, limit.decaySeconds).by(
+        `${name}:${limit.key || signature(request)}`,
+      );
+      keyed.algorithm = limit.algorithm;
+      return keyed;
+    });
+  }
+}
+
+/**
+ * Identify the client: the authenticated user, or the IP address
+ */
+function signature(request: FastifyRequest): string {
+  const user = request.user as { id?: unknown; sub?: unknown } | undefined;
+  const id = user?.id ?? user?.sub;
+
+  return id !== undefined ? `user:${String(id)}` : `ip:${request.ip}`;
+}
+
+function headers(result: RateLimitResult): Record<string, number> {
+  return {
+    'RateLimit-Limit': result.limit,
+    'RateLimit-Remaining': result.remaining,
+    'RateLimit-Reset': result.resetIn,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Rate Limiting Module
+ *
+ * Laravel-style rate limiting: named limiters, fixed and sliding windows,
+ * memory and database stores, and the `throttle` middleware.
+ */
+
+export { RateLimiter } from './RateLimiter';
+export type { LimiterCallback, RateLimitResult } from './RateLimiter';
+export { Limit } from './Limit';
+export type { RateLimitAlgorithm } from './Limit';
+export { ThrottleRequests } from './ThrottleRequests';
+export { FakeClock, systemClock } from './Clock';
+export type { Clock } from './Clock';
+export { MemoryStore, PrismaStore } from './stores';
+export type { RateLimitDelegate, RateLimitStore } from './stores';
@@ -0,0 +1,47 @@
+/**
+ * Memory Store
+ *
+ * Keeps counters in the process. Counters are not shared between
+ * instances; use the database store when running several.
+ */
+
+import type { RateLimitStore } from './RateLimitStore';
+
+export class MemoryStore implements RateLimitStore {
+  private readonly _counters: Map<
+    string,
+    { count: number; expiresAt: number }
+  > = new Map();
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    const counter = this._counters.get(key) ?? { count: 0, expiresAt };
+    counter.count += 1;
+    counter.expiresAt = Math.max(counter.expiresAt, expiresAt);
+    this._counters.set(key, counter);
+
+    return counter.count;
+  }
+
+  async get(key: string): Promise<number> {
+    return this._counters.get(key)?.count ?? 0;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this._counters.delete(key));
+  }
+
+  async prune(now: number): Promise<void> {
+    this._counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) {
+        this._counters.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Get the number of counters kept
+   */
+  size(): number {
+    return this._counters.size;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Prisma Store
+ *
+ * Keeps counters in the `RateLimit` table, so every instance of the API
+ * shares them. Counters are incremented with an atomic upsert.
+ *
+ * Requires the model of prisma/schema.prisma:
+ *
+ *   model RateLimit {
+ *     key       String   @id
+ *     count     Int
+ *     expiresAt DateTime
+ *   }
+ */
+
+import type { RateLimitStore } from './RateLimitStore';
+
+/**
+ * The parts of the generated `prisma.rateLimit` delegate the store uses
+ */
+export interface RateLimitDelegate {
+  upsert(args: {
+    where: { key: string };
+    create: { key: string; count: number; expiresAt: Date };
+    update: { count: { increment: number } };
+    select: { count: true };
+  }): Promise<{ count: number }>;
+  findUnique(args: {
+    where: { key: string };
+    select: { count: true };
+  }): Promise<{ count: number } | null>;
+  deleteMany(args: {
+    where: { key: { in: string[] } } | { expiresAt: { lte: Date } };
+  }): Promise<unknown>;
+}
+
+export class PrismaStore implements RateLimitStore {
+  constructor(private readonly _prisma: { rateLimit: RateLimitDelegate }) {}
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    const upsert = () =>
+      this._prisma.rateLimit.upsert({
+        where: { key },
+        create: { key, count: 1, expiresAt: new Date(expiresAt) },
+        update: { count: { increment: 1 } },
+        select: { count: true },
+      });
+
+    try {
+      return (await upsert()).count;
+    } catch (error) {
+      // Two instances creating the same counter: the loser retries as an update
+      if ((error as { code?: string }).code !== 'P2002') {
+        throw error;
+      }
+      return (await upsert()).count;
+    }
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = await this._prisma.rateLimit.findUnique({
+      where: { key },
+      select: { count: true },
+    });
+
+    return counter?.count ?? 0;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await this._prisma.rateLimit.deleteMany({ where: { key: { in: keys } } });
+  }
+
+  async prune(now: number): Promise<void> {
+    await this._prisma.rateLimit.deleteMany({
+      where: { expiresAt: { lte: new Date(now) } },
+    });
+  }
+}
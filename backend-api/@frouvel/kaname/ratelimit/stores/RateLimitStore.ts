@@ -0,0 +1,31 @@
+/**
+ * Rate Limit Store Contract
+ *
+ * Keeps the attempt counters of the RateLimiter. Every counter belongs to
+ * a single window, so counters are never reset: they are left to expire
+ * and removed by prune().
+ */
+
+export interface RateLimitStore {
+  /**
+   * Add an attempt to the counter and return the new count
+   *
+   * @param expiresAt when the counter may be pruned (ms since the epoch)
+   */
+  increment(key: string, expiresAt: number): Promise<number>;
+
+  /**
+   * Get the count of a counter, 0 if it does not exist
+   */
+  get(key: string): Promise<number>;
+
+  /**
+   * Remove counters
+   */
+  delete(keys: string[]): Promise<void>;
+
+  /**
+   * Remove the counters that expired before the given time
+   */
+  prune(now: number): Promise<void>;
+}
@@ -0,0 +1,8 @@
+/**
+ * Rate Limit Stores
+ */
+
+export type { RateLimitStore } from './RateLimitStore';
+export { MemoryStore } from './MemoryStore';
+export { PrismaStore } from './PrismaStore';
+export type { RateLimitDelegate } from './PrismaStore';
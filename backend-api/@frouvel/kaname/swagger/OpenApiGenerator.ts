@@ -11,10 +11,11 @@
 import type { FastifyInstance } from 'fastify';
 import type { OpenAPIV3 } from 'openapi-types';
 import { readFileSync, readdirSync, statSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { parse as parseComments } from 'comment-parser';
+import { Log } from '../log/Log';
 
-interface JsDocInfo {
+export interface JsDocInfo {
   summary?: string;
   description?: string;
   tags?: string[];
@@ -36,6 +37,29 @@ export interface OpenApiGeneratorOptions {
   tagDescriptions?: Record<string, string>; // Custom tag descriptions
 }
 
+/**
+ * A method of a route defined in the api directory
+ */
+export interface ApiRoute {
+  /**
+   * Lowercase HTTP method, e.g. `get`
+   */
+  method: string;
+  /**
+   * Path including the API base path, with `{param}` placeholders
+   */
+  path: string;
+  /**
+   * Directory of the route (holding index.ts, controller.ts, ...)
+   */
+  directory: string;
+  /**
+   * Body of the method in DefineMethods<{ ... }>
+   */
+  definition: string;
+  jsDoc?: JsDocInfo;
+}
+
 export class OpenApiGenerator {
   private readonly _options: OpenApiGeneratorOptions;
   private readonly _basePath: string;
@@ -176,7 +200,22 @@ export class OpenApiGenerator {
 
     // Scan api directory and generate paths
     const apiPath = join(this._basePath, 'api');
-    this._scanApiDirectory(apiPath, spec, this._apiBasePath);
+    for (const route of this.routes()) {
+      // Skip root controller.ts (api/index.ts)
+      if (route.directory === apiPath) continue;
+
+      if (!spec.paths[route.path]) {
+        spec.paths[route.path] = {};
+      }
+
+      // Type assertion needed due to OpenAPI PathItemObject complexity
+      (spec.paths[route.path] as any)[route.method] = this._createPathItem(
+        route.method,
+        route.definition,
+        route.path,
+        route.jsDoc,
+      );
+    }
 
     // Collect and deduplicate tags
     const tagSet = new Set<string>();
@@ -201,6 +240,19 @@ export class OpenApiGenerator {
     return spec;
   }
 
+  /**
+   * Scan the api directory for the methods of every route
+   */
+  routes(): ApiRoute[] {
+    const routes: ApiRoute[] = [];
+    this._scanApiDirectory(
+      join(this._basePath, 'api'),
+      routes,
+      this._apiBasePath,
+    );
+    return routes;
+  }
+
   /**
    * Get description for a tag
    */
@@ -218,7 +270,7 @@ export class OpenApiGenerator {
    */
   private _scanApiDirectory(
     dir: string,
-    spec: OpenAPIV3.Document,
+    routes: ApiRoute[],
     pathPrefix: string,
   ): void {
     try {
@@ -249,29 +301,23 @@ export class OpenApiGenerator {
                 ? `${pathPrefix}/{${paramName}}`
                 : `${pathPrefix}/${entry}`;
 
-          this._scanApiDirectory(fullPath, spec, newPrefix);
+          this._scanApiDirectory(fullPath, routes, newPrefix);
         } else if (entry === 'index.ts') {
-          // Skip root controller.ts (api/index.ts)
-          // Only parse if we have a path prefix (not at root level)
-          if (pathPrefix && pathPrefix !== this._apiBasePath) {
-            this._parseRouteFile(fullPath, spec, pathPrefix);
-          }
+          routes.push(...this._parseRouteFile(fullPath, pathPrefix || '/'));
         }
       }
     } catch (error) {
       // Directory might not exist or not readable
-      console.warn(`Could not scan directory ${dir}:`, error);
+      Log.warning(`Could not scan directory ${dir}`, { error });
     }
   }
 
   /**
    * Parse route file and extract type definitions with JSDoc comments
    */
-  private _parseRouteFile(
-    filePath: string,
-    spec: OpenAPIV3.Document,
-    path: string,
-  ): void {
+  private _parseRouteFile(filePath: string, path: string): ApiRoute[] {
+    const routes: ApiRoute[] = [];
+
     try {
       const content = readFileSync(filePath, 'utf-8');
 
@@ -280,19 +326,16 @@ export class OpenApiGenerator {
 
       // Debug: log what JSDoc was found
       if (jsdocMap.size > 0) {
-        console.log(
-          `[OpenApiGenerator] Found JSDoc for ${jsdocMap.size} method(s) in ${filePath}`,
-        );
-        jsdocMap.forEach((doc, method) => {
-          console.log(
-            `[OpenApiGenerator]   ${method}: tags=[${doc.tags?.join(', ') || 'none'}]`,
-          );
+        Log.debug(`Found JSDoc for ${jsdocMap.size} method(s) in ${filePath}`, {
+          tags: Object.fromEntries(
+            [...jsdocMap].map(([method, doc]) => [method, doc.tags ?? []]),
+          ),
         });
       }
 
       // Extract methods from DefineMethods - handle nested braces
       const defineMethodsIndex = content.indexOf('DefineMethods<{');
-      if (defineMethodsIndex === -1) return;
+      if (defineMethodsIndex === -1) return routes;
 
       // Find matching closing brace by counting
       let braceCount = 0;
@@ -331,27 +374,25 @@ export class OpenApiGenerator {
             }
           }
 
-          const methodDef = methodsContent.substring(startIdx, endIdx);
-          const jsDoc = jsdocMap.get(method);
-          const pathItem = this._createPathItem(method, methodDef, path, jsDoc);
-
-          if (!spec.paths[path]) {
-            spec.paths[path] = {};
-          }
-
-          // Type assertion needed due to OpenAPI PathItemObject complexity
-          (spec.paths[path] as any)[method] = pathItem;
+          routes.push({
+            method,
+            path,
+            directory: dirname(filePath),
+            definition: methodsContent.substring(startIdx, endIdx),
+            jsDoc: jsdocMap.get(method),
+          });
         }
       }
     } catch (error) {
-      console.warn(`Could not parse route file ${filePath}:`, error);
+      Log.warning(`Could not parse route file ${filePath}`, { error });
     }
+
+    return routes;
   }
 
   /**
    * Parse JSDoc comments from file content
    */
-  // eslint-disable-next-line complexity
   private _parseJsDocFromFile(content: string): Map<string, JsDocInfo> {
     const jsdocMap = new Map<string, JsDocInfo>();
 
@@ -394,8 +435,8 @@ export class OpenApiGenerator {
 
             const jsDoc: JsDocInfo = {
               summary:
-                summaryTag?.description || comment.description || undefined,
-              description: descTag?.description || undefined,
+                tagText(summaryTag) || comment.description || undefined,
+              description: tagText(descTag) || undefined,
               tags: comment.tags
                 .filter((t: any) => t.tag === 'tag')
                 .map((t: any) => t.name || t.description) // Handle both name and description
@@ -416,7 +457,7 @@ export class OpenApiGenerator {
         }
       }
     } catch (error) {
-      console.warn('Error parsing JSDoc comments:', error);
+      Log.warning('Error parsing JSDoc comments', { error });
     }
 
     return jsdocMap;
@@ -581,3 +622,12 @@ export class OpenApiGenerator {
     fastify.decorate('swagger', () => spec);
   }
 }
+
+/**
+ * Get the text of a JSDoc tag such as `@summary Check API health`
+ *
+ * comment-parser reads the first word as the name of the tag.
+ */
+function tagText(tag?: { name?: string; description?: string }): string {
+  return [tag?.name, tag?.description].filter(Boolean).join(' ').trim();
+}
@@ -0,0 +1,123 @@
+/**
+ * Create Test App Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Application } from '../foundation/Application';
+import { HttpKernel } from '../foundation/HttpKernel';
+import { HealthServiceProvider } from '../foundation/providers/HealthServiceProvider';
+import { createTestApp, type TestApp } from './createTestApp';
+
+const basePath = process.env.API_BASE_PATH ?? '';
+
+/**
+ * A minimal application, wired like bootstrap/app.ts
+ */
+function createApplication(): Application {
+  const app = new Application('/tmp/kaname-testing');
+  app.singleton('HttpKernel', HttpKernel);
+  app.register(HealthServiceProvider);
+  return app;
+}
+
+describe('createTestApp', () => {
+  let testApp: TestApp | null = null;
+
+  beforeEach(() => {
+    vi.stubEnv('API_JWT_SECRET', 'test_secret');
+  });
+
+  afterEach(async () => {
+    await testApp?.close();
+    testApp = null;
+    vi.unstubAllEnvs();
+  });
+
+  it('should serve the routes through the HttpKernel', async () => {
+    testApp = await createTestApp(createApplication, {
+      bindings: (app) => app.instance('prisma', {}),
+    });
+
+    const response = await testApp.inject(`${basePath}/health/live`);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['x-request-id']).toBeDefined();
+    expect(response.json()).toMatchObject({ status: 'ok', checks: {} });
+    expect(testApp.app.isBooted()).toBe(true);
+    expect(testApp.app.make('fastify')).toBe(testApp.fastify);
+  });
+
+  it('should answer unknown routes with a problem response', async () => {
+    testApp = await createTestApp(createApplication, {
+      bindings: (app) => app.instance('prisma', {}),
+    });
+
+    const response = await testApp.inject(`${basePath}/missing`);
+
+    expect(response.statusCode).toBe(404);
+    expect(response.headers['content-type']).toContain(
+      'application/problem+json',
+    );
+    expect(response.json()).toMatchObject({
+      status: 404,
+      code: 'NOT_FOUND',
+      detail: `Route GET:${basePath}/missing not found`,
+      requestId: response.headers['x-request-id'],
+    });
+  });
+
+  it('should use the bindings given before booting', async () => {
+    testApp = await createTestApp(createApplication, {
+      bindings: (app) => {
+        app.instance('prisma', {});
+        app.booted(() => {
+          app.make('health').register('database', () => false);
+        });
+      },
+    });
+
+    const response = await testApp.inject(`${basePath}/health/ready`);
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json().checks.database.status).toBe('failed');
+  });
+
+  it('should create a fresh application every time', async () => {
+    testApp = await createTestApp(createApplication, {
+      bindings: (app) => app.instance('prisma', {}),
+    });
+    const first = testApp.app;
+    await testApp.close();
+
+    testApp = await createTestApp(createApplication, {
+      bindings: (app) => app.instance('prisma', {}),
+    });
+
+    expect(testApp.app).not.toBe(first);
+    expect(Application.getInstance()).toBe(testApp.app);
+    expect(testApp.app.make('health')).not.toBe(first.make('health'));
+  });
+
+  it('should remove the process listeners of the application on close', async () => {
+    const listeners = () =>
+      (
+        [
+          'uncaughtException',
+          'unhandledRejection',
+          'SIGTERM',
+          'SIGINT',
+        ] as const
+      ).map((event) => process.listenerCount(event));
+    const before = listeners();
+
+    testApp = await createTestApp(createApplication, {
+      bindings: (app) => app.instance('prisma', {}),
+    });
+    expect(listeners()).toEqual(before.map((count) => count + 1));
+
+    await testApp.close();
+    testApp = null;
+
+    expect(listeners()).toEqual(before);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Create Test App
+ *
+ * Boots a fresh application through the HttpKernel, exactly like the HTTP
+ * entry point: bootstrappers, configuration, providers, plugins, global
+ * middleware and routes. Requests are sent with `fastify.inject()`, so no
+ * port is bound.
+ *
+ * @example
+ * import { createApplication } from '$/bootstrap/app';
+ * import { createTestApp, type TestApp } from '$/@frouvel/kaname/testing';
+ *
+ * let testApp: TestApp;
+ *
+ * beforeAll(async () => {
+ *   testApp = await createTestApp(createApplication, {
+ *     bindings: (app) => app.instance('prisma', fakePrisma),
+ *   });
+ * });
+ *
+ * afterAll(() => testApp.close());
+ *
+ * it('answers', async () => {
+ *   const response = await testApp.inject({ method: 'GET', url: '/api/health' });
+ *   expect(response.statusCode).toBe(200);
+ * });
+ */
+
+import type {
+  FastifyInstance,
+  InjectOptions,
+  LightMyRequestResponse,
+} from 'fastify';
+import type { Application } from '../foundation/Application';
+import { Log } from '../log/Log';
+
+export interface TestAppOptions {
+  /**
+   * Replace bindings before the application boots, e.g. with fakes
+   *
+   * Binding `prisma` here replaces the database client, which the kernel
+   * otherwise connects while booting.
+   */
+  bindings?: (app: Application) => void | Promise<void>;
+}
+
+export interface TestApp {
+  app: Application;
+  fastify: FastifyInstance;
+  /**
+   * Send a request without binding a port
+   */
+  inject(options: InjectOptions | string): Promise<LightMyRequestResponse>;
+  /**
+   * Terminate the application: close Fastify and release the resources of
+   * every provider, such as the database connection
+   */
+  close(): Promise<void>;
+}
+
+export async function createTestApp(
+  createApplication: () => Application,
+  options: TestAppOptions = {},
+): Promise<TestApp> {
+  const app = createApplication();
+  await options.bindings?.(app);
+
+  const kernel = app.make('HttpKernel');
+  const fastify = await kernel.handle();
+  await fastify.ready();
+
+  return {
+    app,
+    fastify,
+    inject: (request) => fastify.inject(request),
+    close: async () => {
+      await kernel.terminate();
+      Log.setManager(null);
+    },
+  };
+}
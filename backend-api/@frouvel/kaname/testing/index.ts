@@ -0,0 +1,8 @@
+/**
+ * Testing Module
+ *
+ * Helpers to test the application as it runs in production.
+ */
+
+export { createTestApp } from './createTestApp';
+export type { TestApp, TestAppOptions } from './createTestApp';
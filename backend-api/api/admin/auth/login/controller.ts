@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { Hash } from '$/@frouvel/kaname/hash';
+import { middleware } from '$/@frouvel/kaname/http/middleware';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: {
+    hooks: { onRequest: middleware('throttle:login') },
+    validators: {
+      body: z.object({
+        email: z.string().email(),
+        password: z.string().min(1),
+      }),
+    },
+    handler: async ({ body }) => {
+      const app = Application.getInstance();
+      const admin = await (
+        await app.makeAsync('prisma')
+      ).admin.findUnique({ where: { email: body.email } });
+
+      if (!admin || !(await Hash.check(body.password, admin.password))) {
+        return ApiResponse.unauthorized('Invalid email or password');
+      }
+
+      return ApiResponse.success(
+        await app
+          .make('auth')
+          .issueTokens('admin', { id: admin.id, email: admin.email }),
+      );
+    },
+  },
+}));
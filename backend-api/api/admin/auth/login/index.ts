@@ -0,0 +1,19 @@
+import type { DefineMethods } from 'aspida';
+import type { AuthTokens, ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Admin login
+   * @summary Log in as an administrator
+   * @description Verifies the credentials of an admin account and issues an access token with the admin scope, valid for the tokenExpiration of config/admin.ts, and a refresh token. Limited to 5 attempts per minute.
+   * @tag Admin
+   */
+  post: {
+    reqBody: {
+      /** Email address of the admin account */
+      email: string;
+      password: string;
+    };
+    resBody: AuthTokens | ProblemDetails;
+  };
+}>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { Auth } from '$/@frouvel/kaname/auth';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: {
+    validators: { body: z.object({ refreshToken: z.string().min(1) }) },
+    handler: async ({ body }) => {
+      const id = Auth.id();
+      if (id === null) {
+        return ApiResponse.unauthorized('Authentication required');
+      }
+
+      const revoked = await Application.getInstance()
+        .make('refreshTokens')
+        .revoke(body.refreshToken, { guard: 'admin', userId: id });
+
+      if (!revoked) {
+        return ApiResponse.notFound('Refresh token not found');
+      }
+
+      return ApiResponse.success({ success: true as const });
+    },
+  },
+}));
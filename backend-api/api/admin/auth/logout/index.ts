@@ -0,0 +1,18 @@
+import type { DefineMethods } from 'aspida';
+import type { ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Admin logout
+   * @summary Log out an administrator
+   * @description Revokes the refresh token of the admin session. Tokens of other accounts, and unknown ones, get a 404. The access token stays valid until it expires; clients discard it.
+   * @tag Admin
+   */
+  post: {
+    reqBody: {
+      /** Refresh token received on login */
+      refreshToken: string;
+    };
+    resBody: { success: true } | ProblemDetails;
+  };
+}>;
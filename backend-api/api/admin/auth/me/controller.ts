@@ -0,0 +1,26 @@
+import { Auth } from '$/@frouvel/kaname/auth';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  get: async () => {
+    const id = Auth.id();
+    const admin =
+      id === null
+        ? null
+        : await (
+            await Application.getInstance().makeAsync('prisma')
+          ).admin.findUnique({ where: { id } });
+
+    if (!admin) {
+      return ApiResponse.unauthorized('Authentication required');
+    }
+
+    return ApiResponse.success({
+      id: admin.id,
+      email: admin.email,
+      createdAt: admin.createdAt.toISOString(),
+    });
+  },
+}));
@@ -0,0 +1,6 @@
+import { middleware } from '$/@frouvel/kaname/http/middleware';
+import { defineHooks } from './$relay';
+
+export default defineHooks(() => ({
+  onRequest: middleware('admin'),
+}));
@@ -0,0 +1,20 @@
+import type { DefineMethods } from 'aspida';
+import type { ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Current admin
+   * @summary Get the logged in administrator
+   * @description Returns the admin account of the access token.
+   * @tag Admin
+   */
+  get: {
+    resBody:
+      | {
+          id: string;
+          email: string;
+          createdAt: string;
+        }
+      | ProblemDetails;
+  };
+}>;
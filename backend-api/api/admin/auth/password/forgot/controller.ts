@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { middleware } from '$/@frouvel/kaname/http/middleware';
+import { Log } from '$/@frouvel/kaname/log';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: {
+    hooks: { onRequest: middleware('throttle:login') },
+    validators: { body: z.object({ email: z.string().email() }) },
+    handler: async ({ body }) => {
+      const app = Application.getInstance();
+      const admin = await (
+        await app.makeAsync('prisma')
+      ).admin.findUnique({ where: { email: body.email } });
+
+      // Not awaited, so unknown addresses are not answered faster
+      if (admin) {
+        app
+          .make('passwords')
+          .sendResetLink('admin', admin.email)
+          .catch((error) =>
+            Log.error('Failed to send the password reset link', { error }),
+          );
+      }
+
+      return { status: 202 as const, body: { success: true as const } };
+    },
+  },
+}));
@@ -0,0 +1,18 @@
+import type { DefineMethods } from 'aspida';
+import type { ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Forgot admin password
+   * @summary Request a password reset link
+   * @description Mails a single-use password reset link to the admin account of the email. Always answers 202, whether the account exists or not. Limited to 5 requests per minute.
+   * @tag Admin
+   */
+  post: {
+    reqBody: {
+      /** Email address of the admin account */
+      email: string;
+    };
+    resBody: { success: true } | ProblemDetails;
+  };
+}>;
@@ -0,0 +1,3 @@
+import type { DefineMethods } from 'aspida';
+
+export type Methods = DefineMethods<Record<string, never>>;
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { Hash } from '$/@frouvel/kaname/hash';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: {
+    validators: {
+      body: z.object({
+        token: z.string().min(1),
+        password: z.string().min(8),
+      }),
+    },
+    handler: async ({ body }) => {
+      const app = Application.getInstance();
+      const email = await app.make('passwords').redeem('admin', body.token);
+
+      const admin = await (
+        await app.makeAsync('prisma')
+      ).admin.update({
+        where: { email },
+        data: { password: await Hash.make(body.password) },
+      });
+      await app.make('refreshTokens').revokeAll('admin', admin.id);
+
+      return ApiResponse.success({ success: true as const });
+    },
+  },
+}));
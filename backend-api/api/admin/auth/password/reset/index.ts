@@ -0,0 +1,20 @@
+import type { DefineMethods } from 'aspida';
+import type { ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Reset admin password
+   * @summary Choose a new password with a reset token
+   * @description Sets the password of the admin account of the reset token and logs out all of its sessions. The token is rejected with INVALID_TOKEN once used, TOKEN_EXPIRED once expired.
+   * @tag Admin
+   */
+  post: {
+    reqBody: {
+      /** Token of the password reset link */
+      token: string;
+      /** New password, at least 8 characters */
+      password: string;
+    };
+    resBody: { success: true } | ProblemDetails;
+  };
+}>;
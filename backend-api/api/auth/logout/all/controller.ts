@@ -0,0 +1,20 @@
+import { Auth } from '$/@frouvel/kaname/auth';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: async () => {
+    const guard = Auth.via();
+    const id = Auth.id();
+    if (guard === null || id === null) {
+      return ApiResponse.unauthorized('Authentication required');
+    }
+
+    return ApiResponse.success({
+      revoked: await Application.getInstance()
+        .make('refreshTokens')
+        .revokeAll(guard, id),
+    });
+  },
+}));
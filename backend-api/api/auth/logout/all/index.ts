@@ -0,0 +1,19 @@
+import type { DefineMethods } from 'aspida';
+import type { ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Logout everywhere
+   * @summary End every session of the authenticated user
+   * @description Revokes every refresh token of the user, e.g. after a password change. Requires an access token of the user or admin guard.
+   * @tag Auth
+   */
+  post: {
+    resBody:
+      | {
+          /** Number of refresh tokens revoked */
+          revoked: number;
+        }
+      | ProblemDetails;
+  };
+}>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: {
+    validators: { body: z.object({ refreshToken: z.string().min(1) }) },
+    handler: async ({ body }) => {
+      await Application.getInstance()
+        .make('refreshTokens')
+        .revoke(body.refreshToken);
+
+      return ApiResponse.success({ success: true as const });
+    },
+  },
+}));
@@ -0,0 +1,17 @@
+import type { DefineMethods } from 'aspida';
+import type { ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Logout
+   * @summary End the session of a refresh token
+   * @description Revokes the refresh token and every token rotated from the same login. Access tokens already issued stay valid until they expire.
+   * @tag Auth
+   */
+  post: {
+    reqBody: {
+      refreshToken: string;
+    };
+    resBody: { success: true } | ProblemDetails;
+  };
+}>;
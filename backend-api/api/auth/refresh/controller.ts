@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+import { defineController } from './$relay';
+
+export default defineController(() => ({
+  post: {
+    validators: { body: z.object({ refreshToken: z.string().min(1) }) },
+    handler: async ({ body }) =>
+      ApiResponse.success(
+        await Application.getInstance().make('auth').refresh(body.refreshToken),
+      ),
+  },
+}));
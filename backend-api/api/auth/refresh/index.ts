@@ -0,0 +1,18 @@
+import type { DefineMethods } from 'aspida';
+import type { AuthTokens, ProblemDetails } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Refresh tokens
+   * @summary Exchange a refresh token for new tokens
+   * @description Issues a new access token and a new refresh token. The refresh token is rotated: using it again revokes every token of the session.
+   * @tag Auth
+   */
+  post: {
+    reqBody: {
+      /** Refresh token received on login or on the last refresh */
+      refreshToken: string;
+    };
+    resBody: AuthTokens | ProblemDetails;
+  };
+}>;
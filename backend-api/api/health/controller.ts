@@ -1,6 +1,8 @@
 import { defineController } from './$relay';
-import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { healthResponse } from '$/@frouvel/kaname/health';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
 
 export default defineController(() => ({
-  get: () => ApiResponse.success('OK'),
+  get: async () =>
+    healthResponse(await Application.getInstance().make('health').run()),
 }));
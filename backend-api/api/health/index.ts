@@ -1,13 +1,14 @@
 import type { DefineMethods } from 'aspida';
+import type { HealthReport } from 'commonTypesWithClient';
 
 export type Methods = DefineMethods<{
   /**
    * Health check
    * @summary Check API health status
-   * @description Returns a simple health check response to verify the API is running
+   * @description Runs every registered health check and reports the status and latency of each. Answers 503 when a check failed.
    * @tag Health
    */
   get: {
-    resBody: string;
+    resBody: HealthReport;
   };
 }>;
@@ -0,0 +1,14 @@
+import type { DefineMethods } from 'aspida';
+import type { HealthReport } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Liveness probe
+   * @summary Check whether the API process is alive
+   * @description Runs the checks of the live probe. Answers 503 when a check failed, meaning the process should be restarted.
+   * @tag Health
+   */
+  get: {
+    resBody: HealthReport;
+  };
+}>;
@@ -0,0 +1,8 @@
+import { defineController } from './$relay';
+import { healthResponse } from '$/@frouvel/kaname/health';
+import { Application } from '$/@frouvel/kaname/foundation/Application';
+
+export default defineController(() => ({
+  get: async () =>
+    healthResponse(await Application.getInstance().make('health').run('ready')),
+}));
@@ -0,0 +1,14 @@
+import type { DefineMethods } from 'aspida';
+import type { HealthReport } from 'commonTypesWithClient';
+
+export type Methods = DefineMethods<{
+  /**
+   * Readiness probe
+   * @summary Check whether the API can take traffic
+   * @description Runs the checks of the ready probe, such as the database connection. Answers 503 when a check failed.
+   * @tag Health
+   */
+  get: {
+    resBody: HealthReport;
+  };
+}>;
@@ -1,4 +1,6 @@
+import { Gate } from '$/@frouvel/kaname/auth';
 import { ApiResponse } from '$/@frouvel/kaname/http/ApiResponse';
+import { middleware } from '$/@frouvel/kaname/http/middleware';
 import { defineController } from './$relay';
 
 export default defineController(() => ({
@@ -13,18 +15,28 @@ export default defineController(() => ({
       updatedAt: new Date().toISOString(),
     }),
 
-  patch: ({ params, body }) =>
-    // TODO: Implement UpdateUserUseCase
-    ApiResponse.success({
-      id: parseInt(params.id),
-      name: body.name || 'John Doe',
-      email: body.email || 'john@example.com',
-      age: body.age || 25,
-      updatedAt: new Date().toISOString(),
-    }),
+  // Authorized by the `user` policy through the route parameters
+  patch: {
+    hooks: { onRequest: middleware('auth:user,admin', 'can:user.update') },
+    handler: ({ params, body }) =>
+      // TODO: Implement UpdateUserUseCase
+      ApiResponse.success({
+        id: parseInt(params.id),
+        name: body.name || 'John Doe',
+        email: body.email || 'john@example.com',
+        age: body.age || 25,
+        updatedAt: new Date().toISOString(),
+      }),
+  },
+
+  // Authorized in the handler, once the user is loaded
+  delete: {
+    hooks: { onRequest: middleware('auth:user,admin') },
+    handler: async ({ params }) => {
+      // TODO: Implement DeleteUserUseCase
+      await Gate.authorize('user.delete', { id: params.id });
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  delete: ({ params }) =>
-    // TODO: Implement DeleteUserUseCase
-    ApiResponse.success({ success: true as const }),
+      return ApiResponse.success({ success: true as const });
+    },
+  },
 }));
@@ -24,7 +24,7 @@ export type Methods = DefineMethods<{
   /**
    * Update user
    * @summary Update user information
-   * @description Updates one or more fields of an existing user. All fields are optional.
+   * @description Updates one or more fields of an existing user. All fields are optional. Users may only update their own account, admins any account.
    * @tag Users
    */
   patch: {
@@ -50,7 +50,7 @@ export type Methods = DefineMethods<{
   /**
    * Delete user
    * @summary Delete a user account
-   * @description Permanently deletes a user account. This action cannot be undone.
+   * @description Permanently deletes a user account. This action cannot be undone. Users may only delete their own account, admins any account.
    * @tag Users
    * @deprecated Use POST /users/{id}/deactivate instead
    */
@@ -1,6 +1,5 @@
 import { Command } from '$/@frouvel/kaname/console/Command';
 import type { Application } from '$/@frouvel/kaname/foundation';
-import type { OpenApiGenerator } from '$/@frouvel/kaname/swagger/OpenApiGenerator';
 import { OpenApiSpecGenerator } from '$/@frouvel/kaname/generator/OpenApiSpecGenerator';
 
 export class GenerateOpenApiCommand extends Command {
@@ -33,7 +32,7 @@ export class GenerateOpenApiCommand extends Command {
       return;
     }
 
-    const openApiGen = this.app.make<OpenApiGenerator>('swagger');
+    const openApiGen = this.app.make('swagger');
     
     const generator = new OpenApiSpecGenerator(openApiGen, {
       basePath: this.app.basePath(),
@@ -0,0 +1,34 @@
+/**
+ * Application Exception Handler
+ *
+ * Customize how errors are reported and rendered here.
+ * Bound as 'ExceptionHandler' in bootstrap/app.ts.
+ */
+
+import { ExceptionHandler } from '$/@frouvel/kaname/foundation';
+import type { ErrorClass } from '$/@frouvel/kaname/foundation';
+
+export class Handler extends ExceptionHandler {
+  /**
+   * Error classes that are never reported
+   */
+  protected dontReport: ErrorClass[] = [];
+
+  /**
+   * Register custom error mappings and report sinks
+   *
+   * @example
+   * this.renderable(PaymentDeclinedError, (error) =>
+   *   ApiResponse.utils.createProblemDetails({
+   *     status: 402,
+   *     title: 'Payment Required',
+   *     detail: error.message,
+   *   }),
+   * );
+   *
+   * this.reportable(Error, (error) => {
+   *   Sentry.captureException(error);
+   * });
+   */
+  protected register(): void {}
+}
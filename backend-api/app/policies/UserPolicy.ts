@@ -0,0 +1,25 @@
+/**
+ * User Policy
+ *
+ * Who may manage a user account, checked as `user.update` and
+ * `user.delete`. Admins pass the `before` callback of the gate registered
+ * in AppServiceProvider.
+ */
+
+import type { AuthUser } from '$/@frouvel/kaname/auth';
+
+export class UserPolicy {
+  /**
+   * Users may update their own account
+   */
+  update(actor: AuthUser, user: { id: string }): boolean {
+    return actor.id === user.id;
+  }
+
+  /**
+   * Users may delete their own account
+   */
+  delete(actor: AuthUser, user: { id: string }): boolean {
+    return actor.id === user.id;
+  }
+}
@@ -9,30 +9,42 @@ import type {
   Application,
   ServiceProvider,
 } from '$/@frouvel/kaname/foundation';
-import type { ConsoleKernel } from '$/@frouvel/kaname/foundation';
+import { tagCommands } from '$/@frouvel/kaname/console';
+import { Log } from '$/@frouvel/kaname/log';
+import { Limit } from '$/@frouvel/kaname/ratelimit';
+import { UserPolicy } from '$/app/policies/UserPolicy';
 
 // Import your custom commands here
 import { ExampleCommand } from '$/app/console/ExampleCommand';
 import { GenerateOpenApiCommand } from '$/app/console/GenerateOpenApiCommand';
 
 export class AppServiceProvider implements ServiceProvider {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   register(app: Application): void {
     // Register any application services here
-    console.log('[AppServiceProvider] Application services registered');
-  }
-
-  async boot(app: Application): Promise<void> {
-    // Register custom console commands
-    const kernel = app.make<ConsoleKernel>('ConsoleKernel');
 
     // Register your commands here:
-    kernel.registerCommands([
-      new ExampleCommand(app),
-      new GenerateOpenApiCommand(app),
+    tagCommands(app, [
+      ExampleCommand,
+      GenerateOpenApiCommand,
       // Add more commands here as needed
     ]);
 
-    console.log('[AppServiceProvider] Application services booted');
+    Log.debug('Application services registered');
+  }
+
+  async boot(app: Application): Promise<void> {
+    // Named limiters for the throttle middleware (`throttle:api`)
+    app
+      .make('rateLimiter')
+      .for('api', () => Limit.perMinute(60))
+      .for('login', () => Limit.perMinute(5));
+
+    // Abilities and policies of the gate (`Gate.authorize`, `can:user.update`)
+    app
+      .make('gate')
+      .before((user) => (user.scope.includes('admin') ? true : undefined))
+      .policy('user', UserPolicy);
+
+    Log.debug('Application services booted');
   }
 }
@@ -14,8 +14,13 @@ import {
   DatabaseServiceProvider,
   ConsoleServiceProvider,
   SwaggerServiceProvider,
+  RateLimitServiceProvider,
+  HealthServiceProvider,
+  AuthServiceProvider,
+  MailServiceProvider,
 } from '$/@frouvel/kaname/foundation';
 import { AppServiceProvider } from '$/app/providers/AppServiceProvider';
+import { Handler } from '$/app/exceptions/Handler';
 import { resolve } from 'path';
 
 // Get the base path (backend-api directory)
@@ -26,59 +31,72 @@ const basePath = __dirname.endsWith('bootstrap')
   ? resolve(__dirname, '..')
   : __dirname;
 
+/**
+ * Create a new application instance
+ *
+ * The entry points use the instance exported below; tests create a fresh
+ * one per file (see @frouvel/kaname/testing).
+ */
+export function createApplication(): Application {
+  /*
+  |--------------------------------------------------------------------------
+  | Create The Application
+  |--------------------------------------------------------------------------
+  |
+  | The first thing we will do is create a new application instance
+  | which serves as the "glue" for all the components, and is
+  | the IoC container for the system binding all of the various parts.
+  |
+  */
 
-/*
-|--------------------------------------------------------------------------
-| Create The Application
-|--------------------------------------------------------------------------
-|
-| The first thing we will do is create a new application instance
-| which serves as the "glue" for all the components, and is
-| the IoC container for the system binding all of the various parts.
-|
-*/
+  const app = new Application(basePath);
 
-const app = new Application(basePath);
+  /*
+  |--------------------------------------------------------------------------
+  | Bind Important Interfaces
+  |--------------------------------------------------------------------------
+  |
+  | Next, we need to bind some important interfaces into the container so
+  | we will be able to resolve them when needed. The kernels serve the
+  | incoming requests to this application from both the web and CLI.
+  | The exception handler renders every error as a problem response.
+  |
+  */
 
-/*
-|--------------------------------------------------------------------------
-| Bind Important Interfaces
-|--------------------------------------------------------------------------
-|
-| Next, we need to bind some important interfaces into the container so
-| we will be able to resolve them when needed. The kernels serve the
-| incoming requests to this application from both the web and CLI.
-|
-*/
+  app.singleton('HttpKernel', HttpKernel);
+  app.singleton('ConsoleKernel', ConsoleKernel);
+  app.singleton('ExceptionHandler', Handler);
 
-app.singleton('HttpKernel', () => new HttpKernel(app));
-app.singleton('ConsoleKernel', () => new ConsoleKernel(app));
+  /*
+  |--------------------------------------------------------------------------
+  | Register Service Providers
+  |--------------------------------------------------------------------------
+  |
+  | Register all application service providers. These providers bind
+  | services into the container and will be booted when the application
+  | starts handling requests. Providers declaring provides() are deferred
+  | until one of their services is first resolved.
+  |
+  */
 
-/*
-|--------------------------------------------------------------------------
-| Register Service Providers
-|--------------------------------------------------------------------------
-|
-| Register all application service providers. These providers bind
-| services into the container and will be booted when the application
-| starts handling requests.
-|
-*/
+  const providers = [
+    // Framework providers
+    DatabaseServiceProvider,
+    ConsoleServiceProvider,
+    SwaggerServiceProvider,
+    RateLimitServiceProvider,
+    HealthServiceProvider,
+    AuthServiceProvider,
+    MailServiceProvider,
 
-const providers = [
-  // Framework providers
-  DatabaseServiceProvider,
-  ConsoleServiceProvider,
-  SwaggerServiceProvider,
-  
-  // Application providers
-  AppServiceProvider,
-];
+    // Application providers
+    AppServiceProvider,
+  ];
+
+  app.registerProviders(providers);
 
-providers.forEach((Provider) => {
-  const provider = new Provider();
-  app.register(provider);
-});
+  return app;
+}
 
 /*
 |--------------------------------------------------------------------------
@@ -91,4 +109,6 @@ providers.forEach((Provider) => {
 |
 */
 
+const app = createApplication();
+
 export default app;
@@ -34,6 +34,12 @@ export interface ProblemDetails {
    */
   instance?: string;
 
+  /**
+   * The id of the request (X-Request-Id), to correlate the problem with
+   * the server logs
+   */
+  requestId?: string;
+
   /**
    * Additional extension members
    */
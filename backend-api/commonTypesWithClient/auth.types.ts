@@ -0,0 +1,24 @@
+/**
+ * Authentication types
+ * Shared between backend and frontend
+ */
+
+/**
+ * Tokens issued on login and refresh
+ */
+export interface AuthTokens {
+  tokenType: 'Bearer';
+  /**
+   * Short-lived JWT sent as `Authorization: Bearer <accessToken>`
+   */
+  accessToken: string;
+  /**
+   * Seconds the access token is valid for
+   */
+  expiresIn: number | null;
+  /**
+   * Opaque token exchanged for new tokens at `POST /auth/refresh`, valid
+   * for a single use
+   */
+  refreshToken: string;
+}
@@ -0,0 +1,36 @@
+/**
+ * Health check types
+ * Shared between backend and frontend
+ */
+
+/**
+ * ok: healthy
+ * warning: degraded, but still serving
+ * failed: not able to serve
+ */
+export type HealthStatus = 'ok' | 'warning' | 'failed';
+
+/**
+ * The result of a single check
+ */
+export interface HealthCheckResult {
+  status: HealthStatus;
+  /**
+   * Time the check took, in milliseconds
+   */
+  latencyMs: number;
+  message?: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * The results of every check of a probe
+ */
+export interface HealthReport {
+  /**
+   * The worst status of the checks
+   */
+  status: HealthStatus;
+  timestamp: string;
+  checks: Record<string, HealthCheckResult>;
+}
@@ -1,2 +1,4 @@
 export * from './apiResponse.types';
+export * from './auth.types';
+export * from './health.types';
 export type {};
@@ -0,0 +1,79 @@
+/**
+ * Authentication Configuration
+ *
+ * Guards authenticate requests for the `auth` middleware (`auth:admin`).
+ * The `jwt` driver verifies the bearer token with the secret, issuer,
+ * audience and expiry of config/jwt.ts.
+ *
+ * `passwords` configures the password resets of the accounts of a guard:
+ * how long reset tokens live and the page reset links point to.
+ */
+
+import { z } from 'zod';
+import admin from './admin';
+
+export const authConfigSchema = z.object({
+  defaults: z.object({
+    /**
+     * Guard used by `auth` without parameters and by Auth.guard()
+     */
+    guard: z.string(),
+  }),
+  guards: z.record(
+    z.string(),
+    z.object({
+      driver: z.string(),
+      /**
+       * Scopes of config/jwt.ts the token must carry one of, by key
+       * (`admin`, `user.default`)
+       */
+      scope: z.string().optional(),
+      /**
+       * Seconds the tokens of the guard are valid for, instead of
+       * `expiresIn` of config/jwt.ts
+       */
+      expiresIn: z.number().positive().optional(),
+    }),
+  ),
+  /**
+   * Password resets of the accounts of a guard
+   */
+  passwords: z.record(
+    z.string(),
+    z.object({
+      /**
+       * Seconds a reset token is valid for
+       */
+      expire: z.number().int().positive(),
+      /**
+       * Page of the frontend the reset link points to, with `?token=`
+       */
+      url: z.string().url(),
+    }),
+  ),
+});
+
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+
+export default authConfigSchema.parse({
+  defaults: {
+    guard: 'user',
+  },
+  guards: {
+    user: {
+      driver: 'jwt',
+      scope: 'user.default',
+    },
+    admin: {
+      driver: 'jwt',
+      scope: 'admin',
+      expiresIn: admin.tokenExpiration,
+    },
+  },
+  passwords: {
+    admin: {
+      expire: 3600,
+      url: `${process.env.WEB_FRONTEND_URL || 'http://localhost:3000'}/admin/auth/reset-password`,
+    },
+  },
+});
@@ -34,9 +34,10 @@ export default corsConfigSchema.parse({
     'Content-Type',
     'Authorization',
     'X-Requested-With',
+    'X-Request-Id',
     'Accept',
   ],
-  exposedHeaders: ['X-Total-Count'],
+  exposedHeaders: ['X-Total-Count', 'X-Request-Id'],
   credentials: true,
   maxAge: 86400,
 });
@@ -25,6 +25,7 @@ export const databaseConfigSchema = z.object({
   seeds: z.object({
     directory: z.string(),
   }),
+  errors: z.record(z.string(), z.number().int().nullable()),
 });
 
 export type DatabaseConfig = z.infer<typeof databaseConfigSchema>;
@@ -50,4 +51,11 @@ export default databaseConfigSchema.parse({
   seeds: {
     directory: './prisma/seeders',
   },
+  /**
+   * HTTP status per Prisma error code, merged over the framework defaults
+   * (P2000 400, P2002/P2003 409, P2025 404, connection errors 503).
+   * Supported statuses: 400, 401, 403, 404, 409 and 503 (anything else
+   * is answered with 500). Set a code to null to leave it unmapped.
+   */
+  errors: {},
 });
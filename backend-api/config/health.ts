@@ -0,0 +1,40 @@
+/**
+ * Health Configuration
+ *
+ * Built-in checks run by the /health routes and the `health` command.
+ * Custom checks are registered in code (see
+ * app/providers/AppServiceProvider.ts).
+ */
+
+import { z } from 'zod';
+
+export const healthConfigSchema = z.object({
+  /**
+   * Milliseconds a check may take before it fails
+   */
+  timeout: z.number().int().positive(),
+  /**
+   * Built-in checks to register
+   */
+  checks: z.array(z.enum(['database', 'disk', 'configCache'])),
+  disk: z.object({
+    /**
+     * A path on the disk to watch
+     */
+    path: z.string(),
+    warnFreePercent: z.number().min(0).max(100),
+    failFreePercent: z.number().min(0).max(100),
+  }),
+});
+
+export type HealthConfig = z.infer<typeof healthConfigSchema>;
+
+export default healthConfigSchema.parse({
+  timeout: 3000,
+  checks: ['database', 'disk', 'configCache'],
+  disk: {
+    path: process.cwd(),
+    warnFreePercent: 10,
+    failFreePercent: 5,
+  },
+});
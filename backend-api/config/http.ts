@@ -0,0 +1,49 @@
+/**
+ * HTTP Configuration
+ *
+ * Middleware run by the HttpKernel. Entries are middleware aliases
+ * (registered with aliasMiddleware() in a service provider), optionally
+ * with parameters after a colon (`throttle:60,1`), or group names.
+ *
+ * Also configures the request id propagated through the request context.
+ */
+
+import { z } from 'zod';
+
+export const httpConfigSchema = z.object({
+  /**
+   * Global middleware stack, run in order on every request
+   */
+  middleware: z.array(z.string()),
+  /**
+   * Middleware groups, attached to route directories with
+   * middleware('<group>') in hooks.ts
+   */
+  middlewareGroups: z.record(z.string(), z.array(z.string())),
+  requestId: z.object({
+    /**
+     * Header carrying the request id, read from requests and echoed in
+     * responses
+     */
+    header: z.string(),
+    /**
+     * Accept ids sent by clients and proxies instead of always generating
+     * one; disable when the API is reachable without a trusted proxy
+     */
+    trustIncoming: z.boolean(),
+  }),
+});
+
+export type HttpConfig = z.infer<typeof httpConfigSchema>;
+
+export default httpConfigSchema.parse({
+  middleware: ['throttle:api'],
+  middlewareGroups: {
+    user: ['auth:user'],
+    admin: ['auth:admin'],
+  },
+  requestId: {
+    header: 'X-Request-Id',
+    trustIncoming: true,
+  },
+});
@@ -0,0 +1,122 @@
+/**
+ * Logging Configuration
+ *
+ * Channels the Log facade writes to. Drivers: stdout (JSON lines), pretty
+ * (human readable), daily (JSON files rotated per day), memory (kept for
+ * tests), stack (several channels) and null.
+ *
+ * Sensitive values are masked in every record, see `redact`.
+ */
+
+import { z } from 'zod';
+
+const logLevelSchema = z.enum([
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+]);
+
+export const loggingConfigSchema = z.object({
+  /**
+   * Channel used by Log.info() and friends
+   */
+  default: z.string(),
+  channels: z.record(
+    z.string(),
+    z
+      .object({
+        driver: z.string(),
+        level: logLevelSchema.optional(),
+        /**
+         * daily: file path, relative to the application root
+         */
+        path: z.string().optional(),
+        /**
+         * daily: number of files to keep
+         */
+        days: z.number().int().nonnegative().optional(),
+        /**
+         * stack: channels to write to
+         */
+        channels: z.array(z.string()).optional(),
+      })
+      .passthrough(),
+  ),
+  redact: z.object({
+    /**
+     * Fields whose name contains one of the patterns, ignoring case and
+     * separators ('token' also masks `accessToken` and `refresh_token`)
+     */
+    keys: z.array(z.string()),
+    /**
+     * Header names, matched exactly
+     */
+    headers: z.array(z.string()),
+    replacement: z.string(),
+  }),
+});
+
+export type LoggingConfig = z.infer<typeof loggingConfigSchema>;
+
+const env = process.env.NODE_ENV || 'development';
+const level = logLevelSchema.parse(process.env.LOG_LEVEL || 'info');
+
+export default loggingConfigSchema.parse({
+  default:
+    process.env.LOG_CHANNEL ||
+    (env === 'production' ? 'stack' : env === 'test' ? 'memory' : 'pretty'),
+  channels: {
+    stack: {
+      driver: 'stack',
+      channels: (process.env.LOG_STACK || 'stdout,daily').split(','),
+    },
+    stdout: {
+      driver: 'stdout',
+      level,
+    },
+    pretty: {
+      driver: 'pretty',
+      level,
+    },
+    daily: {
+      driver: 'daily',
+      path: 'storage/logs/kaname.log',
+      days: 14,
+      level,
+    },
+    memory: {
+      driver: 'memory',
+    },
+    null: {
+      driver: 'null',
+    },
+  },
+  redact: {
+    keys: [
+      'password',
+      'passwd',
+      'secret',
+      'token',
+      'authorization',
+      'cookie',
+      'apiKey',
+      'privateKey',
+      'creditCard',
+      'cvv',
+    ],
+    headers: [
+      'authorization',
+      'proxy-authorization',
+      'cookie',
+      'set-cookie',
+      'x-api-key',
+      'x-maintenance-bypass',
+    ],
+    replacement: '[REDACTED]',
+  },
+});
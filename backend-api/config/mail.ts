@@ -0,0 +1,59 @@
+/**
+ * Mail Configuration
+ *
+ * Mailers the Mail facade sends with. Drivers: log (writes messages to a
+ * log channel instead of sending them), memory (kept for tests) and
+ * sendgrid.
+ *
+ * MAIL_MAILER defaults to log outside of production only: production must
+ * name its mailer.
+ */
+
+import { z } from 'zod';
+
+export const mailConfigSchema = z.object({
+  /**
+   * Mailer used by Mail.send()
+   */
+  default: z.string().min(1, 'Set MAIL_MAILER in production.'),
+  /**
+   * Sender of the messages that do not set one
+   */
+  from: z.object({
+    address: z.string().email(),
+    name: z.string().optional(),
+  }),
+  mailers: z.record(
+    z.string(),
+    z
+      .object({
+        driver: z.string(),
+        /**
+         * log: channel of config/logging.ts, the default channel if unset
+         */
+        channel: z.string().optional(),
+        /**
+         * sendgrid: API key
+         */
+        apiKey: z.string().optional(),
+      })
+      .passthrough(),
+  ),
+});
+
+export type MailConfig = z.infer<typeof mailConfigSchema>;
+
+const env = process.env.NODE_ENV || 'development';
+
+export default mailConfigSchema.parse({
+  default: process.env.MAIL_MAILER || (env === 'production' ? '' : 'log'),
+  from: {
+    address: process.env.MAIL_FROM_ADDRESS || 'noreply@frourio-framework.com',
+    name: process.env.MAIL_FROM_NAME || 'Frourio Framework',
+  },
+  mailers: {
+    log: { driver: 'log' },
+    memory: { driver: 'memory' },
+    sendgrid: { driver: 'sendgrid', apiKey: process.env.SENDGRID_API_KEY },
+  },
+});
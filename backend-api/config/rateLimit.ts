@@ -0,0 +1,28 @@
+/**
+ * Rate Limit Configuration
+ *
+ * Where the RateLimiter keeps its counters. Named limiters are defined in
+ * code (see app/providers/AppServiceProvider.ts) and applied with the
+ * `throttle` middleware.
+ */
+
+import { z } from 'zod';
+
+export const rateLimitConfigSchema = z.object({
+  /**
+   * memory: per process, fine for a single instance
+   * database: the RateLimit table, shared by every instance
+   */
+  store: z.enum(['memory', 'database']),
+  /**
+   * Seconds between removals of expired counters
+   */
+  pruneInterval: z.number().int().positive(),
+});
+
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+export default rateLimitConfigSchema.parse({
+  store: process.env.RATE_LIMIT_STORE || 'memory',
+  pruneInterval: 60,
+});
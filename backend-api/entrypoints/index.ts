@@ -6,8 +6,8 @@
  */
 
 import app from '$/bootstrap/app';
-import type { HttpKernel } from '$/@frouvel/kaname/foundation';
 import { env } from '$/env';
+import { Log } from '$/@frouvel/kaname/log';
 
 /*
 |--------------------------------------------------------------------------
@@ -20,7 +20,7 @@ import { env } from '$/env';
 |
 */
 
-const kernel = app.make<HttpKernel>('HttpKernel');
+const kernel = app.make('HttpKernel');
 
 kernel
   .handle()
@@ -32,14 +32,14 @@ kernel
       },
       (err, address) => {
         if (err) {
-          console.error('Error starting server:', err);
+          Log.critical('Error starting server', { error: err });
           process.exit(1);
         }
-        console.log(`Server listening at ${address}`);
+        Log.info(`Server listening at ${address}`);
       }
     );
   })
   .catch((error) => {
-    console.error('Failed to start application:', error);
+    Log.critical('Failed to start application', { error });
     process.exit(1);
   });
@@ -60,6 +60,31 @@ export const envSchema = z.object({
   SWAGGER_TITLE: z.string().optional(),
   SWAGGER_VERSION: z.string().optional(),
   SWAGGER_DESCRIPTION: z.string().optional(),
+
+  // Logging
+  LOG_CHANNEL: z.string().optional(),
+  LOG_LEVEL: z
+    .enum([
+      'debug',
+      'info',
+      'notice',
+      'warning',
+      'error',
+      'critical',
+      'alert',
+      'emergency',
+    ])
+    .optional(),
+  LOG_STACK: z.string().optional(),
+
+  // Rate limiting
+  RATE_LIMIT_STORE: z.enum(['memory', 'database']).optional(),
+
+  // Mail
+  MAIL_MAILER: z.string().optional(),
+  MAIL_FROM_ADDRESS: z.string().email().optional(),
+  MAIL_FROM_NAME: z.string().optional(),
+  SENDGRID_API_KEY: z.string().optional(),
 });
 
 // In test environment, don't exit on validation errors to allow tests to run
@@ -70,4 +95,4 @@ Env.registerSchema(envSchema, {
 
 export const env = envSchema.parse(process.env);
 
-export type Env = z.infer<typeof envSchema>;
\ No newline at end of file
+export type Env = z.infer<typeof envSchema>;
@@ -62,6 +62,7 @@ export default [
       'index.js',
       '__generated__/**/*',
       '$server.ts',
+      'api/$api.ts',
       'prisma/__generated__/**/*',
     ],
   },
@@ -1,18 +1,16 @@
+// Loaded first: the seeders read config/*.ts, which read the environment
+import 'dotenv/config';
 import { PrismaClient } from '@prisma/client';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
+import { seedAdmin } from './seeders/adminSeeder';
 
 const prisma = new PrismaClient();
 
 prisma
-  .$transaction(
-    (
-      _tx, // eslint-disable-line @typescript-eslint/no-unused-vars
-    ) =>
-      Promise.all([
-        // register your seeder here
-      ]),
+  .$transaction((tx) =>
+    Promise.all([
+      seedAdmin(tx),
+      // register your seeder here
+    ]),
   )
   .catch((e) => {
     console.error(e);
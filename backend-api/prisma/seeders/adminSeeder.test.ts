@@ -0,0 +1,66 @@
+/**
+ * Admin Seeder Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import { Hash } from '../../@frouvel/kaname/hash';
+import admin from '../../config/admin';
+import { seedAdmin } from './adminSeeder';
+
+interface AdminRow {
+  email: string;
+  password: string;
+}
+
+/**
+ * In-memory stand-in for the `admin` delegate of a transaction
+ */
+function fakeTransaction() {
+  const rows: AdminRow[] = [];
+
+  const tx = {
+    admin: {
+      upsert: async (args: {
+        where: { email: string };
+        update: Partial<AdminRow>;
+        create: AdminRow;
+      }) => {
+        const row = rows.find(
+          (candidate) => candidate.email === args.where.email,
+        );
+        if (row) {
+          return Object.assign(row, args.update);
+        }
+        rows.push({ ...args.create });
+        return rows[rows.length - 1];
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+
+  return { rows, tx };
+}
+
+describe('seedAdmin', () => {
+  it('should create the admin account of config/admin.ts', async () => {
+    const { rows, tx } = fakeTransaction();
+
+    await seedAdmin(tx);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].email).toBe(admin.email);
+    expect(await Hash.check(admin.password, rows[0].password)).toBe(true);
+  });
+
+  it('should keep the password of an existing account', async () => {
+    const { rows, tx } = fakeTransaction();
+    await seedAdmin(tx);
+    const changed = await Hash.make('a-new-password');
+    rows[0].password = changed;
+
+    await seedAdmin(tx);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].password).toBe(changed);
+  });
+});
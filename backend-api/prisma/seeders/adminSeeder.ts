@@ -0,0 +1,16 @@
+import type { Prisma } from '@prisma/client';
+import { Hash } from '../../@frouvel/kaname/hash';
+import admin from '../../config/admin';
+
+/**
+ * Create the admin account of config/admin.ts
+ *
+ * An existing account is left as is: the seed runs on every deploy and
+ * must not undo a password reset.
+ */
+export const seedAdmin = async (tx: Prisma.TransactionClient) =>
+  tx.admin.upsert({
+    where: { email: admin.email },
+    update: {},
+    create: { email: admin.email, password: await Hash.make(admin.password) },
+  });
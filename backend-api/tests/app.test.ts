@@ -0,0 +1,37 @@
+import { afterAll, beforeAll, expect, it } from 'vitest';
+import { createApplication } from '$/bootstrap/app';
+import { createTestApp, type TestApp } from '$/@frouvel/kaname/testing';
+
+const basePath = process.env.API_BASE_PATH ?? '';
+
+let testApp: TestApp;
+
+beforeAll(async () => {
+  testApp = await createTestApp(createApplication, {
+    bindings: (app) => app.instance('prisma', {}),
+  });
+});
+
+afterAll(() => testApp.close());
+
+it('serves the routes of the application', async () => {
+  const response = await testApp.inject({
+    method: 'GET',
+    url: `${basePath}/health/live`,
+    headers: { 'x-request-id': 'req-1' },
+  });
+
+  expect(response.statusCode).toBe(200);
+  expect(response.headers['x-request-id']).toBe('req-1');
+  expect(response.json()).toMatchObject({ status: 'ok' });
+});
+
+it('answers unknown routes with a problem response', async () => {
+  const response = await testApp.inject(`${basePath}/missing`);
+
+  expect(response.statusCode).toBe(404);
+  expect(response.json()).toMatchObject({
+    code: 'NOT_FOUND',
+    requestId: response.headers['x-request-id'],
+  });
+});
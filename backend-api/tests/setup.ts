@@ -1,12 +1,8 @@
-import type { FastifyInstance } from 'fastify';
-import { afterAll, afterEach, beforeAll, beforeEach } from 'vitest';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
 import util from 'util';
 import { exec } from 'child_process';
 import { getPrismaClient } from '$/@frouvel/kaname/database';
-import { env } from '$/env';
-import { init } from '$/service/app';
 
-let server: FastifyInstance;
 const prisma = getPrismaClient();
 
 export async function refreshDatabase() {
@@ -27,11 +23,8 @@ export async function refreshDatabase() {
   }
 }
 
-const unneededServer = (file: { filepath?: string } | undefined) => {
-  // Only start server for integration tests
-  return !file?.filepath?.includes('integration.test');
-};
-
+// Only integration tests use the database. HTTP tests build the
+// application themselves with createTestApp() of @frouvel/kaname/testing.
 const isIntegrationTest = (file: { filepath?: string } | undefined) => {
   return file?.filepath?.includes('integration.test');
 };
@@ -39,11 +32,7 @@ const isIntegrationTest = (file: { filepath?: string } | undefined) => {
 let isMigrated = false;
 
 beforeAll(async (info) => {
-  if (unneededServer({ filepath: info.file.filepath })) return;
-
-  server = init();
-  // since +1 is used for websocket, +11 is used for testing API server
-  await server.listen({ port: env.API_SERVER_PORT + 11, host: '0.0.0.0' });
+  if (!isIntegrationTest({ filepath: info.file.filepath })) return;
 
   if (!isMigrated) {
     await util
@@ -58,42 +47,26 @@ beforeAll(async (info) => {
 });
 
 beforeEach(async (info) => {
-  if (unneededServer({ filepath: info?.task?.file?.name })) return;
-
-  if (isIntegrationTest({ filepath: info?.task?.file?.name })) {
-    await refreshDatabase();
-    await prisma
-      .$transaction(() =>
-        Promise.all([
-          // Add testing seeds
-        ]),
-      )
-      .catch((e) => {
-        console.error(e);
-        process.exit(1);
-      })
-      .finally(async () => {
-        await prisma.$disconnect();
-      });
-  }
-});
-
-afterEach(async (info) => {
-  if (unneededServer({ filepath: info?.task?.file?.name })) return;
-
-  await prisma.$disconnect();
+  if (!isIntegrationTest({ filepath: info?.task?.file?.name })) return;
+
+  await refreshDatabase();
+  await prisma
+    .$transaction(() =>
+      Promise.all([
+        // Add testing seeds
+      ]),
+    )
+    .catch((e) => {
+      console.error(e);
+      process.exit(1);
+    });
 });
 
 afterAll(async (info) => {
-  if (
-    unneededServer({
-      filepath: info.file.filepath,
-    })
-  )
-    return;
+  if (!isIntegrationTest({ filepath: info.file.filepath })) return;
 
   vi.clearAllMocks();
   vi.clearAllTimers();
 
-  await server.close();
+  await prisma.$disconnect();
 });
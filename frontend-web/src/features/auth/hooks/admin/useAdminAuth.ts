@@ -1,30 +1,58 @@
-// import { pagesPath } from '@/utils/$path'
-// import { adminApiClient } from '@/utils/apiClient'
-// import useAspidaSWR from '@aspida/swr'
-// import { useRouter } from 'next/router'
-// import { toast } from 'react-toastify'
-// import { useAdminAuthToken } from './useAdminAuthToken'
+import { pagesPath } from '@/utils/$path'
+import { adminApiClient, defaultWithoutAuthApiClient } from '@/utils/apiClient'
+import useAspidaSWR from '@aspida/swr'
+import { useRouter } from 'next/router'
+import { toast } from 'react-toastify'
+import { useAdminAuthToken } from './useAdminAuthToken'
 
 export const useAdminAuth = () => {
-  // const router = useRouter()
-  // const { removeAuthState } = useAdminAuthToken()
-  // const {
-  //   data: adminData,
-  //   isLoading: isLoadingAdminData,
-  //   error: adminDataError,
-  // } = useAspidaSWR(adminApiClient.auth.admin.me)
-  // const handleAdminLogout = async () => {
-  //   removeAuthState()
-  //   router.push(pagesPath.admin.auth.login.$url())
-  //   toast.success('ログアウトしました')
-  // }
-  // return {
-  //   auth: {
-  //     adminData,
-  //     isLoadingAdminData,
-  //     adminDataError,
-  //   },
-  //   isAuthenticated: !!adminData,
-  //   handleAdminLogout,
-  // }
+  const router = useRouter()
+  const { isAuthorized, setAuthState, getAuthState, removeAuthState } = useAdminAuthToken()
+  const {
+    data: adminData,
+    isLoading: isLoadingAdminData,
+    error: adminDataError,
+    mutate: mutateAdminData,
+  } = useAspidaSWR(adminApiClient.admin.auth.me, { enabled: isAuthorized })
+
+  const handleAdminLogin = async (credentials: { email: string; password: string }) => {
+    try {
+      const tokens = await defaultWithoutAuthApiClient.admin.auth.login.$post({ body: credentials })
+      if (!('accessToken' in tokens)) {
+        toast.error(tokens.detail)
+        return false
+      }
+
+      setAuthState({ token: tokens.accessToken, refreshToken: tokens.refreshToken })
+      await mutateAdminData()
+      toast.success('ログインしました')
+      return true
+    } catch {
+      toast.error('メールアドレスまたはパスワードが正しくありません')
+      return false
+    }
+  }
+
+  const handleAdminLogout = async () => {
+    const { refreshToken } = getAuthState()
+    if (refreshToken) {
+      // The session ends locally even when the refresh token could not be revoked
+      await adminApiClient.admin.auth.logout.$post({ body: { refreshToken } }).catch(() => undefined)
+    }
+
+    removeAuthState()
+    router.push(pagesPath.$url())
+    toast.success('ログアウトしました')
+  }
+
+  return {
+    auth: {
+      adminData: adminData && 'id' in adminData ? adminData : undefined,
+      isLoadingAdminData,
+      adminDataError,
+    },
+    isAuthenticated: !!adminData && 'id' in adminData,
+    handleAdminLogin,
+    handleAdminLogout,
+  }
 }
@@ -10,7 +10,7 @@ export const useAdminAuthToken = () => {
     setAuthorized(authData.token !== '')
   }, [])
 
-  const setAuthState = (args: { token: string }) => {
+  const setAuthState = (args: { token: string; refreshToken?: string }) => {
     adminAuthStateInSessionStorage.set(args)
     adminAuthStateInCookieStorage.set(args)
     setAuthorized(true)
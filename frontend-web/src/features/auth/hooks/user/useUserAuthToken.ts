@@ -10,7 +10,7 @@ export const useUserAuthToken = () => {
     setAuthorized(authData.token !== '')
   }, [])
 
-  const setAuthState = (args: { token: string }) => {
+  const setAuthState = (args: { token: string; refreshToken?: string }) => {
     userAuthStateInSessionStorage.set(args)
     userAuthStateInCookieStorage.set(args)
     setAuthorized(true)
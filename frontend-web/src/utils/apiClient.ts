@@ -1,6 +1,7 @@
 import aspida from '@aspida/axios'
-import axios from 'axios'
+import axios, { type InternalAxiosRequestConfig } from 'axios'
 import api from '../../../backend-api/api/$api'
+import { userAuthStateInCookieStorage } from './cookieStorage'
 import { adminAuthStateInSessionStorage, userAuthStateInSessionStorage } from './sessionStorage'
 import { API_ORIGIN, API_BASE_PATH } from '@/env'
 
@@ -33,3 +34,49 @@ userAxiosInstance.interceptors.request.use(async (config) => {
 export const defaultWithoutAuthApiClient = api(aspida(defaultWithoutAuthAxiosInstance))
 export const adminApiClient = api(aspida(adminAxiosInstance))
 export const userApiClient = api(aspida(userAxiosInstance))
+
+// Shared by the requests failing with 401 at the same time, so the refresh token is used once
+let refreshingUserTokens: Promise<void> | null = null
+
+const refreshUserTokens = async () => {
+  const { refreshToken } = userAuthStateInSessionStorage.get()
+  if (!refreshToken) {
+    throw new Error('No refresh token')
+  }
+
+  const tokens = await defaultWithoutAuthApiClient.auth.refresh.$post({ body: { refreshToken } })
+  if (!('accessToken' in tokens)) {
+    throw new Error(tokens.detail)
+  }
+
+  userAuthStateInSessionStorage.set({ token: tokens.accessToken, refreshToken: tokens.refreshToken })
+  userAuthStateInCookieStorage.set({ token: tokens.accessToken })
+}
+
+// Refresh the tokens once the access token expired, then replay the request once
+userAxiosInstance.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const request = axios.isAxiosError(error)
+      ? (error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined)
+      : undefined
+
+    if (!request || request._retried || error.response?.status !== 401) {
+      throw error
+    }
+    request._retried = true
+
+    try {
+      refreshingUserTokens ??= refreshUserTokens().finally(() => {
+        refreshingUserTokens = null
+      })
+      await refreshingUserTokens
+    } catch {
+      userAuthStateInSessionStorage.remove()
+      userAuthStateInCookieStorage.remove()
+      throw error
+    }
+
+    return userAxiosInstance(request)
+  },
+)
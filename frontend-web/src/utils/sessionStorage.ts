@@ -11,21 +11,21 @@ const defineStorage = <T>(args: { get: () => T; set: (arg: T) => void; remove: (
 const ADMIN_AUTH_STATE_KEY: SessionStorageKey = `${SESSION_STORAGE_PREFIX}admin_AuthState`
 const USER_COOKIE_AUTH_STATE_KEY: SessionStorageKey = `${SESSION_STORAGE_PREFIX}user_AuthState`
 
-export const adminAuthStateInSessionStorage = defineStorage<{ token: string }>({
+export const adminAuthStateInSessionStorage = defineStorage<{ token: string; refreshToken?: string }>({
   get: () => {
     const item = getItem({ key: ADMIN_AUTH_STATE_KEY })
 
-    return item !== null ? (JSON.parse(item) as { token: string }) : { token: '' }
+    return item !== null ? (JSON.parse(item) as { token: string; refreshToken?: string }) : { token: '' }
   },
   set: (value) => setItem({ key: ADMIN_AUTH_STATE_KEY, value: JSON.stringify(value) }),
   remove: () => removeItem({ key: ADMIN_AUTH_STATE_KEY }),
 })
 
-export const userAuthStateInSessionStorage = defineStorage<{ token: string }>({
+export const userAuthStateInSessionStorage = defineStorage<{ token: string; refreshToken?: string }>({
   get: () => {
     const item = getItem({ key: USER_COOKIE_AUTH_STATE_KEY })
 
-    return item !== null ? (JSON.parse(item) as { token: string }) : { token: '' }
+    return item !== null ? (JSON.parse(item) as { token: string; refreshToken?: string }) : { token: '' }
   },
   set: (value) => setItem({ key: USER_COOKIE_AUTH_STATE_KEY, value: JSON.stringify(value) }),
   remove: () => removeItem({ key: USER_COOKIE_AUTH_STATE_KEY }),